@@ -73,6 +73,58 @@ applications:
           - 'node_modules/**/*'
 `),
       customRules: [
+        // Static pages under a dynamic route must match before its shell rewrite
+        {
+          source: '/trips/schedule/',
+          target: '/trips/schedule/index.html',
+          status: '200',
+        },
+        {
+          source: '/trips/schedule',
+          target: '/trips/schedule/index.html',
+          status: '200',
+        },
+        {
+          source: '/trips/recurring/',
+          target: '/trips/recurring/index.html',
+          status: '200',
+        },
+        {
+          source: '/trips/recurring',
+          target: '/trips/recurring/index.html',
+          status: '200',
+        },
+        // Dynamic routes are exported as a single shell page per route
+        {
+          source: '/trips/<id>/',
+          target: '/trips/_/index.html',
+          status: '200',
+        },
+        {
+          source: '/trips/<id>',
+          target: '/trips/_/index.html',
+          status: '200',
+        },
+        {
+          source: '/drivers/<id>/',
+          target: '/drivers/_/index.html',
+          status: '200',
+        },
+        {
+          source: '/drivers/<id>',
+          target: '/drivers/_/index.html',
+          status: '200',
+        },
+        {
+          source: '/riders/<id>/',
+          target: '/riders/_/index.html',
+          status: '200',
+        },
+        {
+          source: '/riders/<id>',
+          target: '/riders/_/index.html',
+          status: '200',
+        },
         {
           source: '/<*>',
           target: '/index.html',
@@ -0,0 +1,10 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { AlertsCenter } from '@/components/alerts/alerts-center';
+
+export default function AlertsPage() {
+  return (
+    <MainLayout>
+      <AlertsCenter />
+    </MainLayout>
+  );
+}
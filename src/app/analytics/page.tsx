@@ -0,0 +1,10 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { AnalyticsDashboard } from '@/components/analytics/analytics-dashboard';
+
+export default function AnalyticsPage() {
+  return (
+    <MainLayout>
+      <AnalyticsDashboard />
+    </MainLayout>
+  );
+}
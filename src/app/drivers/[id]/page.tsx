@@ -0,0 +1,15 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { DriverDetail } from '@/components/drivers/driver-detail';
+import { getShellStaticParams } from '@/lib/routes';
+
+export function generateStaticParams() {
+  return getShellStaticParams('id');
+}
+
+export default function DriverDetailPage({ params }: { params: { id: string } }) {
+  return (
+    <MainLayout>
+      <DriverDetail driverId={params.id} />
+    </MainLayout>
+  );
+}
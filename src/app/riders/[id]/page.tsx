@@ -0,0 +1,15 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { RiderDetail } from '@/components/riders/rider-detail';
+import { getShellStaticParams } from '@/lib/routes';
+
+export function generateStaticParams() {
+  return getShellStaticParams('id');
+}
+
+export default function RiderDetailPage({ params }: { params: { id: string } }) {
+  return (
+    <MainLayout>
+      <RiderDetail riderId={params.id} />
+    </MainLayout>
+  );
+}
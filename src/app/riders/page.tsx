@@ -0,0 +1,10 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { RidersDashboard } from '@/components/riders/riders-dashboard';
+
+export default function RidersPage() {
+  return (
+    <MainLayout>
+      <RidersDashboard />
+    </MainLayout>
+  );
+}
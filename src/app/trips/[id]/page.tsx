@@ -0,0 +1,15 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { TripDetail } from '@/components/trips/trip-detail';
+import { getShellStaticParams } from '@/lib/routes';
+
+export function generateStaticParams() {
+  return getShellStaticParams('id');
+}
+
+export default function TripDetailPage({ params }: { params: { id: string } }) {
+  return (
+    <MainLayout>
+      <TripDetail tripId={params.id} />
+    </MainLayout>
+  );
+}
@@ -0,0 +1,10 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { RecurringTrips } from '@/components/trips/recurring-trips';
+
+export default function RecurringTripsPage() {
+  return (
+    <MainLayout>
+      <RecurringTrips />
+    </MainLayout>
+  );
+}
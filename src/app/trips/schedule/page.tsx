@@ -0,0 +1,10 @@
+import { MainLayout } from '@/components/layout/main-layout';
+import { TripSchedule } from '@/components/trips/trip-schedule';
+
+export default function TripSchedulePage() {
+  return (
+    <MainLayout>
+      <TripSchedule />
+    </MainLayout>
+  );
+}
@@ -0,0 +1,324 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Alert, Driver, Rider, Trip } from '@/types';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  BellRing,
+  Car,
+  CheckCircle,
+  ExternalLink,
+  Loader2,
+  MapPin,
+  Navigation,
+  Phone,
+  User,
+  UserCheck,
+  UserX,
+  X
+} from 'lucide-react';
+import { AlertTypeIcon } from './alert-type-icon';
+import { alertEscalationMonitor } from '@/services/alert-escalation';
+import {
+  ALERT_TYPE_LABELS,
+  getAlertEscalations,
+  getAlertSeverityColor,
+  isAlertAcknowledged
+} from '@/lib/alerts';
+import { formatTripStatus } from '@/lib/trip-status';
+import { formatDateTime, formatPhoneNumber, formatRelativeTime, cn } from '@/lib/utils';
+
+interface AlertDetailPanelProps {
+  alert: Alert;
+  currentUserId?: string;
+  onAcknowledge: (alert: Alert) => void;
+  onClaim: (alert: Alert) => void;
+  onRelease: (alert: Alert) => void;
+  onResolve: (alert: Alert) => void;
+  onClose: () => void;
+}
+
+export function AlertDetailPanel({
+  alert,
+  currentUserId,
+  onAcknowledge,
+  onClaim,
+  onRelease,
+  onResolve,
+  onClose
+}: AlertDetailPanelProps) {
+  const [trip, setTrip] = useState<Trip | null>(null);
+  const [driver, setDriver] = useState<Driver | null>(null);
+  const [rider, setRider] = useState<Rider | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Load the trip, driver and rider the alert refers to
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadContext = async () => {
+      setTrip(null);
+      setDriver(null);
+      setRider(null);
+      setIsLoading(true);
+
+      try {
+        const [tripResponse, driverResponse, riderResponse] = await Promise.all([
+          alert.tripId ? api.trips.getTripById(alert.tripId) : null,
+          alert.driverId ? api.drivers.getDriverById(alert.driverId) : null,
+          alert.riderId ? api.riders.getRiderById(alert.riderId) : null
+        ]);
+        if (cancelled) return;
+
+        const linkedTrip = tripResponse?.success ? tripResponse.data || null : null;
+        setTrip(linkedTrip);
+        // Fall back to the people on the linked trip when the alert doesn't name them
+        setDriver(driverResponse?.success ? driverResponse.data || null : linkedTrip?.driver || null);
+        setRider(riderResponse?.success ? riderResponse.data || null : linkedTrip?.rider || null);
+      } catch (error) {
+        console.error('Failed to load alert context:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadContext();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [alert.id]);
+
+  const isMine = !!currentUserId && alert.assignedTo === currentUserId;
+  // Escalation history is shown in its own section
+  const metadataEntries = Object.entries(alert.metadata || {}).filter(([key]) => key !== 'escalations');
+  const escalations = getAlertEscalations(alert);
+  const policy = alertEscalationMonitor.getPolicy(alert);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex items-start gap-3 min-w-0">
+            <div className={cn('p-2 rounded-full', getAlertSeverityColor(alert.severity))}>
+              <AlertTypeIcon type={alert.type} />
+            </div>
+            <div className="min-w-0">
+              <CardTitle className="text-base">{alert.title}</CardTitle>
+              <p className="text-xs text-gray-500 mt-1">
+                {ALERT_TYPE_LABELS[alert.type]} · {formatDateTime(alert.createdAt)}
+              </p>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className={cn('text-xs', getAlertSeverityColor(alert.severity))}>
+            {alert.severity}
+          </Badge>
+          {alert.isResolved ? (
+            <Badge className="text-xs bg-green-100 text-green-800">resolved</Badge>
+          ) : (
+            <Badge variant="outline" className="text-xs">open</Badge>
+          )}
+          {alert.actionRequired && !alert.isResolved && (
+            <Badge variant="destructive" className="text-xs">Action Required</Badge>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-700">{alert.message}</p>
+
+        {/* Acknowledgement */}
+        {!alert.isResolved && (
+          isAlertAcknowledged(alert) ? (
+            alert.acknowledgedAt && (
+              <p className="text-xs text-gray-500">
+                Acknowledged {formatRelativeTime(alert.acknowledgedAt)}
+                {alert.acknowledgedBy && ` by ${alert.acknowledgedBy}`}
+              </p>
+            )
+          ) : (
+            <div className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-lg text-sm">
+              <span className="text-red-800">
+                {policy
+                  ? `Escalates every ${policy.acknowledgeMinutes} min until acknowledged`
+                  : 'Not yet acknowledged'}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => onAcknowledge(alert)}>
+                Acknowledge
+              </Button>
+            </div>
+          )
+        )}
+
+        {/* Assignment */}
+        <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg text-sm">
+          <div className="flex items-center gap-2">
+            <UserCheck className="h-4 w-4 text-gray-500" />
+            {alert.assignedTo ? (
+              <span>
+                {isMine ? 'Claimed by you' : `Claimed by ${alert.assignedToName || 'another dispatcher'}`}
+                {alert.assignedAt && (
+                  <span className="text-xs text-gray-500 ml-1">{formatRelativeTime(alert.assignedAt)}</span>
+                )}
+              </span>
+            ) : (
+              <span className="text-gray-500">Unassigned</span>
+            )}
+          </div>
+          {!alert.isResolved && (
+            isMine ? (
+              <Button variant="outline" size="sm" onClick={() => onRelease(alert)}>
+                <UserX className="h-3 w-3 mr-1" />
+                Release
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => onClaim(alert)}>
+                <UserCheck className="h-3 w-3 mr-1" />
+                {alert.assignedTo ? 'Take Over' : 'Claim'}
+              </Button>
+            )
+          )}
+        </div>
+
+        {/* Linked Context */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {trip && (
+              <div className="p-3 border rounded-lg text-sm space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Trip #{trip.id.slice(-6).toUpperCase()}</span>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">{formatTripStatus(trip.status)}</Badge>
+                    <Link href={`/trips/${trip.id}`} className="text-blue-600 hover:underline">
+                      <ExternalLink className="h-3 w-3" />
+                    </Link>
+                  </div>
+                </div>
+                <div className="flex items-start gap-2">
+                  <MapPin className="h-3 w-3 text-green-600 mt-1" />
+                  <span className="text-xs">{trip.pickup.address}</span>
+                </div>
+                <div className="flex items-start gap-2">
+                  <Navigation className="h-3 w-3 text-red-600 mt-1" />
+                  <span className="text-xs">{trip.destination.address}</span>
+                </div>
+                {trip.scheduledAt && (
+                  <p className="text-xs text-gray-500">Scheduled {formatDateTime(trip.scheduledAt)}</p>
+                )}
+              </div>
+            )}
+
+            {driver && (
+              <div className="p-3 border rounded-lg text-sm flex items-center justify-between">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Car className="h-4 w-4 text-gray-500" />
+                  <div className="min-w-0">
+                    <Link href={`/drivers/${driver.id}`} className="font-medium hover:underline">
+                      {driver.firstName} {driver.lastName}
+                    </Link>
+                    <p className="text-xs text-gray-500">{driver.status.replace(/_/g, ' ')}</p>
+                  </div>
+                </div>
+                {driver.phone && (
+                  <a href={`tel:${driver.phone}`} className="flex items-center gap-1 text-xs text-blue-600">
+                    <Phone className="h-3 w-3" />
+                    {formatPhoneNumber(driver.phone)}
+                  </a>
+                )}
+              </div>
+            )}
+
+            {rider && (
+              <div className="p-3 border rounded-lg text-sm flex items-center justify-between">
+                <div className="flex items-center gap-2 min-w-0">
+                  <User className="h-4 w-4 text-gray-500" />
+                  <Link href={`/riders/${rider.id}`} className="font-medium hover:underline">
+                    {rider.firstName} {rider.lastName}
+                  </Link>
+                </div>
+                {rider.phone && (
+                  <a href={`tel:${rider.phone}`} className="flex items-center gap-1 text-xs text-blue-600">
+                    <Phone className="h-3 w-3" />
+                    {formatPhoneNumber(rider.phone)}
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Escalation History */}
+        {escalations.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+              <BellRing className="h-4 w-4" />
+              Escalations
+            </h4>
+            <div className="space-y-2">
+              {escalations.map(escalation => (
+                <div key={escalation.level} className="flex items-start justify-between gap-3 text-xs">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      Level {escalation.level}: {escalation.action === 'renotified' ? 'Re-notified' : 'Escalated to'}{' '}
+                      {escalation.notifiedRoles.join(', ')}
+                    </p>
+                    <p className="text-gray-500">
+                      {alertEscalationMonitor.getPolicies().find(item => item.id === escalation.policyId)?.name || escalation.policyId}
+                    </p>
+                  </div>
+                  <span className="text-gray-500 shrink-0">{formatDateTime(escalation.at)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {metadataEntries.length > 0 && (
+          <div className="text-xs space-y-1">
+            {metadataEntries.map(([key, value]) => (
+              <div key={key} className="flex justify-between gap-4">
+                <span className="text-gray-500">{key}</span>
+                <span className="text-gray-900 text-right truncate">
+                  {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Resolution */}
+        {alert.isResolved ? (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm">
+            <p className="font-medium text-green-800 flex items-center gap-2">
+              <CheckCircle className="h-4 w-4" />
+              Resolved{alert.resolvedAt && ` ${formatRelativeTime(alert.resolvedAt)}`}
+              {alert.resolvedBy && ` by ${alert.resolvedBy}`}
+            </p>
+            {alert.resolution && <p className="text-green-900 mt-1 whitespace-pre-wrap">{alert.resolution}</p>}
+          </div>
+        ) : (
+          <Button className="w-full" onClick={() => onResolve(alert)}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Resolve
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AlertDetailPanel;
@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { AlertType } from '@/types';
+import { useAlertStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell, BellOff, X } from 'lucide-react';
+import { ALERT_SNOOZE_OPTIONS, ALERT_TYPE_LABELS, getActiveMuteRule } from '@/lib/alerts';
+import { formatTime } from '@/lib/utils';
+
+interface AlertMuteMenuProps {
+  type: AlertType;
+}
+
+/**
+ * Dropdown to snooze an alert type for a while or mute it until turned back on
+ */
+export function AlertMuteMenu({ type }: AlertMuteMenuProps) {
+  const { muteRules, muteAlertType, unmuteAlertType } = useAlertStore();
+  const activeRule = getActiveMuteRule(type, muteRules);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" title="Snooze or mute this alert type" onClick={(e) => e.stopPropagation()}>
+          <BellOff className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuLabel>{ALERT_TYPE_LABELS[type]}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {ALERT_SNOOZE_OPTIONS.map(option => (
+          <DropdownMenuItem
+            key={option.minutes}
+            onClick={() => muteAlertType(type, new Date(Date.now() + option.minutes * 60000))}
+          >
+            Snooze for {option.label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuItem onClick={() => muteAlertType(type)}>
+          Mute until turned back on
+        </DropdownMenuItem>
+        {activeRule && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => unmuteAlertType(type)}>
+              <Bell className="h-3 w-3 mr-2" />
+              Unmute
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+/**
+ * Chips for the alert types currently snoozed or muted, each with an unmute button
+ */
+export function MutedAlertTypes() {
+  const { muteRules, unmuteAlertType } = useAlertStore();
+  const activeRules = muteRules.filter(rule => getActiveMuteRule(rule.type, [rule]));
+
+  if (activeRules.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-gray-500">Muted:</span>
+      {activeRules.map(rule => (
+        <Badge key={rule.type} variant="secondary" className="text-xs gap-1">
+          {ALERT_TYPE_LABELS[rule.type]}
+          {rule.until && <span className="text-gray-500">until {formatTime(rule.until)}</span>}
+          <button onClick={() => unmuteAlertType(rule.type)} title="Unmute">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+export default AlertMuteMenu;
@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { AlertType } from '@/types';
+import {
+  AlertTriangle,
+  Car,
+  Clock,
+  DollarSign,
+  MapPin,
+  Shield,
+  Users,
+  X
+} from 'lucide-react';
+
+interface AlertTypeIconProps {
+  type: AlertType;
+  className?: string;
+}
+
+export function AlertTypeIcon({ type, className = 'h-4 w-4' }: AlertTypeIconProps) {
+  switch (type) {
+    case AlertType.TRIP_DELAY:
+      return <Clock className={className} />;
+    case AlertType.DRIVER_OFFLINE:
+      return <Users className={className} />;
+    case AlertType.VEHICLE_BREAKDOWN:
+      return <Car className={className} />;
+    case AlertType.EMERGENCY:
+      return <Shield className={className} />;
+    case AlertType.PAYMENT_FAILED:
+      return <DollarSign className={className} />;
+    case AlertType.NO_DRIVERS_AVAILABLE:
+      return <Users className={className} />;
+    case AlertType.RIDER_NO_SHOW:
+    case AlertType.DRIVER_NO_SHOW:
+      return <X className={className} />;
+    case AlertType.ROUTE_DEVIATION:
+      return <MapPin className={className} />;
+    default:
+      return <AlertTriangle className={className} />;
+  }
+}
+
+export default AlertTypeIcon;
@@ -0,0 +1,538 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  AlertFilters,
+  AlertSeverity,
+  AlertType,
+  PaginationInfo
+} from '@/types';
+import { useAlertStore, useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Bell,
+  Car,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Eye,
+  Loader2,
+  RefreshCw,
+  Search,
+  User,
+  UserCheck
+} from 'lucide-react';
+import { AlertTypeIcon } from './alert-type-icon';
+import { AlertDetailPanel } from './alert-detail-panel';
+import { ResolveAlertDialog } from './resolve-alert-dialog';
+import {
+  ALERT_TYPE_LABELS,
+  getAlertEscalations,
+  getAlertSeverityColor,
+  isAlertAcknowledged
+} from '@/lib/alerts';
+import { debounce, formatRelativeTime, cn } from '@/lib/utils';
+
+const ALERTS_PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type ResolvedFilter = 'open' | 'resolved' | 'all';
+type AssignmentFilter = 'all' | 'mine' | 'unassigned';
+
+const SEVERITIES = [AlertSeverity.CRITICAL, AlertSeverity.HIGH, AlertSeverity.MEDIUM, AlertSeverity.LOW];
+
+export function AlertsCenter() {
+  const { user } = useAuth();
+  const { addNotification } = useUIStore();
+  const { updateAlert: updateStoredAlert } = useAlertStore();
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [page, setPage] = useState(1);
+  const [typeFilter, setTypeFilter] = useState<AlertType | 'all'>('all');
+  const [severityFilter, setSeverityFilter] = useState<AlertSeverity[]>([]);
+  const [resolvedFilter, setResolvedFilter] = useState<ResolvedFilter>('open');
+  const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>('all');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [activeAlertId, setActiveAlertId] = useState<string | null>(null);
+  const [resolveTargets, setResolveTargets] = useState<Alert[]>([]);
+
+  const updateSearch = useMemo(() => debounce((value: string) => {
+    setSearch(value.trim());
+    setPage(1);
+  }, SEARCH_DEBOUNCE_MS), []);
+
+  const filters = useMemo<AlertFilters>(() => ({
+    type: typeFilter === 'all' ? undefined : [typeFilter],
+    severity: severityFilter.length > 0 ? severityFilter : undefined,
+    isResolved: resolvedFilter === 'all' ? undefined : resolvedFilter === 'resolved',
+    assignedTo: assignmentFilter === 'mine' ? user?.id : assignmentFilter === 'unassigned' ? 'unassigned' : undefined,
+    search: search || undefined
+  }), [typeFilter, severityFilter, resolvedFilter, assignmentFilter, search, user?.id]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [filters, page]);
+
+  const loadAlerts = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await api.alerts.getAlerts({ page, limit: ALERTS_PAGE_SIZE }, filters);
+      if (response.success && response.data) {
+        setAlerts(response.data.alerts);
+        setPagination(response.data.pagination);
+        // Drop selections that are no longer on the page
+        const ids = new Set(response.data.alerts.map(alert => alert.id));
+        setSelectedIds(current => current.filter(id => ids.has(id)));
+      }
+    } catch (error) {
+      console.error('Failed to load alerts:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load alerts. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const changeFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  // Apply an update to the page and to the shared alert store used by the header and dashboard
+  const applyUpdate = (alertId: string, updates: Partial<Alert>) => {
+    setAlerts(current => current.map(alert => alert.id === alertId ? { ...alert, ...updates } : alert));
+    updateStoredAlert(alertId, updates);
+  };
+
+  const activeAlert = alerts.find(alert => alert.id === activeAlertId) || null;
+  const selectedAlerts = alerts.filter(alert => selectedIds.includes(alert.id));
+  const allSelected = alerts.length > 0 && selectedIds.length === alerts.length;
+
+  const toggleSelected = (alertId: string) => {
+    setSelectedIds(current =>
+      current.includes(alertId) ? current.filter(id => id !== alertId) : [...current, alertId]
+    );
+  };
+
+  const toggleSeverity = (severity: AlertSeverity) => {
+    changeFilter(setSeverityFilter)(
+      severityFilter.includes(severity)
+        ? severityFilter.filter(value => value !== severity)
+        : [...severityFilter, severity]
+    );
+  };
+
+  const handleOpenAlert = async (alert: Alert) => {
+    setActiveAlertId(alert.id);
+    if (alert.isRead) return;
+
+    try {
+      const response = await api.alerts.markAlertAsRead(alert.id);
+      if (response.success) {
+        applyUpdate(alert.id, { isRead: true });
+      }
+    } catch (error) {
+      console.error('Failed to mark alert as read:', error);
+    }
+  };
+
+  const handleAcknowledge = async (alert: Alert) => {
+    try {
+      const response = await api.alerts.acknowledgeAlert(alert.id);
+      if (response.success) {
+        applyUpdate(alert.id, response.data || {
+          acknowledgedAt: new Date(),
+          acknowledgedBy: user ? `${user.firstName} ${user.lastName}` : undefined
+        });
+      } else {
+        throw new Error(response.error?.message || 'Acknowledgement failed');
+      }
+    } catch (error) {
+      console.error('Failed to acknowledge alert:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to acknowledge alert. Please try again.',
+        duration: 5000
+      });
+    }
+  };
+
+  const handleAssign = async (alert: Alert, claim: boolean) => {
+    if (!user) return;
+
+    try {
+      const response = await api.alerts.assignAlert(alert.id, claim ? user.id : null);
+      if (response.success) {
+        applyUpdate(alert.id, response.data || {
+          assignedTo: claim ? user.id : undefined,
+          assignedToName: claim ? `${user.firstName} ${user.lastName}` : undefined,
+          assignedAt: claim ? new Date() : undefined
+        });
+      } else {
+        throw new Error(response.error?.message || 'Assignment failed');
+      }
+    } catch (error) {
+      console.error('Failed to update alert assignment:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: claim ? 'Failed to claim alert. Please try again.' : 'Failed to release alert. Please try again.',
+        duration: 5000
+      });
+    }
+  };
+
+  const handleBulkClaim = async () => {
+    const unclaimed = selectedAlerts.filter(alert => !alert.isResolved && alert.assignedTo !== user?.id);
+    await Promise.all(unclaimed.map(alert => handleAssign(alert, true)));
+  };
+
+  const handleBulkMarkRead = async () => {
+    const unreadIds = selectedAlerts.filter(alert => !alert.isRead).map(alert => alert.id);
+    if (unreadIds.length === 0) return;
+
+    try {
+      const response = await api.alerts.markAlertsAsRead(unreadIds);
+      if (response.success) {
+        unreadIds.forEach(id => applyUpdate(id, { isRead: true }));
+        setSelectedIds([]);
+      } else {
+        throw new Error(response.error?.message || 'Update failed');
+      }
+    } catch (error) {
+      console.error('Failed to mark alerts as read:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to mark alerts as read. Please try again.',
+        duration: 5000
+      });
+    }
+  };
+
+  const handleResolve = async (resolution: string) => {
+    const targets = resolveTargets.filter(alert => !alert.isResolved);
+    setResolveTargets([]);
+    if (targets.length === 0) return;
+
+    try {
+      const response = targets.length === 1
+        ? await api.alerts.resolveAlert(targets[0].id, resolution)
+        : await api.alerts.resolveAlerts(targets.map(alert => alert.id), resolution);
+
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Resolution failed');
+      }
+
+      targets.forEach(alert => applyUpdate(alert.id, {
+        isResolved: true,
+        isRead: true,
+        resolution,
+        resolvedAt: new Date(),
+        resolvedBy: user ? `${user.firstName} ${user.lastName}` : undefined
+      }));
+      setSelectedIds([]);
+
+      addNotification({
+        type: 'success',
+        title: 'Resolved',
+        message: targets.length === 1 ? `"${targets[0].title}" has been resolved.` : `${targets.length} alerts have been resolved.`,
+        duration: 3000
+      });
+    } catch (error) {
+      console.error('Failed to resolve alerts:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to resolve alerts. Please try again.',
+        duration: 5000
+      });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Alerts</h1>
+          <p className="text-gray-600">Triage, claim and resolve operational alerts</p>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={loadAlerts} disabled={isLoading}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', isLoading && 'animate-spin')} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4 flex flex-wrap items-center gap-3">
+          <div className="relative w-72">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search alerts"
+              value={searchInput}
+              onChange={(e) => {
+                setSearchInput(e.target.value);
+                updateSearch(e.target.value);
+              }}
+              className="pl-9"
+            />
+          </div>
+
+          <Select value={typeFilter} onValueChange={(value) => changeFilter(setTypeFilter)(value as AlertType | 'all')}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {Object.values(AlertType).map(type => (
+                <SelectItem key={type} value={type}>{ALERT_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={resolvedFilter} onValueChange={(value) => changeFilter(setResolvedFilter)(value as ResolvedFilter)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="resolved">Resolved</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select value={assignmentFilter} onValueChange={(value) => changeFilter(setAssignmentFilter)(value as AssignmentFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Anyone</SelectItem>
+              <SelectItem value="mine">Claimed by me</SelectItem>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-1">
+            {SEVERITIES.map(severity => (
+              <button
+                key={severity}
+                onClick={() => toggleSeverity(severity)}
+                className={cn(
+                  'px-2 py-1 rounded-md border text-xs capitalize transition-colors',
+                  severityFilter.includes(severity)
+                    ? getAlertSeverityColor(severity)
+                    : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                )}
+              >
+                {severity}
+              </button>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Alerts List */}
+        <Card className={activeAlert ? 'xl:col-span-2' : 'xl:col-span-3'}>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelectedIds(allSelected ? [] : alerts.map(alert => alert.id))}
+                  className="rounded border-gray-300"
+                  title="Select all on this page"
+                />
+                Alerts
+                {pagination && <span className="text-sm font-normal text-gray-500">{pagination.total}</span>}
+              </CardTitle>
+
+              {/* Bulk Actions */}
+              {selectedIds.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600">{selectedIds.length} selected</span>
+                  <Button variant="outline" size="sm" onClick={handleBulkMarkRead}>
+                    <Eye className="h-3 w-3 mr-1" />
+                    Mark Read
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleBulkClaim}>
+                    <UserCheck className="h-3 w-3 mr-1" />
+                    Claim
+                  </Button>
+                  <Button size="sm" onClick={() => setResolveTargets(selectedAlerts.filter(alert => !alert.isResolved))}>
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Resolve
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+
+          <CardContent className="p-0">
+            {isLoading && alerts.length === 0 ? (
+              <div className="flex items-center justify-center h-32">
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              </div>
+            ) : alerts.length === 0 ? (
+              <div className="text-center py-12">
+                <Bell className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+                <p className="text-sm text-gray-500">No alerts match these filters.</p>
+              </div>
+            ) : (
+              <div className={cn('divide-y', isLoading && 'opacity-50')}>
+                {alerts.map(alert => (
+                  <div
+                    key={alert.id}
+                    onClick={() => handleOpenAlert(alert)}
+                    className={cn(
+                      'flex items-start gap-3 px-4 py-3 cursor-pointer border-l-4 hover:bg-gray-50',
+                      alert.severity === AlertSeverity.CRITICAL && 'border-l-red-500',
+                      alert.severity === AlertSeverity.HIGH && 'border-l-orange-500',
+                      alert.severity === AlertSeverity.MEDIUM && 'border-l-yellow-500',
+                      alert.severity === AlertSeverity.LOW && 'border-l-blue-500',
+                      alert.id === activeAlertId && 'bg-blue-50',
+                      alert.isResolved && 'opacity-60'
+                    )}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(alert.id)}
+                      onChange={() => toggleSelected(alert.id)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="mt-1 rounded border-gray-300"
+                    />
+
+                    <div className={cn('p-2 rounded-full', getAlertSeverityColor(alert.severity))}>
+                      <AlertTypeIcon type={alert.type} />
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        {!alert.isRead && <div className="h-2 w-2 bg-blue-600 rounded-full shrink-0" />}
+                        <h3 className={cn('truncate', alert.isRead ? 'text-gray-900' : 'font-semibold text-gray-900')}>
+                          {alert.title}
+                        </h3>
+                        <Badge variant="outline" className={cn('text-xs', getAlertSeverityColor(alert.severity))}>
+                          {alert.severity}
+                        </Badge>
+                        {alert.isResolved && (
+                          <Badge className="text-xs bg-green-100 text-green-800">resolved</Badge>
+                        )}
+                        {!isAlertAcknowledged(alert) && getAlertEscalations(alert).length > 0 && (
+                          <Badge variant="destructive" className="text-xs">
+                            escalated ×{getAlertEscalations(alert).length}
+                          </Badge>
+                        )}
+                      </div>
+
+                      <p className="text-sm text-gray-600 line-clamp-1 mb-1">{alert.message}</p>
+
+                      <div className="flex items-center gap-3 text-xs text-gray-500">
+                        <span>{ALERT_TYPE_LABELS[alert.type]}</span>
+                        <span>{formatRelativeTime(alert.createdAt)}</span>
+                        {alert.tripId && (
+                          <span className="flex items-center gap-1">
+                            <Car className="h-3 w-3" />
+                            Trip #{alert.tripId.slice(-6).toUpperCase()}
+                          </span>
+                        )}
+                        {(alert.driverId || alert.riderId) && (
+                          <span className="flex items-center gap-1">
+                            <User className="h-3 w-3" />
+                            {alert.driverId && alert.riderId ? 'Driver, rider' : alert.driverId ? 'Driver' : 'Rider'}
+                          </span>
+                        )}
+                        {alert.assignedTo && (
+                          <span className="flex items-center gap-1 text-blue-700">
+                            <UserCheck className="h-3 w-3" />
+                            {alert.assignedTo === user?.id ? 'You' : alert.assignedToName || 'Claimed'}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between px-6 py-4 border-t">
+                <span className="text-sm text-gray-500">
+                  Page {pagination.page} of {pagination.totalPages}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!pagination.hasPrev || isLoading}
+                    onClick={() => setPage(current => current - 1)}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!pagination.hasNext || isLoading}
+                    onClick={() => setPage(current => current + 1)}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Alert Detail */}
+        {activeAlert && (
+          <div>
+            <AlertDetailPanel
+              alert={activeAlert}
+              currentUserId={user?.id}
+              onAcknowledge={handleAcknowledge}
+              onClaim={(alert) => handleAssign(alert, true)}
+              onRelease={(alert) => handleAssign(alert, false)}
+              onResolve={(alert) => setResolveTargets([alert])}
+              onClose={() => setActiveAlertId(null)}
+            />
+          </div>
+        )}
+      </div>
+
+      <ResolveAlertDialog
+        open={resolveTargets.length > 0}
+        onOpenChange={(open) => !open && setResolveTargets([])}
+        count={resolveTargets.length}
+        onConfirm={handleResolve}
+      />
+    </div>
+  );
+}
+
+export default AlertsCenter;
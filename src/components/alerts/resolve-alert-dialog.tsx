@@ -0,0 +1,63 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ResolveAlertDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  count: number; // number of alerts being resolved
+  onConfirm: (resolution: string) => void;
+}
+
+export function ResolveAlertDialog({ open, onOpenChange, count, onConfirm }: ResolveAlertDialogProps) {
+  const [resolution, setResolution] = useState('');
+
+  // Start each resolution with empty notes
+  useEffect(() => {
+    if (open) setResolution('');
+  }, [open]);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{count === 1 ? 'Resolve Alert' : `Resolve ${count} Alerts`}</AlertDialogTitle>
+          <AlertDialogDescription>
+            Describe what was done. The notes are kept with the alert for later review.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="my-4">
+          <label className="text-sm font-medium">Resolution Notes</label>
+          <Textarea
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+            placeholder="e.g. Reassigned trip to a nearby driver and notified the rider"
+            className="mt-1"
+            rows={4}
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onConfirm(resolution.trim())} disabled={!resolution.trim()}>
+            Resolve
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export default ResolveAlertDialog;
@@ -0,0 +1,514 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  DriverAnalytics,
+  RevenueAnalytics,
+  ServiceType,
+  TimePeriod,
+  TripAnalytics,
+  TripFilters,
+  TripStatus
+} from '@/types';
+import { useTripStore, useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Car,
+  ChevronLeft,
+  ChevronRight,
+  DollarSign,
+  RefreshCw,
+  Route,
+  Star
+} from 'lucide-react';
+import { ChangeIndicator } from './change-indicator';
+import { TimeSeriesChart } from './time-series-chart';
+import { alignSeries, getPercentChange, SeriesBucket } from '@/lib/analytics';
+import { getPeriodRange, getPreviousRange, shiftByPeriod } from '@/lib/time-ranges';
+import { formatTripStatus } from '@/lib/trip-status';
+import { formatCurrency, formatDuration, cn } from '@/lib/utils';
+
+type AnalyticsSection = 'trips' | 'drivers' | 'revenue';
+
+interface AnalyticsReport {
+  trips: TripAnalytics | null;
+  drivers: DriverAnalytics | null;
+  revenue: RevenueAnalytics | null;
+}
+
+const EMPTY_REPORT: AnalyticsReport = { trips: null, drivers: null, revenue: null };
+
+const PERIOD_OPTIONS: { value: TimePeriod; label: string }[] = [
+  { value: TimePeriod.DAY, label: 'Day' },
+  { value: TimePeriod.WEEK, label: 'Week' },
+  { value: TimePeriod.MONTH, label: 'Month' },
+  { value: TimePeriod.QUARTER, label: 'Quarter' },
+  { value: TimePeriod.YEAR, label: 'Year' }
+];
+
+/**
+ * Heading for the selected calendar period
+ */
+function formatRangeLabel(start: Date, period: TimePeriod): string {
+  switch (period) {
+    case TimePeriod.HOUR:
+    case TimePeriod.DAY:
+      return format(start, 'EEEE, MMMM d, yyyy');
+    case TimePeriod.WEEK:
+      return `Week of ${format(start, 'MMM d, yyyy')}`;
+    case TimePeriod.MONTH:
+      return format(start, 'MMMM yyyy');
+    case TimePeriod.QUARTER:
+      return `Q${Math.floor(start.getMonth() / 3) + 1} ${start.getFullYear()}`;
+    default:
+      return format(start, 'yyyy');
+  }
+}
+
+export function AnalyticsDashboard() {
+  const router = useRouter();
+  const { setFilters } = useTripStore();
+  const { addNotification } = useUIStore();
+  const { currentTenant } = useAuth();
+
+  const [period, setPeriod] = useState<TimePeriod>(TimePeriod.WEEK);
+  const [anchorDate, setAnchorDate] = useState(() => new Date());
+  const [compare, setCompare] = useState(true);
+  const [section, setSection] = useState<AnalyticsSection>('trips');
+  const [current, setCurrent] = useState<AnalyticsReport>(EMPTY_REPORT);
+  const [previous, setPrevious] = useState<AnalyticsReport>(EMPTY_REPORT);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const range = useMemo(() => getPeriodRange(period, anchorDate), [period, anchorDate]);
+  const previousRange = useMemo(() => getPreviousRange(range), [range]);
+  const isCurrentPeriod = range.end.getTime() >= getPeriodRange(period, new Date()).start.getTime();
+  const currency = currentTenant?.settings.currency;
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [range]);
+
+  const loadReport = async (timeRange: typeof range): Promise<AnalyticsReport> => {
+    const [trips, drivers, revenue] = await Promise.all([
+      api.analytics.getTripAnalytics(timeRange),
+      api.analytics.getDriverAnalytics(timeRange),
+      api.analytics.getRevenueAnalytics(timeRange)
+    ]);
+
+    return {
+      trips: trips.success && trips.data ? trips.data : null,
+      drivers: drivers.success && drivers.data ? drivers.data : null,
+      revenue: revenue.success && revenue.data ? revenue.data : null
+    };
+  };
+
+  const loadAnalytics = async () => {
+    setIsLoading(true);
+
+    try {
+      const [currentReport, previousReport] = await Promise.all([
+        loadReport(range),
+        loadReport(previousRange)
+      ]);
+      setCurrent(currentReport);
+      setPrevious(previousReport);
+    } catch (error) {
+      console.error('Failed to load analytics:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load analytics. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Open the trips list filtered to what was clicked
+  const drillDown = (start: Date, end: Date, filters: Partial<TripFilters> = {}) => {
+    setFilters({
+      status: undefined,
+      serviceType: undefined,
+      driverId: undefined,
+      riderId: undefined,
+      priority: undefined,
+      search: undefined,
+      dateRange: { start, end, period },
+      ...filters
+    });
+    router.push('/trips');
+  };
+
+  const handleBucketClick = (bucket: SeriesBucket) => drillDown(bucket.start, bucket.end);
+
+  const tripVolume = useMemo(
+    () => alignSeries(range, current.trips?.tripVolume || [], previousRange, previous.trips?.tripVolume),
+    [range, previousRange, current.trips, previous.trips]
+  );
+  const revenueSeries = useMemo(
+    () => alignSeries(range, current.revenue?.revenueOverTime || [], previousRange, previous.revenue?.revenueOverTime),
+    [range, previousRange, current.revenue, previous.revenue]
+  );
+  const activeDriverSeries = useMemo(
+    () => alignSeries(range, current.drivers?.activeDriversOverTime || [], previousRange, previous.drivers?.activeDriversOverTime),
+    [range, previousRange, current.drivers, previous.drivers]
+  );
+
+  const totalTrips = tripVolume.reduce((sum, bucket) => sum + bucket.value, 0);
+  const previousTotalTrips = previous.trips ? tripVolume.reduce((sum, bucket) => sum + (bucket.previous || 0), 0) : null;
+
+  const kpis: {
+    label: string;
+    value: string;
+    change: number | null;
+    lowerIsBetter?: boolean;
+    icon: React.ComponentType<{ className?: string }>;
+  }[] = [
+    {
+      label: 'Trips',
+      value: totalTrips.toLocaleString(),
+      change: getPercentChange(totalTrips, previousTotalTrips),
+      icon: Route
+    },
+    {
+      label: 'Completion rate',
+      value: current.trips ? `${current.trips.completionRate.toFixed(1)}%` : '—',
+      change: getPercentChange(current.trips?.completionRate ?? 0, previous.trips?.completionRate),
+      icon: Route
+    },
+    {
+      label: 'Average wait',
+      value: current.trips ? formatDuration(Math.round(current.trips.averageWaitTime)) : '—',
+      change: getPercentChange(current.trips?.averageWaitTime ?? 0, previous.trips?.averageWaitTime),
+      lowerIsBetter: true,
+      icon: Route
+    },
+    {
+      label: 'Average rating',
+      value: current.trips ? current.trips.averageRating.toFixed(2) : '—',
+      change: getPercentChange(current.trips?.averageRating ?? 0, previous.trips?.averageRating),
+      icon: Star
+    },
+    {
+      label: 'Active drivers',
+      value: current.drivers ? current.drivers.activeDrivers.toLocaleString() : '—',
+      change: getPercentChange(current.drivers?.activeDrivers ?? 0, previous.drivers?.activeDrivers),
+      icon: Car
+    },
+    {
+      label: 'Revenue',
+      value: current.revenue ? formatCurrency(current.revenue.totalRevenue, currency) : '—',
+      change: getPercentChange(current.revenue?.totalRevenue ?? 0, previous.revenue?.totalRevenue),
+      icon: DollarSign
+    }
+  ];
+
+  const statusData = (current.trips?.tripsByStatus || []).map(item => ({
+    ...item,
+    label: formatTripStatus(item.status as TripStatus)
+  }));
+  const hourData = Array.from({ length: 24 }, (_, hour) => ({
+    label: format(new Date(2000, 0, 1, hour), 'ha'),
+    count: current.trips?.tripsByHour.find(item => item.hour === hour)?.count || 0
+  }));
+  const serviceTypeData = (current.revenue?.revenueByServiceType || []).map(item => ({
+    ...item,
+    label: item.serviceType.replace(/_/g, ' ')
+  }));
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Analytics</h1>
+          <p className="text-gray-600">{formatRangeLabel(range.start, period)}</p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select value={period} onValueChange={(value) => setPeriod(value as TimePeriod)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIOD_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center bg-white border rounded-lg p-1">
+            <Button variant="ghost" size="sm" onClick={() => setAnchorDate(shiftByPeriod(range.start, period, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" disabled={isCurrentPeriod} onClick={() => setAnchorDate(new Date())}>
+              Current
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isCurrentPeriod}
+              onClick={() => setAnchorDate(shiftByPeriod(range.start, period, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="compare-previous"
+              checked={compare}
+              onChange={(e) => setCompare(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            <label htmlFor="compare-previous" className="text-sm text-gray-700">
+              Compare to previous
+            </label>
+          </div>
+
+          <Button variant="outline" size="sm" onClick={loadAnalytics} disabled={isLoading}>
+            <RefreshCw className={cn('h-4 w-4 mr-2', isLoading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Key Figures */}
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+        {kpis.map(kpi => (
+          <Card key={kpi.label}>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between mb-2">
+                <kpi.icon className="h-5 w-5 text-gray-600" />
+                {compare && <ChangeIndicator change={kpi.change} lowerIsBetter={kpi.lowerIsBetter} />}
+              </div>
+              <p className="text-2xl font-bold">{kpi.value}</p>
+              <p className="text-sm text-gray-600">{kpi.label}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Report Sections */}
+      <div className="flex items-center bg-white border rounded-lg p-1 w-fit">
+        {(['trips', 'drivers', 'revenue'] as AnalyticsSection[]).map(value => (
+          <Button
+            key={value}
+            variant={section === value ? 'default' : 'ghost'}
+            size="sm"
+            className="capitalize"
+            onClick={() => setSection(value)}
+          >
+            {value}
+          </Button>
+        ))}
+      </div>
+
+      {section === 'trips' && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center justify-between">
+                Trip Volume
+                <span className="text-xs font-normal text-gray-500">Click a point to see its trips</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TimeSeriesChart
+                data={tripVolume}
+                name="Trips"
+                showPrevious={compare}
+                onBucketClick={handleBucketClick}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Trips by Status</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={statusData}
+                    className="cursor-pointer"
+                    onClick={(state) => {
+                      const item = state?.activeTooltipIndex !== undefined ? statusData[state.activeTooltipIndex] : null;
+                      if (item) drillDown(range.start, range.end, { status: [item.status as TripStatus] });
+                    }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 11 }} width={40} />
+                    <Tooltip />
+                    <Bar dataKey="count" name="Trips" fill="#3B82F6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Requests by Hour of Day</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={hourData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="label" tick={{ fontSize: 10 }} interval={2} />
+                    <YAxis allowDecimals={false} tick={{ fontSize: 11 }} width={40} />
+                    <Tooltip />
+                    <Bar dataKey="count" name="Trips" fill="#8B5CF6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {section === 'drivers' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center justify-between">
+                Active Drivers
+                {current.drivers && (
+                  <span className="text-sm font-normal text-gray-500">
+                    {current.drivers.averageUtilization.toFixed(1)}% average utilization
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TimeSeriesChart
+                data={activeDriverSeries}
+                name="Active drivers"
+                color="#10B981"
+                showPrevious={compare}
+                onBucketClick={handleBucketClick}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Top Performers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!current.drivers || current.drivers.topPerformers.length === 0 ? (
+                <p className="text-sm text-gray-500">No driver activity in this period.</p>
+              ) : (
+                <div className="space-y-2">
+                  {current.drivers.topPerformers.map((performer, index) => (
+                    <div key={performer.driverId} className="flex items-center justify-between text-sm">
+                      <Link href={`/drivers/${performer.driverId}`} className="flex items-center gap-2 hover:underline">
+                        <span className="w-4 text-gray-400">{index + 1}</span>
+                        {performer.name}
+                      </Link>
+                      <span className="flex items-center gap-3 text-gray-600">
+                        <button
+                          className="hover:underline"
+                          onClick={() => drillDown(range.start, range.end, { driverId: performer.driverId })}
+                        >
+                          {performer.trips} trips
+                        </button>
+                        <span className="flex items-center gap-1">
+                          <Star className="h-3 w-3 text-yellow-500" />
+                          {performer.rating.toFixed(1)}
+                        </span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {section === 'revenue' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center justify-between">
+                Revenue
+                {current.revenue && (
+                  <span className="text-sm font-normal text-gray-500">
+                    {formatCurrency(current.revenue.averageFare, currency)} average fare
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TimeSeriesChart
+                data={revenueSeries}
+                name="Revenue"
+                color="#F59E0B"
+                showPrevious={compare}
+                formatValue={(value) => formatCurrency(value, currency)}
+                onBucketClick={handleBucketClick}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Revenue by Service</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={serviceTypeData}
+                    layout="vertical"
+                    className="cursor-pointer"
+                    onClick={(state) => {
+                      const item = state?.activeTooltipIndex !== undefined ? serviceTypeData[state.activeTooltipIndex] : null;
+                      if (item) drillDown(range.start, range.end, { serviceType: [item.serviceType as ServiceType] });
+                    }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                    <XAxis type="number" tick={{ fontSize: 11 }} tickFormatter={(value) => formatCurrency(value, currency)} />
+                    <YAxis type="category" dataKey="label" tick={{ fontSize: 11 }} width={80} />
+                    <Tooltip formatter={(value: number) => formatCurrency(value, currency)} />
+                    <Bar dataKey="revenue" name="Revenue" fill="#F59E0B" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AnalyticsDashboard;
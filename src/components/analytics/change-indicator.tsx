@@ -0,0 +1,34 @@
+'use client';
+
+import React from 'react';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ChangeIndicatorProps {
+  change: number | null; // percent change from the previous period
+  lowerIsBetter?: boolean; // e.g. wait times and cancellation rates
+  className?: string;
+}
+
+export function ChangeIndicator({ change, lowerIsBetter = false, className }: ChangeIndicatorProps) {
+  if (change === null || !Number.isFinite(change)) {
+    return <span className={cn('text-xs text-gray-400', className)}>—</span>;
+  }
+
+  const isImprovement = lowerIsBetter ? change <= 0 : change >= 0;
+
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-1 text-xs',
+        isImprovement ? 'text-green-600' : 'text-red-600',
+        className
+      )}
+    >
+      {change >= 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+      {change >= 0 ? '+' : ''}{change.toFixed(1)}%
+    </span>
+  );
+}
+
+export default ChangeIndicator;
@@ -0,0 +1,39 @@
+'use client';
+
+import React from 'react';
+import { Line, LineChart, ResponsiveContainer, YAxis } from 'recharts';
+
+interface SparklineProps {
+  values: (number | null)[]; // oldest first; null leaves a gap
+  color?: string;
+  className?: string;
+}
+
+export function Sparkline({ values, color = '#3B82F6', className = 'h-8' }: SparklineProps) {
+  const data = values.map((value, index) => ({ index, value }));
+
+  if (values.every(value => value === null)) {
+    return <div className={className} />;
+  }
+
+  return (
+    <div className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <YAxis hide domain={['dataMin', 'dataMax']} />
+          <Line
+            type="monotone"
+            dataKey="value"
+            stroke={color}
+            strokeWidth={1.5}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default Sparkline;
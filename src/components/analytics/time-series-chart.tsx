@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { SeriesBucket } from '@/lib/analytics';
+
+interface TimeSeriesChartProps {
+  data: SeriesBucket[];
+  name: string;
+  color?: string;
+  showPrevious?: boolean;
+  formatValue?: (value: number) => string;
+  onBucketClick?: (bucket: SeriesBucket) => void;
+}
+
+export function TimeSeriesChart({
+  data,
+  name,
+  color = '#3B82F6',
+  showPrevious = true,
+  formatValue = (value) => value.toLocaleString(),
+  onBucketClick
+}: TimeSeriesChartProps) {
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart
+          data={data}
+          className={onBucketClick ? 'cursor-pointer' : undefined}
+          onClick={(state) => {
+            const index = state?.activeTooltipIndex;
+            if (onBucketClick && index !== undefined && data[index]) {
+              onBucketClick(data[index]);
+            }
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+          <YAxis tick={{ fontSize: 11 }} width={56} tickFormatter={formatValue} />
+          <Tooltip formatter={(value: number) => formatValue(value)} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line type="monotone" dataKey="value" name={name} stroke={color} strokeWidth={2} dot={false} activeDot={{ r: 5 }} />
+          {showPrevious && (
+            <Line
+              type="monotone"
+              dataKey="previous"
+              name="Previous period"
+              stroke="#9CA3AF"
+              strokeDasharray="4 4"
+              dot={false}
+              connectNulls
+            />
+          )}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default TimeSeriesChart;
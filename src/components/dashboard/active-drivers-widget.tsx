@@ -6,6 +6,7 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { TripDropTarget } from './trip-drop-target';
 import {
   Users,
   Car,
@@ -138,7 +139,7 @@ export function ActiveDriversWidget({ drivers }: ActiveDriversWidgetProps) {
             {/* Drivers List */}
             <div className="max-h-96 overflow-y-auto divide-y divide-gray-200">
               {sortedDrivers.slice(0, 10).map((driver) => (
-                <div key={driver.id} className="p-4 hover:bg-gray-50 transition-colors">
+                <TripDropTarget key={driver.id} driver={driver} className="p-4 hover:bg-gray-50 transition-colors">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3 flex-1 min-w-0">
                       {/* Avatar with Status Indicator */}
@@ -211,7 +212,7 @@ export function ActiveDriversWidget({ drivers }: ActiveDriversWidgetProps) {
                       </Button>
                     </div>
                   </div>
-                </div>
+                </TripDropTarget>
               ))}
             </div>
 
@@ -1,23 +1,22 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo } from 'react';
+import Link from 'next/link';
 import { Alert, AlertSeverity, AlertType } from '@/types';
+import { useAlertStore } from '@/store';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
   AlertTriangle,
-  Clock,
   Car,
-  MapPin,
-  DollarSign,
   Users,
-  Shield,
-  Activity,
   Eye,
-  CheckCircle,
-  X
+  CheckCircle
 } from 'lucide-react';
+import { AlertTypeIcon } from '@/components/alerts/alert-type-icon';
+import { AlertMuteMenu, MutedAlertTypes } from '@/components/alerts/alert-mute-menu';
+import { getActiveMuteRule, getAlertSeverityColor, groupAlerts } from '@/lib/alerts';
 import { formatRelativeTime, cn } from '@/lib/utils';
 
 interface AlertsWidgetProps {
@@ -25,50 +24,17 @@ interface AlertsWidgetProps {
 }
 
 export function AlertsWidget({ alerts }: AlertsWidgetProps) {
-  const getSeverityColor = (severity: AlertSeverity) => {
-    switch (severity) {
-      case AlertSeverity.CRITICAL:
-        return 'bg-red-100 text-red-700 border-red-200';
-      case AlertSeverity.HIGH:
-        return 'bg-orange-100 text-orange-700 border-orange-200';
-      case AlertSeverity.MEDIUM:
-        return 'bg-yellow-100 text-yellow-700 border-yellow-200';
-      case AlertSeverity.LOW:
-        return 'bg-blue-100 text-blue-700 border-blue-200';
-      default:
-        return 'bg-gray-100 text-gray-700 border-gray-200';
-    }
-  };
-
-  const getAlertIcon = (type: AlertType) => {
-    switch (type) {
-      case AlertType.TRIP_DELAY:
-        return <Clock className="h-4 w-4" />;
-      case AlertType.DRIVER_OFFLINE:
-        return <Users className="h-4 w-4" />;
-      case AlertType.VEHICLE_BREAKDOWN:
-        return <Car className="h-4 w-4" />;
-      case AlertType.EMERGENCY:
-        return <Shield className="h-4 w-4" />;
-      case AlertType.PAYMENT_FAILED:
-        return <DollarSign className="h-4 w-4" />;
-      case AlertType.NO_DRIVERS_AVAILABLE:
-        return <Users className="h-4 w-4" />;
-      case AlertType.RIDER_NO_SHOW:
-      case AlertType.DRIVER_NO_SHOW:
-        return <X className="h-4 w-4" />;
-      case AlertType.ROUTE_DEVIATION:
-        return <MapPin className="h-4 w-4" />;
-      case AlertType.SYSTEM_ERROR:
-        return <AlertTriangle className="h-4 w-4" />;
-      default:
-        return <AlertTriangle className="h-4 w-4" />;
-    }
-  };
+  const { muteRules } = useAlertStore();
 
+  // Muted types stay out of the widget; repeats for the same driver or trip collapse into one row
   const unresolvedAlerts = alerts.filter(alert => !alert.isResolved);
-  const criticalCount = unresolvedAlerts.filter(a => a.severity === AlertSeverity.CRITICAL).length;
-  const highCount = unresolvedAlerts.filter(a => a.severity === AlertSeverity.HIGH).length;
+  const visibleAlerts = unresolvedAlerts.filter(alert => !getActiveMuteRule(alert.type, muteRules));
+  const mutedCount = unresolvedAlerts.length - visibleAlerts.length;
+  const groups = useMemo(() => groupAlerts(visibleAlerts), [alerts, muteRules]);
+
+  const countBySeverity = (severity: AlertSeverity) => groups.filter(group => group.latest.severity === severity).length;
+  const criticalCount = countBySeverity(AlertSeverity.CRITICAL);
+  const highCount = countBySeverity(AlertSeverity.HIGH);
 
   return (
     <Card>
@@ -77,23 +43,28 @@ export function AlertsWidget({ alerts }: AlertsWidgetProps) {
           <CardTitle className="flex items-center gap-2">
             <AlertTriangle className="h-5 w-5" />
             Active Alerts
-            {unresolvedAlerts.length > 0 && (
-              <Badge variant="destructive">{unresolvedAlerts.length}</Badge>
+            {groups.length > 0 && (
+              <Badge variant="destructive">{groups.length}</Badge>
             )}
           </CardTitle>
-          <Button variant="outline" size="sm">
-            <Eye className="h-4 w-4 mr-1" />
-            View All
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/alerts">
+              <Eye className="h-4 w-4 mr-1" />
+              View All
+            </Link>
           </Button>
         </div>
+        <MutedAlertTypes />
       </CardHeader>
 
       <CardContent className="p-0">
-        {unresolvedAlerts.length === 0 ? (
+        {groups.length === 0 ? (
           <div className="text-center py-8">
             <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">All Clear!</h3>
-            <p className="text-gray-600">No active alerts at this time.</p>
+            <p className="text-gray-600">
+              {mutedCount > 0 ? `No active alerts outside the ${mutedCount} muted.` : 'No active alerts at this time.'}
+            </p>
           </div>
         ) : (
           <>
@@ -110,13 +81,13 @@ export function AlertsWidget({ alerts }: AlertsWidgetProps) {
                 </div>
                 <div>
                   <p className="text-lg font-bold text-yellow-600">
-                    {unresolvedAlerts.filter(a => a.severity === AlertSeverity.MEDIUM).length}
+                    {countBySeverity(AlertSeverity.MEDIUM)}
                   </p>
                   <p className="text-xs text-gray-600">Medium</p>
                 </div>
                 <div>
                   <p className="text-lg font-bold text-blue-600">
-                    {unresolvedAlerts.filter(a => a.severity === AlertSeverity.LOW).length}
+                    {countBySeverity(AlertSeverity.LOW)}
                   </p>
                   <p className="text-xs text-gray-600">Low</p>
                 </div>
@@ -125,25 +96,11 @@ export function AlertsWidget({ alerts }: AlertsWidgetProps) {
 
             {/* Alerts List */}
             <div className="max-h-96 overflow-y-auto divide-y divide-gray-200">
-              {unresolvedAlerts
-                .sort((a, b) => {
-                  // Sort by severity first, then by creation time
-                  const severityOrder = {
-                    [AlertSeverity.CRITICAL]: 4,
-                    [AlertSeverity.HIGH]: 3,
-                    [AlertSeverity.MEDIUM]: 2,
-                    [AlertSeverity.LOW]: 1
-                  };
-
-                  const severityDiff = severityOrder[b.severity] - severityOrder[a.severity];
-                  if (severityDiff !== 0) return severityDiff;
-
-                  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-                })
+              {groups
                 .slice(0, 10)
-                .map((alert) => (
+                .map(({ key, latest: alert, count, firstAt }) => (
                   <div
-                    key={alert.id}
+                    key={key}
                     className={cn(
                       'p-4 hover:bg-gray-50 transition-colors border-l-4',
                       alert.severity === AlertSeverity.CRITICAL && 'border-l-red-500 bg-red-50',
@@ -157,9 +114,9 @@ export function AlertsWidget({ alerts }: AlertsWidgetProps) {
                         {/* Alert Icon */}
                         <div className={cn(
                           'p-2 rounded-full',
-                          getSeverityColor(alert.severity)
+                          getAlertSeverityColor(alert.severity)
                         )}>
-                          {getAlertIcon(alert.type)}
+                          <AlertTypeIcon type={alert.type} />
                         </div>
 
                         {/* Alert Content */}
@@ -170,10 +127,15 @@ export function AlertsWidget({ alerts }: AlertsWidgetProps) {
                             </h3>
                             <Badge
                               variant="outline"
-                              className={cn('text-xs', getSeverityColor(alert.severity))}
+                              className={cn('text-xs', getAlertSeverityColor(alert.severity))}
                             >
                               {alert.severity}
                             </Badge>
+                            {count > 1 && (
+                              <Badge variant="secondary" className="text-xs" title={`First seen ${formatRelativeTime(firstAt)}`}>
+                                ×{count}
+                              </Badge>
+                            )}
                           </div>
 
                           <p className="text-sm text-gray-600 line-clamp-2 mb-2">
@@ -215,6 +177,8 @@ export function AlertsWidget({ alerts }: AlertsWidgetProps) {
                         <Button variant="ghost" size="sm" title="Mark Resolved">
                           <CheckCircle className="h-3 w-3" />
                         </Button>
+
+                        <AlertMuteMenu type={alert.type} />
                       </div>
                     </div>
 
@@ -255,10 +219,10 @@ export function AlertsWidget({ alerts }: AlertsWidgetProps) {
                 ))}
             </div>
 
-            {unresolvedAlerts.length > 10 && (
+            {groups.length > 10 && (
               <div className="border-t bg-gray-50 px-4 py-3 text-center">
-                <Button variant="ghost" size="sm">
-                  View All Alerts ({unresolvedAlerts.length})
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/alerts">View All Alerts ({visibleAlerts.length})</Link>
                 </Button>
               </div>
             )}
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AutoDispatchEntry, AutoDispatchStatus } from '@/types';
+import { useAutoDispatchStore } from '@/store';
+import { autoDispatcher } from '@/services/auto-dispatch';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Bot,
+  Check,
+  Hand,
+  X,
+  Clock,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+  Search
+} from 'lucide-react';
+import { formatRelativeTime, cn } from '@/lib/utils';
+
+const MAX_VISIBLE_EVENTS = 8;
+
+export function AutoDispatchPanel() {
+  const { enabled, entries, events, clearFinished } = useAutoDispatchStore();
+  const [now, setNow] = useState(Date.now());
+
+  const activeEntries = entries.filter(entry => [
+    AutoDispatchStatus.SEARCHING,
+    AutoDispatchStatus.PROPOSED,
+    AutoDispatchStatus.ASSIGNING,
+    AutoDispatchStatus.WAITING_RETRY
+  ].includes(entry.status));
+  const finishedCount = entries.length - activeEntries.length;
+
+  // Tick once a second while a countdown or retry is running
+  useEffect(() => {
+    if (activeEntries.length === 0) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [activeEntries.length]);
+
+  const secondsUntil = (date?: Date) =>
+    date ? Math.max(0, Math.ceil((new Date(date).getTime() - now) / 1000)) : 0;
+
+  const getStatusBadge = (entry: AutoDispatchEntry) => {
+    switch (entry.status) {
+      case AutoDispatchStatus.SEARCHING:
+        return <Badge variant="secondary" className="gap-1"><Search className="h-3 w-3" />Searching</Badge>;
+      case AutoDispatchStatus.PROPOSED:
+        return <Badge className="gap-1 bg-blue-600"><Clock className="h-3 w-3" />Assigning in {secondsUntil(entry.countdownEndsAt)}s</Badge>;
+      case AutoDispatchStatus.ASSIGNING:
+        return <Badge className="gap-1 bg-blue-600"><Loader2 className="h-3 w-3 animate-spin" />Assigning</Badge>;
+      case AutoDispatchStatus.WAITING_RETRY:
+        return <Badge variant="outline" className="gap-1 text-orange-700"><Clock className="h-3 w-3" />Retry in {secondsUntil(entry.nextRetryAt)}s</Badge>;
+      case AutoDispatchStatus.ASSIGNED:
+        return <Badge variant="outline" className="gap-1 text-green-700"><CheckCircle className="h-3 w-3" />Assigned</Badge>;
+      case AutoDispatchStatus.ESCALATED:
+        return <Badge variant="destructive" className="gap-1"><AlertTriangle className="h-3 w-3" />Escalated</Badge>;
+      case AutoDispatchStatus.CANCELLED:
+        return <Badge variant="outline" className="gap-1 text-gray-600"><X className="h-3 w-3" />Stopped</Badge>;
+      default:
+        return null;
+    }
+  };
+
+  const getEventColor = (level: string) => {
+    switch (level) {
+      case 'error':
+        return 'text-red-600';
+      case 'warning':
+        return 'text-orange-600';
+      default:
+        return 'text-gray-600';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Bot className="h-5 w-5" />
+            Auto-Dispatch
+            {activeEntries.length > 0 && (
+              <Badge variant="secondary">{activeEntries.length}</Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <div className={cn('h-2 w-2 rounded-full', enabled ? 'bg-green-500' : 'bg-gray-400')} />
+            <span className="text-xs text-gray-500">{enabled ? 'On' : 'Off'}</span>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!enabled ? (
+          <p className="text-sm text-gray-500">
+            Auto-dispatch is turned off for this organization. New trips wait for manual assignment.
+          </p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Waiting for new trip requests.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div key={entry.tripId} className="p-3 rounded border bg-gray-50 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">
+                    Trip #{entry.tripId.slice(-6).toUpperCase()}
+                  </span>
+                  {getStatusBadge(entry)}
+                </div>
+
+                <p className="text-xs text-gray-600 truncate">
+                  {entry.trip.pickup.address}
+                </p>
+
+                <p className="text-xs text-gray-700">{entry.reason}</p>
+
+                {entry.status === AutoDispatchStatus.PROPOSED && (
+                  <div className="flex gap-2">
+                    <Button size="sm" className="h-7 text-xs" onClick={() => autoDispatcher.confirm(entry.tripId)}>
+                      <Check className="h-3 w-3 mr-1" />
+                      Assign now
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => autoDispatcher.veto(entry.tripId)}>
+                      <X className="h-3 w-3 mr-1" />
+                      Veto
+                    </Button>
+                    <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => autoDispatcher.release(entry.tripId)}>
+                      <Hand className="h-3 w-3 mr-1" />
+                      Take over
+                    </Button>
+                  </div>
+                )}
+
+                {[AutoDispatchStatus.SEARCHING, AutoDispatchStatus.WAITING_RETRY].includes(entry.status) && (
+                  <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => autoDispatcher.release(entry.tripId)}>
+                    <Hand className="h-3 w-3 mr-1" />
+                    Take over
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {finishedCount > 0 && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={clearFinished}>
+                Clear {finishedCount} finished
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Activity Log */}
+        {events.length > 0 && (
+          <div className="pt-3 border-t">
+            <p className="text-xs font-medium text-gray-700 mb-2">Activity</p>
+            <div className="space-y-1">
+              {events.slice(0, MAX_VISIBLE_EVENTS).map(event => (
+                <div key={event.id} className="flex items-start justify-between gap-2 text-xs">
+                  <span className={getEventColor(event.level)}>
+                    <span className="font-medium">#{event.tripId.slice(-6).toUpperCase()}</span> {event.message}
+                  </span>
+                  <span className="text-gray-400 whitespace-nowrap">
+                    {formatRelativeTime(event.timestamp)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default AutoDispatchPanel;
@@ -1,10 +1,20 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Trip, Driver, TripStatus, DriverStatus } from '@/types';
+import React, { useEffect, useMemo, useState } from 'react';
+import Map, { Layer, MapLayerMouseEvent, Marker, Source, ViewStateChangeEvent } from 'react-map-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import type { LngLatBounds } from 'mapbox-gl';
+import { Trip, Driver, TripStatus, DriverStatus, Coordinates } from '@/types';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   MapPin,
   Navigation,
@@ -14,9 +24,40 @@ import {
   ZoomOut,
   RotateCcw,
   Layers,
-  Filter
+  Filter,
+  Flame
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { useUIStore } from '@/store';
+import { api } from '@/services/api';
+import {
+  ViewportBounds,
+  createDriverClusterIndex,
+  getClusterExpansionZoom,
+  getDriverMapItems,
+  isInViewport
+} from '@/lib/clustering';
+import { DriverClusterMarker } from '@/components/map/driver-cluster-marker';
+import { TripRouteOverlay } from '@/components/map/trip-route-overlay';
+import { DEMAND_CELLS_LAYER_ID, DemandHeatmapLayer } from '@/components/map/demand-heatmap-layer';
+import { buildDemandCells } from '@/lib/demand';
+import { TIME_RANGE_PRESETS, TimeRangePreset, getTimeRange } from '@/lib/time-ranges';
+import { TripDropTarget } from './trip-drop-target';
+import {
+  MAPBOX_TOKEN,
+  MAX_MAP_ZOOM,
+  MIN_MAP_ZOOM,
+  buildTripLinesGeoJSON,
+  getCentroid,
+  getDriverMarkerColor,
+  getMapStyle,
+  hasDriverLocation,
+  isTripActive,
+  isValidCoordinates
+} from '@/lib/map';
+
+// Historical trips sampled for the demand heatmap
+const DEMAND_TRIP_LIMIT = 1000;
 
 interface DispatchMapProps {
   trips: Trip[];
@@ -27,14 +68,86 @@ export function DispatchMap({ trips, drivers }: DispatchMapProps) {
   const [selectedItem, setSelectedItem] = useState<{ type: 'trip' | 'driver'; id: string } | null>(null);
   const [showDrivers, setShowDrivers] = useState(true);
   const [showTrips, setShowTrips] = useState(true);
-  const [zoom, setZoom] = useState(12);
+  const [showDemand, setShowDemand] = useState(false);
+  const [demandPreset, setDemandPreset] = useState<TimeRangePreset>('7d');
+  const [gapsOnly, setGapsOnly] = useState(false);
+  const [demandTrips, setDemandTrips] = useState<Trip[]>([]);
+  const [isDemandLoading, setIsDemandLoading] = useState(false);
+  const [selectedCellId, setSelectedCellId] = useState<string | null>(null);
+  const { mapCenter, mapZoom, setMapCenter, setMapZoom, addNotification } = useUIStore();
+  const [bounds, setBounds] = useState<ViewportBounds | null>(null);
+  const mapStyle = useMemo(() => getMapStyle(), []);
 
   // Filter active items
-  const activeTrips = trips.filter(trip =>
-    trip.status !== TripStatus.COMPLETED && trip.status !== TripStatus.CANCELLED
+  const activeTrips = useMemo(() => trips.filter(isTripActive), [trips]);
+
+  const onlineDrivers = useMemo(() => drivers.filter(hasDriverLocation), [drivers]);
+
+  // Only render trips whose pickup or destination is on screen
+  const visibleTrips = useMemo(
+    () => activeTrips.filter(trip =>
+      isInViewport(trip.pickup.coordinates, bounds) ||
+      isInViewport(trip.destination.coordinates, bounds)
+    ),
+    [activeTrips, bounds]
+  );
+
+  // Cluster drivers by zoom level and cull to the viewport
+  const clusterIndex = useMemo(() => createDriverClusterIndex(onlineDrivers), [onlineDrivers]);
+
+  const driverItems = useMemo(
+    () => bounds ? getDriverMapItems(clusterIndex, onlineDrivers, bounds, mapZoom) : [],
+    [clusterIndex, onlineDrivers, bounds, mapZoom]
+  );
+
+  // Load historical pickups for the demand heatmap
+  useEffect(() => {
+    if (!showDemand) return;
+
+    let cancelled = false;
+
+    const loadDemand = async () => {
+      setIsDemandLoading(true);
+      try {
+        const response = await api.trips.getTrips(
+          { dateRange: getTimeRange(demandPreset) },
+          { page: 1, limit: DEMAND_TRIP_LIMIT }
+        );
+        if (!cancelled && response.success && response.data) {
+          setDemandTrips(response.data.trips);
+        }
+      } catch (error) {
+        console.error('Failed to load demand history:', error);
+        if (!cancelled) {
+          addNotification({
+            type: 'error',
+            title: 'Error',
+            message: 'Failed to load the demand heatmap. Please try again.',
+            duration: 5000
+          });
+        }
+      } finally {
+        if (!cancelled) setIsDemandLoading(false);
+      }
+    };
+
+    loadDemand();
+
+    // A superseded request never clears its own loading state, so clear it here
+    return () => {
+      cancelled = true;
+      setIsDemandLoading(false);
+    };
+  }, [showDemand, demandPreset]);
+
+  // Compare historical demand with where drivers are now
+  const demandCells = useMemo(
+    () => showDemand ? buildDemandCells(demandTrips, onlineDrivers) : [],
+    [showDemand, demandTrips, onlineDrivers]
   );
 
-  const onlineDrivers = drivers.filter(driver => driver.isOnline);
+  const undersuppliedCount = demandCells.filter(cell => cell.undersupplied).length;
+  const selectedCell = demandCells.find(cell => cell.id === selectedCellId) || null;
 
   // Get marker colors based on status
   const getTripMarkerColor = (status: TripStatus) => {
@@ -54,22 +167,53 @@ export function DispatchMap({ trips, drivers }: DispatchMapProps) {
     }
   };
 
-  const getDriverMarkerColor = (status: DriverStatus) => {
-    switch (status) {
-      case DriverStatus.AVAILABLE:
-        return '#10B981'; // green
-      case DriverStatus.BUSY:
-      case DriverStatus.EN_ROUTE:
-        return '#F59E0B'; // orange
-      case DriverStatus.BREAK:
-        return '#6B7280'; // gray
-      case DriverStatus.MAINTENANCE:
-        return '#EF4444'; // red
-      default:
-        return '#6B7280'; // gray
+  const tripLines = useMemo(
+    () => buildTripLinesGeoJSON(visibleTrips, trip => getTripMarkerColor(trip.status)),
+    [visibleTrips]
+  );
+
+  const handleMove = (event: ViewStateChangeEvent) => {
+    setMapCenter({
+      latitude: event.viewState.latitude,
+      longitude: event.viewState.longitude
+    });
+    setMapZoom(event.viewState.zoom);
+  };
+
+  const updateBounds = (event: { target: { getBounds: () => LngLatBounds | null } }) => {
+    const mapBounds = event.target.getBounds();
+    if (mapBounds) {
+      setBounds([
+        mapBounds.getWest(),
+        mapBounds.getSouth(),
+        mapBounds.getEast(),
+        mapBounds.getNorth()
+      ]);
     }
   };
 
+  const handleClusterClick = (clusterId: number, coordinates: Coordinates) => {
+    setMapCenter(coordinates);
+    setMapZoom(getClusterExpansionZoom(clusterIndex, clusterId));
+  };
+
+  const handleRecenter = () => {
+    const center = getCentroid([
+      ...activeTrips.map(trip => trip.pickup.coordinates),
+      ...onlineDrivers.map(driver => driver.currentLocation!.coordinates)
+    ]);
+
+    if (center) {
+      setMapCenter(center);
+      setMapZoom(12);
+    }
+  };
+
+  const handleMapClick = (event: MapLayerMouseEvent) => {
+    const cellId = event.features?.[0]?.properties?.cellId;
+    setSelectedCellId(typeof cellId === 'string' && cellId !== selectedCellId ? cellId : null);
+  };
+
   const handleMarkerClick = (type: 'trip' | 'driver', id: string) => {
     setSelectedItem(selectedItem?.id === id ? null : { type, id });
   };
@@ -85,129 +229,154 @@ export function DispatchMap({ trips, drivers }: DispatchMapProps) {
   return (
     <div className="relative h-96 bg-gray-100 rounded-lg overflow-hidden">
       {/* Map Container */}
-      <div className="w-full h-full relative">
-        {/* Simulated Map Background */}
-        <div className="w-full h-full bg-gradient-to-br from-blue-100 to-green-100 relative">
-          {/* Grid lines to simulate map */}
-          <div className="absolute inset-0 opacity-20">
-            {[...Array(20)].map((_, i) => (
-              <div
-                key={`h-${i}`}
-                className="absolute w-full border-t border-gray-400"
-                style={{ top: `${i * 5}%` }}
-              />
-            ))}
-            {[...Array(20)].map((_, i) => (
-              <div
-                key={`v-${i}`}
-                className="absolute h-full border-l border-gray-400"
-                style={{ left: `${i * 5}%` }}
-              />
-            ))}
-          </div>
+      <Map
+        longitude={mapCenter.longitude}
+        latitude={mapCenter.latitude}
+        zoom={mapZoom}
+        minZoom={MIN_MAP_ZOOM}
+        maxZoom={MAX_MAP_ZOOM}
+        onMove={handleMove}
+        onMoveEnd={updateBounds}
+        onLoad={updateBounds}
+        onClick={handleMapClick}
+        interactiveLayerIds={showDemand ? [DEMAND_CELLS_LAYER_ID] : undefined}
+        mapStyle={mapStyle}
+        mapboxAccessToken={MAPBOX_TOKEN}
+        style={{ width: '100%', height: '100%' }}
+        attributionControl
+      >
+        {/* Demand Heatmap and Supply Gaps */}
+        {showDemand && (
+          <DemandHeatmapLayer cells={demandCells} gapsOnly={gapsOnly} selectedCellId={selectedCellId} />
+        )}
 
-          {/* Trip Markers */}
-          {showTrips && activeTrips.map((trip, index) => (
-            <div key={`trip-${trip.id}`} className="absolute">
-              {/* Pickup Marker */}
-              <button
-                onClick={() => handleMarkerClick('trip', trip.id)}
-                className="absolute transform -translate-x-1/2 -translate-y-1/2 hover:scale-110 transition-all duration-200"
-                style={{
-                  left: `${15 + (index % 8) * 10}%`,
-                  top: `${15 + Math.floor(index / 8) * 12}%`
-                }}
-              >
-                <div
-                  className="w-6 h-6 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
-                  style={{ backgroundColor: getTripMarkerColor(trip.status) }}
-                >
-                  <MapPin className="h-3 w-3 text-white" />
-                </div>
-              </button>
+        {/* Route Lines */}
+        {showTrips && (
+          <Source id="trip-lines" type="geojson" data={tripLines}>
+            <Layer
+              id="trip-lines"
+              type="line"
+              paint={{
+                'line-color': ['get', 'color'],
+                'line-width': 2,
+                'line-opacity': 0.6,
+                'line-dasharray': [2, 2]
+              }}
+            />
+          </Source>
+        )}
 
-              {/* Destination Marker */}
-              <button
-                onClick={() => handleMarkerClick('trip', trip.id)}
-                className="absolute transform -translate-x-1/2 -translate-y-1/2 hover:scale-110 transition-all duration-200"
-                style={{
-                  left: `${25 + (index % 8) * 10}%`,
-                  top: `${25 + Math.floor(index / 8) * 12}%`
-                }}
+        {/* Selected Trip Route and Breadcrumbs */}
+        {selectedTrip && <TripRouteOverlay key={selectedTrip.id} trip={selectedTrip} />}
+
+        {/* Trip Markers */}
+        {showTrips && visibleTrips.map((trip) => (
+          <React.Fragment key={`trip-${trip.id}`}>
+            {/* Pickup Marker */}
+            {isValidCoordinates(trip.pickup.coordinates) && (
+              <Marker
+                longitude={trip.pickup.coordinates.longitude}
+                latitude={trip.pickup.coordinates.latitude}
+                anchor="center"
               >
-                <div
-                  className="w-6 h-6 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
-                  style={{ backgroundColor: getTripMarkerColor(trip.status) }}
+                <button
+                  onClick={() => handleMarkerClick('trip', trip.id)}
+                  className="hover:scale-110 transition-transform duration-200"
+                  title={trip.pickup.address}
                 >
-                  <Navigation className="h-3 w-3 text-white" />
-                </div>
-              </button>
+                  <div
+                    className="w-6 h-6 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
+                    style={{ backgroundColor: getTripMarkerColor(trip.status) }}
+                  >
+                    <MapPin className="h-3 w-3 text-white" />
+                  </div>
+                </button>
+              </Marker>
+            )}
 
-              {/* Route Line */}
-              <svg
-                className="absolute pointer-events-none"
-                style={{
-                  left: `${15 + (index % 8) * 10}%`,
-                  top: `${15 + Math.floor(index / 8) * 12}%`,
-                  width: '10%',
-                  height: '12%'
-                }}
+            {/* Destination Marker */}
+            {isValidCoordinates(trip.destination.coordinates) && (
+              <Marker
+                longitude={trip.destination.coordinates.longitude}
+                latitude={trip.destination.coordinates.latitude}
+                anchor="center"
               >
-                <line
-                  x1="0"
-                  y1="0"
-                  x2="100%"
-                  y2="100%"
-                  stroke={getTripMarkerColor(trip.status)}
-                  strokeWidth="2"
-                  strokeDasharray="5,5"
-                  opacity="0.6"
-                />
-              </svg>
-            </div>
-          ))}
-
-          {/* Driver Markers */}
-          {showDrivers && onlineDrivers.map((driver, index) => (
-            <button
-              key={`driver-${driver.id}`}
-              onClick={() => handleMarkerClick('driver', driver.id)}
-              className="absolute transform -translate-x-1/2 -translate-y-1/2 hover:scale-110 transition-all duration-200"
-              style={{
-                left: `${20 + (index % 7) * 11}%`,
-                top: `${20 + Math.floor(index / 7) * 15}%`
-              }}
-            >
-              <div className="relative">
-                <div
-                  className="w-8 h-8 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
-                  style={{ backgroundColor: getDriverMarkerColor(driver.status) }}
+                <button
+                  onClick={() => handleMarkerClick('trip', trip.id)}
+                  className="hover:scale-110 transition-transform duration-200"
+                  title={trip.destination.address}
                 >
-                  <Car className="h-4 w-4 text-white" />
-                </div>
+                  <div
+                    className="w-6 h-6 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
+                    style={{ backgroundColor: getTripMarkerColor(trip.status) }}
+                  >
+                    <Navigation className="h-3 w-3 text-white" />
+                  </div>
+                </button>
+              </Marker>
+            )}
+          </React.Fragment>
+        ))}
 
-                {/* Pulse animation for available drivers */}
-                {driver.status === DriverStatus.AVAILABLE && (
+        {/* Driver Markers and Clusters */}
+        {showDrivers && driverItems.map((item) => item.kind === 'cluster' ? (
+          <Marker
+            key={`cluster-${item.clusterId}`}
+            longitude={item.coordinates.longitude}
+            latitude={item.coordinates.latitude}
+            anchor="center"
+          >
+            <DriverClusterMarker
+              count={item.count}
+              statusCounts={item.statusCounts}
+              onClick={() => handleClusterClick(item.clusterId, item.coordinates)}
+            />
+          </Marker>
+        ) : (
+          <Marker
+            key={`driver-${item.driver.id}`}
+            longitude={item.coordinates.longitude}
+            latitude={item.coordinates.latitude}
+            anchor="center"
+          >
+            {/* Drop a pending trip here to assign this driver */}
+            <TripDropTarget driver={item.driver} previewPlacement="top" className="rounded-full">
+              <button
+                onClick={() => handleMarkerClick('driver', item.driver.id)}
+                className="hover:scale-110 transition-transform duration-200"
+                title={`${item.driver.firstName} ${item.driver.lastName}`}
+              >
+                <div className="relative">
                   <div
-                    className="absolute inset-0 rounded-full animate-ping opacity-75"
-                    style={{ backgroundColor: getDriverMarkerColor(driver.status) }}
-                  />
-                )}
-              </div>
-            </button>
-          ))}
-        </div>
-      </div>
+                    className="w-8 h-8 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
+                    style={{ backgroundColor: getDriverMarkerColor(item.driver.status) }}
+                  >
+                    <Car className="h-4 w-4 text-white" />
+                  </div>
+
+                  {/* Pulse animation for available drivers */}
+                  {item.driver.status === DriverStatus.AVAILABLE && (
+                    <div
+                      className="absolute inset-0 rounded-full animate-ping opacity-75"
+                      style={{ backgroundColor: getDriverMarkerColor(item.driver.status) }}
+                    />
+                  )}
+                </div>
+              </button>
+            </TripDropTarget>
+          </Marker>
+        ))}
+      </Map>
 
       {/* Map Controls */}
       <div className="absolute top-4 right-4 flex flex-col gap-2">
-        <Button variant="outline" size="sm" onClick={() => setZoom(Math.min(20, zoom + 1))}>
+        <Button variant="outline" size="sm" onClick={() => setMapZoom(Math.min(MAX_MAP_ZOOM, mapZoom + 1))}>
           <ZoomIn className="h-4 w-4" />
         </Button>
-        <Button variant="outline" size="sm" onClick={() => setZoom(Math.max(1, zoom - 1))}>
+        <Button variant="outline" size="sm" onClick={() => setMapZoom(Math.max(MIN_MAP_ZOOM, mapZoom - 1))}>
           <ZoomOut className="h-4 w-4" />
         </Button>
-        <Button variant="outline" size="sm">
+        <Button variant="outline" size="sm" onClick={handleRecenter} title="Recenter on activity">
           <RotateCcw className="h-4 w-4" />
         </Button>
       </div>
@@ -237,6 +406,46 @@ export function DispatchMap({ trips, drivers }: DispatchMapProps) {
             />
             Drivers ({onlineDrivers.length})
           </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={showDemand}
+              onChange={(e) => {
+                setShowDemand(e.target.checked);
+                setSelectedCellId(null);
+              }}
+              className="rounded"
+            />
+            Demand
+            {isDemandLoading && <span className="text-xs text-gray-400">loading…</span>}
+          </label>
+
+          {showDemand && (
+            <div className="pl-5 space-y-2">
+              <Select value={demandPreset} onValueChange={(value) => setDemandPreset(value as TimeRangePreset)}>
+                <SelectTrigger className="h-7 w-36 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_RANGE_PRESETS.map(preset => (
+                    <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={gapsOnly}
+                  onChange={(e) => setGapsOnly(e.target.checked)}
+                  className="rounded"
+                />
+                Supply gaps only
+              </label>
+              <p className={cn('text-xs', undersuppliedCount > 0 ? 'text-red-600' : 'text-gray-500')}>
+                {undersuppliedCount} undersupplied area{undersuppliedCount === 1 ? '' : 's'}
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -273,8 +482,70 @@ export function DispatchMap({ trips, drivers }: DispatchMapProps) {
             </div>
           </div>
         </div>
+
+        {showDemand && (
+          <div className="mt-2 pt-2 border-t space-y-1 text-xs">
+            <div className="flex items-center gap-2">
+              <div className="w-8 h-3 rounded-sm bg-gradient-to-r from-amber-100 via-orange-500 to-red-700"></div>
+              <span>Pickup demand</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 border-2 border-red-600"></div>
+              <span>Demand outstrips supply</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full bg-blue-600 opacity-40"></div>
+              <span>Online drivers</span>
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Selected Demand Cell */}
+      {selectedCell && !selectedTrip && !selectedDriver && (
+        <div className="absolute bottom-4 right-4 w-72">
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="font-medium flex items-center gap-2">
+                  <Flame className="h-4 w-4 text-orange-500" />
+                  Demand Area
+                </h3>
+                {selectedCell.undersupplied && (
+                  <Badge className="text-xs bg-red-100 text-red-800">undersupplied</Badge>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => setSelectedCellId(null)}>
+                  ×
+                </Button>
+              </div>
+
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Pickups ({TIME_RANGE_PRESETS.find(p => p.value === demandPreset)?.label.toLowerCase()})</span>
+                  <span className="font-medium">{selectedCell.demand}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Online drivers now</span>
+                  <span className="font-medium">{selectedCell.supply} ({selectedCell.available} available)</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Share of demand / supply</span>
+                  <span className="font-medium">
+                    {Math.round(selectedCell.demandShare * 100)}% / {Math.round(selectedCell.supplyShare * 100)}%
+                  </span>
+                </div>
+              </div>
+
+              {selectedCell.undersupplied && (
+                <p className="mt-3 pt-2 border-t text-xs text-gray-600">
+                  Consider repositioning available drivers towards this area.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Selected Item Info Panel */}
       {(selectedTrip || selectedDriver) && (
         <div className="absolute bottom-4 right-4 w-80">
@@ -319,6 +590,22 @@ export function DispatchMap({ trips, drivers }: DispatchMapProps) {
                         <span className="text-xs">{selectedTrip.destination.address}</span>
                       </div>
                     </div>
+
+                    {/* Route Legend */}
+                    <div className="pt-2 border-t flex items-center gap-3 text-xs text-gray-600">
+                      <div className="flex items-center gap-1">
+                        <div className="w-4 h-1 rounded bg-blue-500 opacity-40" />
+                        <span>Planned</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <div className="w-4 h-1 rounded bg-blue-700" />
+                        <span>Actual</span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <div className="w-4 h-1 rounded bg-red-500" />
+                        <span>Off route</span>
+                      </div>
+                    </div>
                   </div>
                 </div>
               )}
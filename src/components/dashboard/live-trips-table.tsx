@@ -1,10 +1,11 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Trip, TripStatus } from '@/types';
+import { AlertType, Trip, TripStatus } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useAlertStore, useUIStore } from '@/store';
 import {
   MapPin,
   Navigation,
@@ -14,7 +15,8 @@ import {
   Phone,
   MoreHorizontal,
   Eye,
-  AlertTriangle
+  AlertTriangle,
+  GripVertical
 } from 'lucide-react';
 import {
   formatRelativeTime,
@@ -31,6 +33,17 @@ interface LiveTripsTableProps {
 
 export function LiveTripsTable({ trips }: LiveTripsTableProps) {
   const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
+  const { draggedTripId, setDraggedTrip } = useUIStore();
+  const { alerts } = useAlertStore();
+
+  // Only unassigned pending trips can be dragged onto a driver
+  const isDraggable = (trip: Trip) => trip.status === TripStatus.PENDING && !trip.driver;
+
+  const handleDragStart = (event: React.DragEvent, trip: Trip) => {
+    event.dataTransfer.setData('text/plain', trip.id);
+    event.dataTransfer.effectAllowed = 'link';
+    setDraggedTrip(trip.id);
+  };
 
   const getStatusColor = (status: TripStatus) => {
     switch (status) {
@@ -69,7 +82,18 @@ export function LiveTripsTable({ trips }: LiveTripsTableProps) {
     }
   };
 
+  // Open alerts raised by the trip delay monitor
+  const getDelayAlert = (trip: Trip) => alerts.find(alert =>
+    !alert.isResolved &&
+    alert.tripId === trip.id &&
+    [AlertType.TRIP_DELAY, AlertType.DRIVER_NO_SHOW, AlertType.RIDER_NO_SHOW].includes(alert.type)
+  );
+
   const getUrgencyLevel = (trip: Trip) => {
+    if (getDelayAlert(trip)) {
+      return 'urgent';
+    }
+
     const now = new Date();
     const requestTime = new Date(trip.requestedAt);
     const waitTime = (now.getTime() - requestTime.getTime()) / (1000 * 60); // minutes
@@ -105,6 +129,8 @@ export function LiveTripsTable({ trips }: LiveTripsTableProps) {
         <div className="divide-y divide-gray-200">
           {trips.map((trip) => {
             const urgency = getUrgencyLevel(trip);
+            const delayAlert = getDelayAlert(trip);
+            const draggable = isDraggable(trip);
 
             return (
               <div
@@ -113,14 +139,22 @@ export function LiveTripsTable({ trips }: LiveTripsTableProps) {
                   'p-4 hover:bg-gray-50 transition-colors cursor-pointer',
                   urgency === 'urgent' && 'border-l-4 border-red-500 bg-red-50',
                   urgency === 'soon' && 'border-l-4 border-yellow-500 bg-yellow-50',
-                  selectedTrip?.id === trip.id && 'bg-blue-50'
+                  selectedTrip?.id === trip.id && 'bg-blue-50',
+                  draggable && 'cursor-grab active:cursor-grabbing',
+                  draggedTripId === trip.id && 'opacity-50'
                 )}
+                draggable={draggable}
+                onDragStart={draggable ? (e) => handleDragStart(e, trip) : undefined}
+                onDragEnd={draggable ? () => setDraggedTrip(undefined) : undefined}
                 onClick={() => setSelectedTrip(selectedTrip?.id === trip.id ? null : trip)}
               >
                 <div className="flex items-start justify-between">
                   {/* Trip Info */}
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-3 mb-2">
+                      {draggable && (
+                        <GripVertical className="h-4 w-4 text-gray-400 -ml-1" aria-label="Drag onto a driver to assign" />
+                      )}
                       <span className="font-mono text-sm font-medium text-gray-900">
                         #{trip.id.slice(-6).toUpperCase()}
                       </span>
@@ -133,7 +167,7 @@ export function LiveTripsTable({ trips }: LiveTripsTableProps) {
                       {urgency === 'urgent' && (
                         <Badge variant="destructive" className="text-xs flex items-center gap-1">
                           <AlertTriangle className="h-3 w-3" />
-                          Urgent
+                          {delayAlert ? delayAlert.title : 'Urgent'}
                         </Badge>
                       )}
 
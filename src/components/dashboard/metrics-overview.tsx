@@ -1,24 +1,112 @@
 'use client';
 
-import React from 'react';
-import { DashboardMetrics } from '@/types';
+import React, { useEffect, useRef, useState } from 'react';
+import { DashboardMetrics, TimePeriod, TimeRange } from '@/types';
+import { useUIStore } from '@/store';
+import { api } from '@/services/api';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import {
-  TrendingUp,
-  TrendingDown,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
   DollarSign,
   Clock,
   Star,
   Activity,
   Target
 } from 'lucide-react';
-import { formatCurrency, formatDuration, cn } from '@/lib/utils';
+import { ChangeIndicator } from '@/components/analytics/change-indicator';
+import { Sparkline } from '@/components/analytics/sparkline';
+import { getPercentChange } from '@/lib/analytics';
+import {
+  COMPARISON_WINDOWS,
+  ComparisonWindow,
+  getComparisonRange,
+  splitRange
+} from '@/lib/time-ranges';
+import { formatCurrency, formatDuration } from '@/lib/utils';
 
 interface MetricsOverviewProps {
   metrics: DashboardMetrics | null;
 }
 
+type TrendMetric = 'totalRevenue' | 'completionRate' | 'averageWaitTime' | 'averageRating';
+
+const SPARKLINE_SLICES = 8;
+const TREND_REFRESH_MS = 5 * 60 * 1000; // comparison and sparklines change slowly; don't refetch on every metrics push
+
+/**
+ * Window the metrics cover, falling back to the last 24 hours
+ */
+function getMetricsRange(metrics: DashboardMetrics): TimeRange {
+  if (metrics.timeRange?.start && metrics.timeRange?.end) {
+    return {
+      start: new Date(metrics.timeRange.start),
+      end: new Date(metrics.timeRange.end),
+      period: metrics.timeRange.period || TimePeriod.DAY
+    };
+  }
+
+  const end = new Date(metrics.updatedAt || Date.now());
+  return { start: new Date(end.getTime() - 24 * 60 * 60 * 1000), end, period: TimePeriod.DAY };
+}
+
+/**
+ * Sparkline value for a slice; rates are meaningless for slices without trips
+ */
+function getTrendValue(slice: DashboardMetrics, metric: TrendMetric): number | null {
+  if (metric !== 'totalRevenue' && slice.totalTrips === 0) return null;
+  return slice[metric];
+}
+
 export function MetricsOverview({ metrics }: MetricsOverviewProps) {
+  const { addNotification } = useUIStore();
+  const [comparison, setComparison] = useState<ComparisonWindow>('previous_day');
+  const [previousMetrics, setPreviousMetrics] = useState<DashboardMetrics | null>(null);
+  const [trendSlices, setTrendSlices] = useState<DashboardMetrics[]>([]);
+  const lastTrendFetch = useRef<{ comparison: ComparisonWindow; at: number } | null>(null);
+
+  useEffect(() => {
+    if (!metrics) return;
+
+    const last = lastTrendFetch.current;
+    if (last && last.comparison === comparison && Date.now() - last.at < TREND_REFRESH_MS) return;
+
+    lastTrendFetch.current = { comparison, at: Date.now() };
+    loadTrends(getMetricsRange(metrics));
+  }, [metrics, comparison]);
+
+  const loadTrends = async (range: TimeRange) => {
+    try {
+      const [previousResponse, ...sliceResponses] = await Promise.all([
+        api.analytics.getDashboardMetrics(getComparisonRange(range, comparison)),
+        ...splitRange(range, SPARKLINE_SLICES, TimePeriod.HOUR).map(slice =>
+          api.analytics.getDashboardMetrics(slice)
+        )
+      ]);
+
+      setPreviousMetrics(previousResponse.success && previousResponse.data ? previousResponse.data : null);
+      setTrendSlices(
+        sliceResponses.every(response => response.success && response.data)
+          ? sliceResponses.map(response => response.data!)
+          : []
+      );
+    } catch (error) {
+      console.error('Failed to load metric trends:', error);
+      lastTrendFetch.current = null;
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load metric comparisons.',
+        duration: 5000
+      });
+    }
+  };
+
   if (!metrics) {
     return (
       <Card>
@@ -35,22 +123,26 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
     );
   }
 
-  const completionRateChange = 2.3; // Mock change percentage
-  const revenueChange = 8.7;
-  const waitTimeChange = -1.2;
-  const ratingChange = 0.1;
+  const getChange = (metric: TrendMetric) => getPercentChange(metrics[metric], previousMetrics?.[metric]);
+  const getTrend = (metric: TrendMetric) => trendSlices.map(slice => getTrendValue(slice, metric));
 
   const MetricCard = ({
     title,
     value,
     icon: Icon,
     change,
+    trend,
+    lowerIsBetter,
+    color,
     format = 'number'
   }: {
     title: string;
     value: number;
     icon: any;
-    change?: number;
+    change: number | null;
+    trend: (number | null)[];
+    lowerIsBetter?: boolean;
+    color?: string;
     format?: 'number' | 'currency' | 'duration' | 'percentage' | 'rating';
   }) => {
     const formatValue = (value: number, format: string) => {
@@ -72,19 +164,7 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
       <div className="bg-white border rounded-lg p-4">
         <div className="flex items-center justify-between mb-2">
           <Icon className="h-5 w-5 text-gray-600" />
-          {change !== undefined && (
-            <div className={cn(
-              'flex items-center gap-1 text-xs',
-              change >= 0 ? 'text-green-600' : 'text-red-600'
-            )}>
-              {change >= 0 ? (
-                <TrendingUp className="h-3 w-3" />
-              ) : (
-                <TrendingDown className="h-3 w-3" />
-              )}
-              {Math.abs(change)}%
-            </div>
-          )}
+          <ChangeIndicator change={change} lowerIsBetter={lowerIsBetter} />
         </div>
         <div className="space-y-1">
           <p className="text-2xl font-bold text-gray-900">
@@ -92,6 +172,7 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
           </p>
           <p className="text-sm text-gray-600">{title}</p>
         </div>
+        <Sparkline values={trend} color={color} className="h-8 mt-2" />
       </div>
     );
   };
@@ -105,6 +186,18 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
           <span className="text-sm font-normal text-gray-500">
             (Last 24 hours)
           </span>
+          <div className="ml-auto">
+            <Select value={comparison} onValueChange={(value) => setComparison(value as ComparisonWindow)}>
+              <SelectTrigger className="h-8 w-48 text-xs font-normal">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COMPARISON_WINDOWS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </CardTitle>
       </CardHeader>
 
@@ -114,7 +207,9 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
             title="Total Revenue"
             value={metrics.totalRevenue}
             icon={DollarSign}
-            change={revenueChange}
+            change={getChange('totalRevenue')}
+            trend={getTrend('totalRevenue')}
+            color="#10B981"
             format="currency"
           />
 
@@ -122,7 +217,9 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
             title="Completion Rate"
             value={metrics.completionRate}
             icon={Target}
-            change={completionRateChange}
+            change={getChange('completionRate')}
+            trend={getTrend('completionRate')}
+            color="#3B82F6"
             format="percentage"
           />
 
@@ -130,7 +227,10 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
             title="Avg Wait Time"
             value={metrics.averageWaitTime}
             icon={Clock}
-            change={waitTimeChange}
+            change={getChange('averageWaitTime')}
+            trend={getTrend('averageWaitTime')}
+            lowerIsBetter
+            color="#F59E0B"
             format="duration"
           />
 
@@ -138,7 +238,9 @@ export function MetricsOverview({ metrics }: MetricsOverviewProps) {
             title="Avg Rating"
             value={metrics.averageRating}
             icon={Star}
-            change={ratingChange}
+            change={getChange('averageRating')}
+            trend={getTrend('averageRating')}
+            color="#8B5CF6"
             format="rating"
           />
         </div>
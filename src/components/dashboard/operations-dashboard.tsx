@@ -25,6 +25,8 @@ import {
 import { LiveTripsTable } from './live-trips-table';
 import { ActiveDriversWidget } from './active-drivers-widget';
 import { AlertsWidget } from './alerts-widget';
+import { AutoDispatchPanel } from './auto-dispatch-panel';
+import { PoolingPanel } from './pooling-panel';
 import { MetricsOverview } from './metrics-overview';
 import { DispatchMap } from './dispatch-map';
 import { api } from '@/services/api';
@@ -358,8 +360,14 @@ export function OperationsDashboard() {
             <MetricsOverview metrics={metrics} />
           </div>
 
-          {/* Right Column - Drivers and Alerts */}
+          {/* Right Column - Auto-Dispatch, Pooling, Drivers and Alerts */}
           <div className="space-y-6">
+            {/* Auto-Dispatch Queue */}
+            <AutoDispatchPanel />
+
+            {/* Shared-Ride Proposals */}
+            <PoolingPanel />
+
             {/* Active Drivers */}
             <ActiveDriversWidget drivers={drivers} />
 
@@ -369,17 +377,33 @@ export function OperationsDashboard() {
         </div>
       ) : (
         /* Map View */
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <MapPin className="h-5 w-5" />
-              Live Dispatch Map
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="p-0">
-            <DispatchMap trips={trips} drivers={drivers} />
-          </CardContent>
-        </Card>
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="lg:col-span-3">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Live Dispatch Map
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <DispatchMap trips={trips} drivers={drivers} />
+            </CardContent>
+          </Card>
+
+          {/* Pending trips can be dragged onto driver markers */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Pending Trips
+                <Badge variant="secondary">{stats.pendingTrips}</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <LiveTripsTable trips={trips.filter(t => t.status === TripStatus.PENDING)} />
+            </CardContent>
+          </Card>
+        </div>
       )}
     </div>
   );
@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { DriverStatus, ServiceType } from '@/types';
+import { useDriverStore, useTripStore, useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
+import { autoDispatcher } from '@/services/auto-dispatch';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  MapPin,
+  Navigation,
+  Users,
+  X
+} from 'lucide-react';
+import {
+  DEFAULT_POOLING_SETTINGS,
+  getPassengerCount,
+  getPoolingCapacity,
+  PooledRun,
+  proposePooledRuns
+} from '@/lib/pooling';
+import { rankDrivers } from '@/lib/driver-scoring';
+import { formatDuration } from '@/lib/utils';
+
+const MAX_DRIVER_OPTIONS = 5;
+
+export function PoolingPanel() {
+  const { trips, updateTrip } = useTripStore();
+  const { drivers } = useDriverStore();
+  const { addNotification } = useUIStore();
+  const { currentTenant } = useAuth();
+
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [dismissedRunIds, setDismissedRunIds] = useState<string[]>([]);
+  const [selectedDrivers, setSelectedDrivers] = useState<Record<string, string>>({});
+  const [assigningRunId, setAssigningRunId] = useState<string | null>(null);
+
+  const settings = { ...DEFAULT_POOLING_SETTINGS, ...currentTenant?.settings.pooling };
+
+  const runs = useMemo(
+    () => proposePooledRuns(trips, getPoolingCapacity(drivers), settings)
+      .filter(run => !dismissedRunIds.includes(run.id)),
+    [trips, drivers, currentTenant, dismissedRunIds]
+  );
+
+  // Best available drivers whose vehicle seats the whole run
+  const getDriverOptions = (run: PooledRun) => rankDrivers(
+    drivers.filter(driver =>
+      driver.isOnline
+      && driver.status === DriverStatus.AVAILABLE
+      && driver.vehicle.capacity >= run.passengerCount
+    ),
+    {
+      pickup: run.stops[0].coordinates,
+      serviceType: ServiceType.GROUP,
+      tripDurationMinutes: run.totalMinutes,
+      activeTrips: trips
+    }
+  )
+    .filter(recommendation => recommendation.isCompatible)
+    .slice(0, MAX_DRIVER_OPTIONS);
+
+  const handleAssignRun = async (run: PooledRun, driverId: string) => {
+    setAssigningRunId(run.id);
+    const assigned: string[] = [];
+
+    try {
+      for (const trip of run.trips) {
+        // Pooling takes over from auto-dispatch for these trips
+        autoDispatcher.release(trip.id);
+
+        const response = await api.trips.assignDriver(trip.id, {
+          tripId: trip.id,
+          driverId,
+          notes: `Pooled run of ${run.trips.length} trips, pickup ${assigned.length + 1} of ${run.trips.length}`
+        });
+
+        if (!response.success || !response.data) {
+          throw new Error(response.error?.message || `Failed to assign trip #${trip.id.slice(-6).toUpperCase()}`);
+        }
+
+        updateTrip(trip.id, {
+          ...response.data,
+          metadata: { ...response.data.metadata, poolRunId: run.id }
+        });
+        assigned.push(trip.id);
+      }
+
+      addNotification({
+        type: 'success',
+        title: 'Pooled Run Assigned',
+        message: `${run.trips.length} trips (${run.passengerCount} riders) assigned to one vehicle.`,
+        duration: 5000
+      });
+    } catch (error: any) {
+      console.error('Failed to assign pooled run:', error);
+      addNotification({
+        type: 'error',
+        title: 'Pooling Failed',
+        message: `${error.message}. ${assigned.length} of ${run.trips.length} trips were assigned.`,
+        duration: 8000
+      });
+    } finally {
+      setAssigningRunId(null);
+    }
+  };
+
+  const renderItinerary = (run: PooledRun) => (
+    <div className="space-y-2 pt-2 border-t">
+      {run.stops.map((stop, index) => {
+        const impact = run.riderImpacts.find(item => item.tripId === stop.trip.id);
+
+        return (
+          <div key={`${stop.type}-${stop.trip.id}`} className="flex items-start gap-2 text-xs">
+            <span className="w-4 text-gray-400 text-right">{index + 1}</span>
+            {stop.type === 'pickup' ? (
+              <MapPin className="h-3 w-3 mt-0.5 shrink-0 text-green-600" />
+            ) : (
+              <Navigation className="h-3 w-3 mt-0.5 shrink-0 text-red-600" />
+            )}
+            <div className="flex-1 min-w-0">
+              <p className="font-medium">
+                {stop.type === 'pickup' ? 'Pick up' : 'Drop off'} {stop.trip.rider.firstName} {stop.trip.rider.lastName}
+                {getPassengerCount(stop.trip) > 1 && ` (+${getPassengerCount(stop.trip) - 1})`}
+              </p>
+              <p className="text-gray-500 truncate">{stop.address}</p>
+              {stop.type === 'dropoff' && impact && impact.detourMinutes >= 1 && (
+                <p className="text-orange-600">+{Math.round(impact.detourMinutes)} min detour</p>
+              )}
+            </div>
+            <div className="text-right text-gray-500 whitespace-nowrap">
+              <p>+{Math.round(stop.arrivalMinutes)} min</p>
+              <p>{stop.onBoard} on board</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Shared Rides
+          {runs.length > 0 && (
+            <Badge variant="secondary">{runs.length}</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {runs.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No pending group trips can share a vehicle right now.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map(run => {
+              const isExpanded = expandedRunId === run.id;
+              const driverOptions = getDriverOptions(run);
+              const selectedDriverId = selectedDrivers[run.id] || driverOptions[0]?.driver.id;
+              const isAssigning = assigningRunId === run.id;
+
+              return (
+                <div key={run.id} className="p-3 rounded border bg-gray-50 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">
+                      {run.trips.length} trips • {run.passengerCount} riders
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <Badge variant="outline" className="text-green-700">
+                        Saves {formatDuration(Math.round(run.savedMinutes))}
+                      </Badge>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => setDismissedRunIds(ids => [...ids, run.id])}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-gray-600">
+                    Run takes {formatDuration(Math.round(run.totalMinutes))}, longest rider detour{' '}
+                    {Math.round(run.maxDetourMinutes)} min (limit {settings.maxDetourMinutes})
+                  </p>
+
+                  <button
+                    onClick={() => setExpandedRunId(isExpanded ? null : run.id)}
+                    className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                  >
+                    {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                    {isExpanded ? 'Hide itinerary' : 'Show itinerary'}
+                  </button>
+
+                  {isExpanded && renderItinerary(run)}
+
+                  {driverOptions.length === 0 ? (
+                    <p className="text-xs text-orange-700">
+                      No available vehicle seats {run.passengerCount} riders.
+                    </p>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Select
+                        value={selectedDriverId}
+                        onValueChange={(driverId) => setSelectedDrivers(current => ({ ...current, [run.id]: driverId }))}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {driverOptions.map(({ driver, etaMinutes }) => (
+                            <SelectItem key={driver.id} value={driver.id}>
+                              {driver.firstName} {driver.lastName} • {driver.vehicle.capacity} seats
+                              {etaMinutes !== null && ` • ${Math.round(etaMinutes)} min away`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        className="h-8 text-xs shrink-0"
+                        disabled={!selectedDriverId || isAssigning}
+                        onClick={() => handleAssignRun(run, selectedDriverId!)}
+                      >
+                        {isAssigning && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                        Assign Run
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default PoolingPanel;
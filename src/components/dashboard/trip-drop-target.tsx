@@ -0,0 +1,218 @@
+'use client';
+
+import React, { ReactNode, useMemo, useState } from 'react';
+import { Driver, Trip } from '@/types';
+import { useTripStore, useUIStore } from '@/store';
+import { api } from '@/services/api';
+import { AssignmentPreview, previewAssignment } from '@/lib/driver-scoring';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle, CheckCircle, Clock, Loader2 } from 'lucide-react';
+import { formatDuration, cn } from '@/lib/utils';
+
+interface TripDropTargetProps {
+  driver: Driver;
+  children: ReactNode;
+  className?: string;
+  previewPlacement?: 'top' | 'overlay';
+}
+
+interface PendingOverride {
+  trip: Trip;
+  preview: AssignmentPreview;
+}
+
+export function TripDropTarget({
+  driver,
+  children,
+  className,
+  previewPlacement = 'overlay'
+}: TripDropTargetProps) {
+  const { draggedTripId, setDraggedTrip, addNotification } = useUIStore();
+  const { trips, updateTrip } = useTripStore();
+
+  const [isOver, setIsOver] = useState(false);
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [pendingOverride, setPendingOverride] = useState<PendingOverride | null>(null);
+
+  const draggedTrip = draggedTripId ? trips.find(trip => trip.id === draggedTripId) : undefined;
+
+  const preview = useMemo(
+    () => (isOver && draggedTrip ? previewAssignment(draggedTrip, driver, trips) : null),
+    [isOver, draggedTrip, driver, trips]
+  );
+
+  const assignTrip = async (trip: Trip, override: boolean, violations: string[] = []) => {
+    setIsAssigning(true);
+
+    try {
+      const response = await api.trips.assignDriver(trip.id, {
+        tripId: trip.id,
+        driverId: driver.id,
+        override: override || undefined,
+        notes: override ? `Dispatcher override: ${violations.join('; ')}` : undefined
+      });
+
+      if (response.success && response.data) {
+        updateTrip(trip.id, response.data);
+        addNotification({
+          type: 'success',
+          title: 'Driver Assigned',
+          message: `${driver.firstName} ${driver.lastName} assigned to trip #${trip.id.slice(-6).toUpperCase()}.`,
+          duration: 3000
+        });
+      } else {
+        throw new Error(response.error?.message || 'Assignment rejected');
+      }
+    } catch (error) {
+      console.error('Failed to assign driver:', error);
+      addNotification({
+        type: 'error',
+        title: 'Assignment Failed',
+        message: 'Failed to assign driver. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!draggedTrip) return;
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'link';
+    if (!isOver) setIsOver(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    // Ignore moves between child elements of the same target
+    if (event.currentTarget.contains(event.relatedTarget as Node)) return;
+    setIsOver(false);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsOver(false);
+    setDraggedTrip(undefined);
+
+    if (!draggedTrip) return;
+
+    const dropPreview = previewAssignment(draggedTrip, driver, trips);
+    if (dropPreview.requiresOverride) {
+      setPendingOverride({ trip: draggedTrip, preview: dropPreview });
+    } else {
+      assignTrip(draggedTrip, false);
+    }
+  };
+
+  const handleConfirmOverride = () => {
+    if (pendingOverride) {
+      assignTrip(pendingOverride.trip, true, pendingOverride.preview.violations);
+    }
+    setPendingOverride(null);
+  };
+
+  return (
+    <div
+      className={cn(
+        'relative',
+        draggedTrip && 'transition-shadow',
+        isOver && preview && (preview.requiresOverride ? 'ring-2 ring-red-400' : 'ring-2 ring-green-500'),
+        className
+      )}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {isAssigning && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/60">
+          <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+        </div>
+      )}
+
+      {/* Assignment Preview */}
+      {preview && (
+        <div
+          className={cn(
+            'absolute z-20 w-56 bg-white rounded-md shadow-lg border p-2 text-xs pointer-events-none',
+            previewPlacement === 'top'
+              ? 'left-1/2 bottom-full mb-2 -translate-x-1/2'
+              : 'right-2 top-2'
+          )}
+        >
+          <p className="font-medium text-gray-900 mb-1">
+            Assign #{draggedTrip?.id.slice(-6).toUpperCase()} to {driver.firstName}
+          </p>
+          <div className="flex items-center gap-3 text-gray-600 mb-1">
+            <span className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {preview.etaMinutes !== null ? formatDuration(Math.round(preview.etaMinutes)) : 'ETA unknown'}
+            </span>
+            {!preview.requiresOverride && <span>Score {preview.score}</span>}
+          </div>
+          {preview.requiresOverride ? (
+            <div className="space-y-1">
+              {preview.violations.map(violation => (
+                <p key={violation} className="flex items-center gap-1 text-red-600">
+                  <AlertTriangle className="h-3 w-3 shrink-0" />
+                  {violation}
+                </p>
+              ))}
+              <p className="text-gray-500">Drop to assign with override</p>
+            </div>
+          ) : (
+            <p className="flex items-center gap-1 text-green-600">
+              <CheckCircle className="h-3 w-3" />
+              Compatible, drop to assign
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Override Confirmation Dialog */}
+      <AlertDialog open={!!pendingOverride} onOpenChange={(open) => !open && setPendingOverride(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Override Assignment Constraints</AlertDialogTitle>
+            <AlertDialogDescription>
+              Assigning {driver.firstName} {driver.lastName} to trip #{pendingOverride?.trip.id.slice(-6).toUpperCase()} breaks
+              the following constraints:
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <ul className="my-2 space-y-1 text-sm">
+            {pendingOverride?.preview.violations.map(violation => (
+              <li key={violation} className="flex items-center gap-2 text-red-600">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {violation}
+              </li>
+            ))}
+          </ul>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmOverride}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Assign Anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default TripDropTarget;
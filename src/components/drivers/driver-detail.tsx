@@ -0,0 +1,512 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { addDays, differenceInMinutes, format, isBefore } from 'date-fns';
+import { Driver, DriverDocument, PaginationInfo, PerformanceMetrics, Shift, Trip } from '@/types';
+import { useDriverStore, useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Car,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  FileText,
+  Loader2,
+  Mail,
+  Phone,
+  RefreshCw,
+  Star,
+  XCircle
+} from 'lucide-react';
+import { DriverPerformanceCharts } from './driver-performance-charts';
+import { formatTripStatus } from '@/lib/trip-status';
+import { resolveRouteParam } from '@/lib/routes';
+import { getTimeRange, TIME_RANGE_PRESETS, TimeRangePreset } from '@/lib/time-ranges';
+import {
+  formatCurrency,
+  formatDuration,
+  formatPhoneNumber,
+  getAvatarColor,
+  getInitials,
+  cn
+} from '@/lib/utils';
+
+const TRIP_HISTORY_PAGE_SIZE = 10;
+const CHART_TRIP_LIMIT = 500;
+const DOCUMENT_EXPIRY_WARNING_DAYS = 30;
+
+interface DriverDetailProps {
+  driverId: string;
+}
+
+type DocumentState = 'verified' | 'pending' | 'expiring' | 'expired';
+
+/**
+ * Verification state of a driver document, expiry taking precedence over verification
+ */
+function getDocumentState(document: DriverDocument, now = new Date()): DocumentState {
+  if (document.expiryDate) {
+    const expiry = new Date(document.expiryDate);
+    if (isBefore(expiry, now)) return 'expired';
+    if (isBefore(expiry, addDays(now, DOCUMENT_EXPIRY_WARNING_DAYS))) return 'expiring';
+  }
+  return document.isVerified ? 'verified' : 'pending';
+}
+
+const DOCUMENT_STATE_STYLES: Record<DocumentState, { label: string; className: string; icon: React.ComponentType<{ className?: string }> }> = {
+  verified: { label: 'Verified', className: 'text-green-700 bg-green-50', icon: CheckCircle },
+  pending: { label: 'Pending verification', className: 'text-orange-700 bg-orange-50', icon: Clock },
+  expiring: { label: 'Expiring soon', className: 'text-yellow-700 bg-yellow-50', icon: AlertTriangle },
+  expired: { label: 'Expired', className: 'text-red-700 bg-red-50', icon: XCircle }
+};
+
+export function DriverDetail({ driverId }: DriverDetailProps) {
+  const { drivers } = useDriverStore();
+  const { addNotification } = useUIStore();
+  const { currentTenant } = useAuth();
+
+  const [resolvedId, setResolvedId] = useState<string | null>(null);
+  const [fetchedDriver, setFetchedDriver] = useState<Driver | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [preset, setPreset] = useState<TimeRangePreset>('7d');
+  const [performance, setPerformance] = useState<PerformanceMetrics | null>(null);
+  const [rangeTrips, setRangeTrips] = useState<Trip[]>([]);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [isPerformanceLoading, setIsPerformanceLoading] = useState(false);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyTrips, setHistoryTrips] = useState<Trip[]>([]);
+  const [historyPagination, setHistoryPagination] = useState<PaginationInfo | null>(null);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+
+  const timeRange = useMemo(() => getTimeRange(preset), [preset]);
+  const currency = currentTenant?.settings.currency;
+
+  // The static shell page carries a placeholder id, so read the real one from the URL
+  useEffect(() => {
+    setResolvedId(resolveRouteParam(driverId));
+  }, [driverId]);
+
+  useEffect(() => {
+    if (resolvedId) {
+      loadDriver(resolvedId);
+    } else {
+      setIsLoading(false);
+    }
+  }, [resolvedId]);
+
+  useEffect(() => {
+    if (resolvedId) loadPerformance(resolvedId);
+  }, [resolvedId, timeRange]);
+
+  useEffect(() => {
+    if (resolvedId) loadTripHistory(resolvedId, historyPage);
+  }, [resolvedId, historyPage]);
+
+  // Prefer live updates from the store once the driver is there
+  const driver = drivers.find(item => item.id === resolvedId) || fetchedDriver;
+
+  const loadDriver = async (id: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await api.drivers.getDriverById(id);
+      if (response.success && response.data) {
+        setFetchedDriver(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load driver:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load driver details. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadPerformance = async (id: string) => {
+    setIsPerformanceLoading(true);
+
+    try {
+      const [performanceResponse, tripsResponse, shiftsResponse] = await Promise.all([
+        api.drivers.getDriverPerformance(id, timeRange),
+        api.drivers.getDriverTrips(id, timeRange, { page: 1, limit: CHART_TRIP_LIMIT }),
+        api.drivers.getDriverShifts(id, timeRange)
+      ]);
+
+      setPerformance(performanceResponse.success && performanceResponse.data ? performanceResponse.data : null);
+      setRangeTrips(tripsResponse.success && tripsResponse.data ? tripsResponse.data.trips : []);
+      setShifts(
+        shiftsResponse.success && shiftsResponse.data
+          ? [...shiftsResponse.data].sort((a, b) => new Date(b.startTime).getTime() - new Date(a.startTime).getTime())
+          : []
+      );
+    } catch (error) {
+      console.error('Failed to load driver performance:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load driver performance. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsPerformanceLoading(false);
+    }
+  };
+
+  const loadTripHistory = async (id: string, page: number) => {
+    setIsHistoryLoading(true);
+
+    try {
+      const response = await api.drivers.getDriverTrips(id, undefined, { page, limit: TRIP_HISTORY_PAGE_SIZE });
+      if (response.success && response.data) {
+        setHistoryTrips(response.data.trips);
+        setHistoryPagination(response.data.pagination);
+      }
+    } catch (error) {
+      console.error('Failed to load driver trips:', error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    if (!resolvedId) return;
+    loadDriver(resolvedId);
+    loadPerformance(resolvedId);
+    loadTripHistory(resolvedId, historyPage);
+  };
+
+  if (isLoading && !driver) {
+    return (
+      <div className="p-6 flex items-center justify-center h-64">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!driver) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link href="/drivers" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4" />
+          Drivers
+        </Link>
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            Driver was not found.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const kpis = performance ? [
+    { label: 'Trips', value: performance.totalTrips.toLocaleString() },
+    { label: 'Hours', value: performance.totalHours.toFixed(1) },
+    { label: 'Earnings', value: formatCurrency(performance.totalEarnings, currency) },
+    { label: 'Rating', value: performance.averageRating.toFixed(2) },
+    { label: 'Completion', value: `${performance.completionRate.toFixed(1)}%` },
+    { label: 'On time', value: `${performance.onTimePercentage.toFixed(1)}%` },
+    { label: 'Cancellations', value: `${performance.cancellationRate.toFixed(1)}%` },
+    {
+      label: 'Distance',
+      value: `${performance.totalDistance.toFixed(0)} ${currentTenant?.settings.distanceUnit === 'kilometers' ? 'km' : 'mi'}`
+    }
+  ] : [];
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/drivers" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft className="h-4 w-4" />
+            Drivers
+          </Link>
+          <div className="flex items-center gap-3">
+            <Avatar className="h-12 w-12">
+              <AvatarFallback
+                style={{ backgroundColor: getAvatarColor(driver.id) }}
+                className="text-white"
+              >
+                {getInitials(driver.firstName, driver.lastName)}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+                {driver.firstName} {driver.lastName}
+                <Badge variant="secondary" className="capitalize">{driver.status.replace(/_/g, ' ')}</Badge>
+              </h1>
+              <p className="text-gray-600 flex items-center gap-3 text-sm">
+                <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{formatPhoneNumber(driver.phone)}</span>
+                <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{driver.email}</span>
+                <span className="flex items-center gap-1"><Star className="h-3 w-3 text-yellow-500" />{driver.rating.toFixed(1)}</span>
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={preset} onValueChange={(value) => setPreset(value as TimeRangePreset)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_RANGE_PRESETS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleRefresh} disabled={isPerformanceLoading}>
+            <RefreshCw className={cn('h-4 w-4 mr-2', isPerformanceLoading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Performance */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Performance</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isPerformanceLoading && !performance ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : performance ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {kpis.map(kpi => (
+                <div key={kpi.label} className="p-3 rounded border bg-gray-50">
+                  <p className="text-xs text-gray-500">{kpi.label}</p>
+                  <p className="text-lg font-semibold">{kpi.value}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No performance data for this period.</p>
+          )}
+          <DriverPerformanceCharts trips={rangeTrips} timeRange={timeRange} currency={currency} />
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Trip History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center justify-between">
+                Trip History
+                {historyPagination && (
+                  <span className="text-sm font-normal text-gray-500">{historyPagination.total} trips</span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isHistoryLoading && historyTrips.length === 0 ? (
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              ) : historyTrips.length === 0 ? (
+                <p className="text-sm text-gray-500">No trips yet.</p>
+              ) : (
+                <div className={cn('divide-y', isHistoryLoading && 'opacity-50')}>
+                  {historyTrips.map(trip => (
+                    <Link
+                      key={trip.id}
+                      href={`/trips/${trip.id}`}
+                      className="flex items-center justify-between gap-3 py-2 text-sm hover:bg-gray-50"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium">
+                          #{trip.id.slice(-6).toUpperCase()} • {trip.rider.firstName} {trip.rider.lastName}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {trip.pickup.address} → {trip.destination.address}
+                        </p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <Badge variant="outline" className="capitalize">{formatTripStatus(trip.status)}</Badge>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {format(new Date(trip.requestedAt), 'MMM d, h:mm a')} • {formatCurrency(trip.actualFare ?? trip.estimatedFare, currency)}
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+
+              {historyPagination && historyPagination.totalPages > 1 && (
+                <div className="flex items-center justify-between pt-4">
+                  <span className="text-sm text-gray-500">
+                    Page {historyPagination.page} of {historyPagination.totalPages}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!historyPagination.hasPrev || isHistoryLoading}
+                      onClick={() => setHistoryPage(page => page - 1)}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!historyPagination.hasNext || isHistoryLoading}
+                      onClick={() => setHistoryPage(page => page + 1)}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Shift History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Clock className="h-4 w-4" />
+                Shifts
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {shifts.length === 0 ? (
+                <p className="text-sm text-gray-500">No shifts in this period.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="font-medium pb-2">Date</th>
+                      <th className="font-medium pb-2">Hours</th>
+                      <th className="font-medium pb-2">Break</th>
+                      <th className="font-medium pb-2 text-right">Trips</th>
+                      <th className="font-medium pb-2 text-right">Earnings</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {shifts.map(shift => {
+                      const worked = shift.totalHours !== undefined
+                        ? shift.totalHours * 60
+                        : differenceInMinutes(shift.endTime ? new Date(shift.endTime) : new Date(), new Date(shift.startTime));
+
+                      return (
+                        <tr key={shift.id}>
+                          <td className="py-2">
+                            {format(new Date(shift.startTime), 'EEE MMM d, h:mm a')}
+                            {shift.endTime ? ` – ${format(new Date(shift.endTime), 'h:mm a')}` : (
+                              <Badge variant="secondary" className="ml-2 capitalize">{shift.status.replace(/_/g, ' ')}</Badge>
+                            )}
+                          </td>
+                          <td className="py-2">{formatDuration(Math.round(worked))}</td>
+                          <td className="py-2">{shift.totalBreakTime ? formatDuration(shift.totalBreakTime) : '—'}</td>
+                          <td className="py-2 text-right">{shift.totalTrips}</td>
+                          <td className="py-2 text-right">{formatCurrency(shift.totalEarnings, currency)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Vehicle */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Car className="h-4 w-4" />
+                Vehicle
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <p className="font-medium">
+                {driver.vehicle.color} {driver.vehicle.year} {driver.vehicle.make} {driver.vehicle.model}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                <Badge variant="outline">{driver.vehicle.licensePlate}</Badge>
+                <Badge variant="outline" className="capitalize">{driver.vehicle.type.replace(/_/g, ' ')}</Badge>
+                <Badge variant="outline">{driver.vehicle.capacity} seats</Badge>
+                {driver.vehicle.isWheelchairAccessible && <Badge variant="outline">Wheelchair accessible</Badge>}
+              </div>
+              <dl className="space-y-1 pt-2 text-gray-600">
+                <div className="flex justify-between"><dt>VIN</dt><dd className="font-mono text-xs">{driver.vehicle.vin}</dd></div>
+                <div className="flex justify-between"><dt>Fuel</dt><dd className="capitalize">{driver.vehicle.fuelType}</dd></div>
+                <div className="flex justify-between"><dt>Mileage</dt><dd>{driver.vehicle.mileage.toLocaleString()}</dd></div>
+                <div className="flex justify-between"><dt>Insurance expires</dt><dd>{format(new Date(driver.vehicle.insuranceExpiry), 'MMM d, yyyy')}</dd></div>
+                <div className="flex justify-between"><dt>Registration expires</dt><dd>{format(new Date(driver.vehicle.registrationExpiry), 'MMM d, yyyy')}</dd></div>
+                {driver.vehicle.nextMaintenance && (
+                  <div className="flex justify-between"><dt>Next maintenance</dt><dd>{format(new Date(driver.vehicle.nextMaintenance), 'MMM d, yyyy')}</dd></div>
+                )}
+              </dl>
+            </CardContent>
+          </Card>
+
+          {/* Documents */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                Documents
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {driver.documents.length === 0 ? (
+                <p className="text-sm text-gray-500">No documents uploaded.</p>
+              ) : (
+                <div className="space-y-3">
+                  {driver.documents.map(document => {
+                    const state = DOCUMENT_STATE_STYLES[getDocumentState(document)];
+
+                    return (
+                      <div key={document.id} className="flex items-start justify-between gap-2 text-sm">
+                        <div>
+                          <a
+                            href={document.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-medium capitalize text-blue-600 hover:underline"
+                          >
+                            {document.type.replace(/_/g, ' ')}
+                          </a>
+                          <p className="text-xs text-gray-500">
+                            Uploaded {format(new Date(document.uploadedAt), 'MMM d, yyyy')}
+                            {document.expiryDate && ` • Expires ${format(new Date(document.expiryDate), 'MMM d, yyyy')}`}
+                          </p>
+                        </div>
+                        <span className={cn('flex items-center gap-1 rounded px-2 py-0.5 text-xs whitespace-nowrap', state.className)}>
+                          <state.icon className="h-3 w-3" />
+                          {state.label}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DriverDetail;
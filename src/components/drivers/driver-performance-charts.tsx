@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { TimeRange, Trip, TripStatus } from '@/types';
+import { formatBucketLabel, getBucketStart, getTimeBuckets } from '@/lib/time-ranges';
+import { formatCurrency } from '@/lib/utils';
+
+interface DriverPerformanceChartsProps {
+  trips: Trip[];
+  timeRange: TimeRange;
+  currency?: string;
+}
+
+interface ChartBucket {
+  label: string;
+  completed: number;
+  cancelled: number;
+  earnings: number;
+  rating: number | null;
+}
+
+/**
+ * Per-bucket trip outcomes, earnings and average rating for the range
+ */
+function buildChartBuckets(trips: Trip[], timeRange: TimeRange): ChartBucket[] {
+  const buckets = getTimeBuckets(timeRange).map(start => ({
+    key: start.getTime(),
+    label: formatBucketLabel(start, timeRange.period),
+    completed: 0,
+    cancelled: 0,
+    earnings: 0,
+    ratings: [] as number[]
+  }));
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+
+  trips.forEach(trip => {
+    const bucket = byKey.get(getBucketStart(new Date(trip.requestedAt), timeRange.period).getTime());
+    if (!bucket) return;
+
+    if (trip.status === TripStatus.COMPLETED) {
+      bucket.completed += 1;
+      bucket.earnings += trip.actualFare ?? trip.estimatedFare;
+    } else if (trip.status === TripStatus.CANCELLED || trip.status === TripStatus.NO_SHOW) {
+      bucket.cancelled += 1;
+    }
+
+    if (trip.rating) {
+      bucket.ratings.push(trip.rating.score);
+    }
+  });
+
+  return buckets.map(({ label, completed, cancelled, earnings, ratings }) => ({
+    label,
+    completed,
+    cancelled,
+    earnings: Math.round(earnings * 100) / 100,
+    rating: ratings.length > 0 ? ratings.reduce((sum, score) => sum + score, 0) / ratings.length : null
+  }));
+}
+
+export function DriverPerformanceCharts({ trips, timeRange, currency = 'USD' }: DriverPerformanceChartsProps) {
+  const data = useMemo(() => buildChartBuckets(trips, timeRange), [trips, timeRange]);
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <div>
+        <p className="text-sm font-medium mb-2">Trips</p>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 11 }} width={32} />
+              <Tooltip />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Bar dataKey="completed" name="Completed" stackId="trips" fill="#10B981" />
+              <Bar dataKey="cancelled" name="Cancelled / no-show" stackId="trips" fill="#EF4444" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">Earnings and Rating</p>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+              <YAxis yAxisId="earnings" tick={{ fontSize: 11 }} width={48} />
+              <YAxis yAxisId="rating" orientation="right" domain={[0, 5]} tick={{ fontSize: 11 }} width={24} />
+              <Tooltip
+                formatter={(value: number, name: string) => (
+                  name === 'Earnings' ? formatCurrency(value, currency) : value.toFixed(2)
+                )}
+              />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              <Line yAxisId="earnings" type="monotone" dataKey="earnings" name="Earnings" stroke="#3B82F6" dot={false} />
+              <Line yAxisId="rating" type="monotone" dataKey="rating" name="Rating" stroke="#F59E0B" connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DriverPerformanceCharts;
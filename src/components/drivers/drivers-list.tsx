@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { Driver, DriverStatus, DriverAvailability } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -351,9 +352,11 @@ export function DriversList({ drivers, isLoading, onRefresh }: DriversListProps)
                   <DropdownMenuLabel>Driver Actions</DropdownMenuLabel>
                   <DropdownMenuSeparator />
 
-                  <DropdownMenuItem>
-                    <Eye className="mr-2 h-4 w-4" />
-                    View Profile
+                  <DropdownMenuItem asChild>
+                    <Link href={`/drivers/${driver.id}`}>
+                      <Eye className="mr-2 h-4 w-4" />
+                      View Profile
+                    </Link>
                   </DropdownMenuItem>
 
                   <DropdownMenuItem>
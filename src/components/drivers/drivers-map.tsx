@@ -1,7 +1,10 @@
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
-import { Driver, DriverStatus } from '@/types';
+import React, { useMemo, useState } from 'react';
+import Map, { Marker, ViewStateChangeEvent } from 'react-map-gl';
+import type { LngLatBounds } from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { Coordinates, Driver, DriverStatus } from '@/types';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -23,6 +26,23 @@ import {
   getAvatarColor,
   cn
 } from '@/lib/utils';
+import {
+  MAPBOX_TOKEN,
+  MAX_MAP_ZOOM,
+  MIN_MAP_ZOOM,
+  getCentroid,
+  getDriverMarkerColor,
+  getMapStyle,
+  hasDriverLocation
+} from '@/lib/map';
+import {
+  ViewportBounds,
+  createDriverClusterIndex,
+  getClusterExpansionZoom,
+  getDriverMapItems
+} from '@/lib/clustering';
+import { useUIStore } from '@/store';
+import { DriverClusterMarker } from '@/components/map/driver-cluster-marker';
 
 interface DriversMapProps {
   drivers: Driver[];
@@ -30,62 +50,68 @@ interface DriversMapProps {
 }
 
 export function DriversMap({ drivers, isLoading }: DriversMapProps) {
-  const mapRef = useRef<HTMLDivElement>(null);
+  const { mapCenter } = useUIStore();
   const [selectedDriver, setSelectedDriver] = useState<Driver | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [zoom, setZoom] = useState(12);
-  const [center, setCenter] = useState({ lat: 37.7749, lng: -122.4194 }); // San Francisco default
+  const [center, setCenter] = useState<Coordinates>(mapCenter);
+  const [bounds, setBounds] = useState<ViewportBounds | null>(null);
+  const mapStyle = useMemo(() => getMapStyle(), []);
 
   // Filter drivers with location data
-  const driversWithLocation = drivers.filter(
-    driver => driver.currentLocation && driver.isOnline
+  const driversWithLocation = useMemo(() => drivers.filter(hasDriverLocation), [drivers]);
+
+  // Cluster drivers by zoom level and cull to the viewport
+  const clusterIndex = useMemo(
+    () => createDriverClusterIndex(driversWithLocation),
+    [driversWithLocation]
   );
 
-  useEffect(() => {
-    // In a real implementation, this would initialize the map
-    // For now, we'll simulate map loading
-    const timer = setTimeout(() => {
-      setMapLoaded(true);
-    }, 1000);
+  const driverItems = useMemo(
+    () => bounds ? getDriverMapItems(clusterIndex, driversWithLocation, bounds, zoom) : [],
+    [clusterIndex, driversWithLocation, bounds, zoom]
+  );
 
-    return () => clearTimeout(timer);
-  }, []);
+  const handleMove = (event: ViewStateChangeEvent) => {
+    setCenter({
+      latitude: event.viewState.latitude,
+      longitude: event.viewState.longitude
+    });
+    setZoom(event.viewState.zoom);
+  };
 
-  const getDriverStatusColor = (status: DriverStatus) => {
-    switch (status) {
-      case DriverStatus.AVAILABLE:
-        return '#10B981'; // green
-      case DriverStatus.BUSY:
-      case DriverStatus.EN_ROUTE:
-        return '#F59E0B'; // orange
-      case DriverStatus.BREAK:
-        return '#6B7280'; // gray
-      case DriverStatus.MAINTENANCE:
-        return '#EF4444'; // red
-      default:
-        return '#6B7280'; // gray
+  const updateBounds = (event: { target: { getBounds: () => LngLatBounds | null } }) => {
+    const mapBounds = event.target.getBounds();
+    if (mapBounds) {
+      setBounds([
+        mapBounds.getWest(),
+        mapBounds.getSouth(),
+        mapBounds.getEast(),
+        mapBounds.getNorth()
+      ]);
     }
   };
 
   const handleDriverClick = (driver: Driver) => {
     setSelectedDriver(driver);
     if (driver.currentLocation) {
-      setCenter({
-        lat: driver.currentLocation.coordinates.latitude,
-        lng: driver.currentLocation.coordinates.longitude
-      });
+      setCenter(driver.currentLocation.coordinates);
     }
   };
 
+  const handleClusterClick = (clusterId: number, coordinates: Coordinates) => {
+    setCenter(coordinates);
+    setZoom(getClusterExpansionZoom(clusterIndex, clusterId));
+  };
+
   const handleRecenter = () => {
-    if (driversWithLocation.length > 0) {
-      // Calculate center based on all driver locations
-      const avgLat = driversWithLocation.reduce((sum, driver) =>
-        sum + driver.currentLocation!.coordinates.latitude, 0) / driversWithLocation.length;
-      const avgLng = driversWithLocation.reduce((sum, driver) =>
-        sum + driver.currentLocation!.coordinates.longitude, 0) / driversWithLocation.length;
+    // Calculate center based on all driver locations
+    const driversCenter = getCentroid(
+      driversWithLocation.map(driver => driver.currentLocation!.coordinates)
+    );
 
-      setCenter({ lat: avgLat, lng: avgLng });
+    if (driversCenter) {
+      setCenter(driversCenter);
       setZoom(12);
     }
   };
@@ -101,91 +127,99 @@ export function DriversMap({ drivers, isLoading }: DriversMapProps) {
   return (
     <div className="relative h-96 bg-gray-100 rounded-lg overflow-hidden">
       {/* Map Container */}
-      <div ref={mapRef} className="w-full h-full relative">
-        {!mapLoaded ? (
-          <div className="flex items-center justify-center h-full">
+      <div className="w-full h-full relative">
+        <Map
+          longitude={center.longitude}
+          latitude={center.latitude}
+          zoom={zoom}
+          minZoom={MIN_MAP_ZOOM}
+          maxZoom={MAX_MAP_ZOOM}
+          onMove={handleMove}
+          onMoveEnd={updateBounds}
+          onLoad={(event) => {
+            updateBounds(event);
+            setMapLoaded(true);
+          }}
+          mapStyle={mapStyle}
+          mapboxAccessToken={MAPBOX_TOKEN}
+          style={{ width: '100%', height: '100%' }}
+        >
+          {/* Driver Markers and Clusters */}
+          {driverItems.map((item) => item.kind === 'cluster' ? (
+            <Marker
+              key={`cluster-${item.clusterId}`}
+              longitude={item.coordinates.longitude}
+              latitude={item.coordinates.latitude}
+              anchor="center"
+            >
+              <DriverClusterMarker
+                count={item.count}
+                statusCounts={item.statusCounts}
+                onClick={() => handleClusterClick(item.clusterId, item.coordinates)}
+              />
+            </Marker>
+          ) : (
+            <Marker
+              key={item.driver.id}
+              longitude={item.coordinates.longitude}
+              latitude={item.coordinates.latitude}
+              anchor="center"
+            >
+              <button
+                onClick={() => handleDriverClick(item.driver)}
+                className={cn(
+                  'transition-transform duration-200',
+                  'hover:scale-110 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2',
+                  selectedDriver?.id === item.driver.id && 'scale-125'
+                )}
+              >
+                <div className="relative">
+                  <div
+                    className="w-8 h-8 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
+                    style={{ backgroundColor: getDriverMarkerColor(item.driver.status) }}
+                  >
+                    <Car className="h-4 w-4 text-white" />
+                  </div>
+                  {/* Pulse animation for available drivers */}
+                  {item.driver.status === DriverStatus.AVAILABLE && (
+                    <div
+                      className="absolute inset-0 rounded-full animate-ping opacity-40"
+                      style={{ backgroundColor: getDriverMarkerColor(item.driver.status) }}
+                    />
+                  )}
+                </div>
+              </button>
+            </Marker>
+          ))}
+        </Map>
+
+        {!mapLoaded && (
+          <div className="absolute inset-0 flex items-center justify-center bg-gray-100">
             <div className="text-center">
               <MapPin className="h-12 w-12 text-gray-400 mx-auto mb-4" />
               <p className="text-gray-600">Loading map...</p>
             </div>
           </div>
-        ) : (
-          <>
-            {/* Simulated Map Background */}
-            <div className="w-full h-full bg-gradient-to-br from-blue-100 to-green-100 relative">
-              {/* Grid lines to simulate map */}
-              <div className="absolute inset-0 opacity-20">
-                {[...Array(10)].map((_, i) => (
-                  <div
-                    key={`h-${i}`}
-                    className="absolute w-full border-t border-gray-400"
-                    style={{ top: `${i * 10}%` }}
-                  />
-                ))}
-                {[...Array(10)].map((_, i) => (
-                  <div
-                    key={`v-${i}`}
-                    className="absolute h-full border-l border-gray-400"
-                    style={{ left: `${i * 10}%` }}
-                  />
-                ))}
-              </div>
-
-              {/* Driver Markers */}
-              {driversWithLocation.map((driver, index) => (
-                <button
-                  key={driver.id}
-                  onClick={() => handleDriverClick(driver)}
-                  className={cn(
-                    'absolute transform -translate-x-1/2 -translate-y-1/2 transition-all duration-200',
-                    'hover:scale-110 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2',
-                    selectedDriver?.id === driver.id && 'scale-125 z-10'
-                  )}
-                  style={{
-                    left: `${20 + (index % 6) * 12}%`,
-                    top: `${20 + Math.floor(index / 6) * 15}%`
-                  }}
-                >
-                  <div className="relative">
-                    <div
-                      className="w-8 h-8 rounded-full border-2 border-white shadow-lg flex items-center justify-center"
-                      style={{ backgroundColor: getDriverStatusColor(driver.status) }}
-                    >
-                      <Car className="h-4 w-4 text-white" />
-                    </div>
-                    {/* Pulse animation for available drivers */}
-                    {driver.status === DriverStatus.AVAILABLE && (
-                      <div
-                        className="absolute inset-0 rounded-full animate-ping"
-                        style={{ backgroundColor: getDriverStatusColor(driver.status) }}
-                        opacity={0.4}
-                      />
-                    )}
-                  </div>
-                </button>
-              ))}
+        )}
 
-              {/* No drivers message */}
-              {driversWithLocation.length === 0 && (
-                <div className="absolute inset-0 flex items-center justify-center">
-                  <div className="text-center bg-white rounded-lg p-6 shadow-lg">
-                    <MapPin className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-                    <h3 className="text-lg font-medium text-gray-900 mb-2">No Drivers on Map</h3>
-                    <p className="text-gray-600">No online drivers with location data available.</p>
-                  </div>
-                </div>
-              )}
+        {/* No drivers message */}
+        {mapLoaded && driversWithLocation.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="text-center bg-white rounded-lg p-6 shadow-lg">
+              <MapPin className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No Drivers on Map</h3>
+              <p className="text-gray-600">No online drivers with location data available.</p>
             </div>
-          </>
+          </div>
         )}
       </div>
 
       {/* Map Controls */}
       <div className="absolute top-4 right-4 flex flex-col gap-2">
-        <Button variant="outline" size="sm" onClick={() => setZoom(Math.min(20, zoom + 1))}>
+        <Button variant="outline" size="sm" onClick={() => setZoom(Math.min(MAX_MAP_ZOOM, zoom + 1))}>
           <ZoomIn className="h-4 w-4" />
         </Button>
-        <Button variant="outline" size="sm" onClick={() => setZoom(Math.max(1, zoom - 1))}>
+        <Button variant="outline" size="sm" onClick={() => setZoom(Math.max(MIN_MAP_ZOOM, zoom - 1))}>
           <ZoomOut className="h-4 w-4" />
         </Button>
         <Button variant="outline" size="sm" onClick={handleRecenter}>
@@ -241,8 +275,8 @@ export function DriversMap({ drivers, isLoading }: DriversMapProps) {
                       <Badge
                         variant="secondary"
                         style={{
-                          backgroundColor: `${getDriverStatusColor(selectedDriver.status)}20`,
-                          color: getDriverStatusColor(selectedDriver.status)
+                          backgroundColor: `${getDriverMarkerColor(selectedDriver.status)}20`,
+                          color: getDriverMarkerColor(selectedDriver.status)
                         }}
                       >
                         {selectedDriver.status.replace('_', ' ').toLowerCase()}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
 import { useAlertStore } from '@/store';
 import { useWebSocket } from '@/services/websocket';
@@ -17,6 +18,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
   Bell,
+  BellRing,
   Settings,
   LogOut,
   User,
@@ -28,12 +30,14 @@ import {
 } from 'lucide-react';
 import { getInitials, formatRelativeTime } from '@/lib/utils';
 import { TenantSelector } from '@/components/auth/tenant-selector';
+import { DoNotDisturbToggle, NotificationSettings } from './notification-settings';
 
 export function Header() {
   const { user, currentTenant, availableTenants, signOut, switchTenant } = useAuth();
   const { alerts, unreadCount } = useAlertStore();
   const { isConnected } = useWebSocket();
   const [showTenantSelector, setShowTenantSelector] = useState(false);
+  const [showNotificationSettings, setShowNotificationSettings] = useState(false);
 
   const handleSignOut = async () => {
     try {
@@ -121,6 +125,8 @@ export function Header() {
           </DropdownMenu>
         )}
 
+        <DoNotDisturbToggle />
+
         {/* Alerts */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -182,10 +188,10 @@ export function Header() {
                   </DropdownMenuItem>
                 ))}
                 <DropdownMenuSeparator />
-                <DropdownMenuItem className="text-center text-sm text-muted-foreground">
-                  <Button variant="ghost" size="sm" className="w-full">
+                <DropdownMenuItem className="text-center text-sm text-muted-foreground" asChild>
+                  <Link href="/alerts" className="w-full justify-center">
                     View all alerts
-                  </Button>
+                  </Link>
                 </DropdownMenuItem>
               </div>
             ) : (
@@ -229,6 +235,11 @@ export function Header() {
               <span>Profile</span>
             </DropdownMenuItem>
 
+            <DropdownMenuItem onClick={() => setShowNotificationSettings(true)}>
+              <BellRing className="mr-2 h-4 w-4" />
+              <span>Notifications</span>
+            </DropdownMenuItem>
+
             <DropdownMenuItem>
               <Settings className="mr-2 h-4 w-4" />
               <span>Settings</span>
@@ -243,6 +254,8 @@ export function Header() {
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      <NotificationSettings open={showNotificationSettings} onOpenChange={setShowNotificationSettings} />
     </header>
   );
 }
@@ -3,6 +3,10 @@
 import React, { useEffect, ReactNode } from 'react';
 import { useAuth, withAuth } from '@/lib/auth-context';
 import { useWebSocket } from '@/services/websocket';
+import { routeDeviationMonitor } from '@/services/route-deviation';
+import { autoDispatcher } from '@/services/auto-dispatch';
+import { alertEscalationMonitor } from '@/services/alert-escalation';
+import { tripDelayMonitor } from '@/services/trip-delay';
 import { Sidebar } from './sidebar';
 import { Header } from './header';
 import { Notifications } from './notifications';
@@ -16,7 +20,7 @@ interface MainLayoutProps {
 function MainLayoutComponent({ children }: MainLayoutProps) {
   const { currentTenant, user, accessToken } = useAuth();
   const { connect } = useWebSocket();
-  const { sidebarCollapsed } = useUIStore();
+  const { sidebarCollapsed, loadNotificationPreferences } = useUIStore();
 
   // Initialize WebSocket connection when user and tenant are available
   useEffect(() => {
@@ -29,6 +33,33 @@ function MainLayoutComponent({ children }: MainLayoutProps) {
     }
   }, [user, currentTenant, accessToken, connect]);
 
+  // Notification preferences are per user
+  useEffect(() => {
+    if (user) {
+      loadNotificationPreferences(user.id);
+    }
+  }, [user?.id, loadNotificationPreferences]);
+
+  // Keep route deviation thresholds, auto-dispatch and alert escalation in sync with the tenant's settings
+  useEffect(() => {
+    if (currentTenant) {
+      routeDeviationMonitor.configure(currentTenant.id, currentTenant.settings.routeDeviation);
+      tripDelayMonitor.configure(currentTenant.id, currentTenant.settings.tripDelay);
+      autoDispatcher.configure(
+        currentTenant.id,
+        currentTenant.settings.autoDispatch,
+        currentTenant.settings.autoDispatchSettings
+      );
+      alertEscalationMonitor.configure(
+        currentTenant.id,
+        currentTenant.settings.escalationPolicies,
+        user?.role
+      );
+    }
+
+    return () => tripDelayMonitor.stop();
+  }, [currentTenant, user?.role]);
+
   return (
     <div className="h-screen flex bg-background">
       {/* Sidebar */}
@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertSeverity, MessageType } from '@/types';
+import { useUIStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Bell, BellOff, Moon, Volume2 } from 'lucide-react';
+import {
+  NOTIFIABLE_MESSAGE_TYPES,
+  isDesktopNotificationSupported,
+  isWithinQuietHours,
+  playNotificationSound,
+  requestDesktopPermission
+} from '@/lib/notifications';
+
+interface NotificationSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SEVERITY_PREVIEWS = [
+  AlertSeverity.LOW,
+  AlertSeverity.MEDIUM,
+  AlertSeverity.HIGH,
+  AlertSeverity.CRITICAL
+];
+
+/**
+ * Per-user preferences for desktop and audible notifications
+ */
+export function NotificationSettings({ open, onOpenChange }: NotificationSettingsProps) {
+  const { notificationPreferences: preferences, setNotificationPreferences } = useUIStore();
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+
+  useEffect(() => {
+    if (open) {
+      setPermission(isDesktopNotificationSupported() ? window.Notification.permission : 'unsupported');
+    }
+  }, [open]);
+
+  const handleDesktopChange = async (enabled: boolean) => {
+    if (enabled && permission === 'default') {
+      setPermission(await requestDesktopPermission());
+    }
+    setNotificationPreferences({ desktop: enabled });
+  };
+
+  const toggleMessageType = (type: MessageType, enabled: boolean) => {
+    setNotificationPreferences({
+      messageTypes: enabled
+        ? [...preferences.messageTypes, type]
+        : preferences.messageTypes.filter(item => item !== type)
+    });
+  };
+
+  const quietNow = preferences.doNotDisturb || isWithinQuietHours(preferences);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notification Settings
+          </DialogTitle>
+          <DialogDescription>
+            Get alerted while the console is in a background tab. In-app notifications always show.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Delivery */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  id="notify-desktop"
+                  checked={preferences.desktop}
+                  disabled={permission === 'unsupported'}
+                  onChange={(e) => handleDesktopChange(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                <label htmlFor="notify-desktop" className="text-sm text-gray-700">
+                  Desktop notifications
+                </label>
+              </div>
+              {permission === 'denied' && (
+                <Badge variant="destructive" className="text-xs">Blocked in browser settings</Badge>
+              )}
+              {permission === 'unsupported' && (
+                <Badge variant="secondary" className="text-xs">Not supported in this browser</Badge>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="notify-sound"
+                checked={preferences.sound}
+                onChange={(e) => setNotificationPreferences({ sound: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <label htmlFor="notify-sound" className="text-sm text-gray-700">
+                Play sounds
+              </label>
+            </div>
+
+            {preferences.sound && (
+              <div className="flex flex-wrap items-center gap-2 pl-6">
+                <span className="text-xs text-gray-500">Preview:</span>
+                {SEVERITY_PREVIEWS.map(severity => (
+                  <Button
+                    key={severity}
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs capitalize"
+                    onClick={() => playNotificationSound(severity)}
+                  >
+                    <Volume2 className="h-3 w-3 mr-1" />
+                    {severity}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Events */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Notify me about</h4>
+            {NOTIFIABLE_MESSAGE_TYPES.map(({ type, label, description }) => (
+              <div key={type} className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  id={`notify-${type}`}
+                  checked={preferences.messageTypes.includes(type)}
+                  onChange={(e) => toggleMessageType(type, e.target.checked)}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <label htmlFor={`notify-${type}`} className="text-sm text-gray-700">
+                  {label}
+                  <span className="block text-xs text-gray-500">{description}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+
+          {/* Quiet hours */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900 flex items-center gap-2">
+              <Moon className="h-4 w-4" />
+              Quiet hours
+              {quietNow && <Badge variant="secondary" className="text-xs">Quiet now</Badge>}
+            </h4>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="notify-dnd"
+                checked={preferences.doNotDisturb}
+                onChange={(e) => setNotificationPreferences({ doNotDisturb: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <label htmlFor="notify-dnd" className="text-sm text-gray-700">
+                Do not disturb
+              </label>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="notify-quiet-hours"
+                checked={preferences.quietHours.enabled}
+                onChange={(e) => setNotificationPreferences({
+                  quietHours: { ...preferences.quietHours, enabled: e.target.checked }
+                })}
+                className="rounded border-gray-300"
+              />
+              <label htmlFor="notify-quiet-hours" className="text-sm text-gray-700">
+                Every day from
+              </label>
+              <Input
+                type="time"
+                value={preferences.quietHours.start}
+                disabled={!preferences.quietHours.enabled}
+                onChange={(e) => setNotificationPreferences({
+                  quietHours: { ...preferences.quietHours, start: e.target.value }
+                })}
+                className="w-28 h-8"
+              />
+              <span className="text-sm text-gray-700">to</span>
+              <Input
+                type="time"
+                value={preferences.quietHours.end}
+                disabled={!preferences.quietHours.enabled}
+                onChange={(e) => setNotificationPreferences({
+                  quietHours: { ...preferences.quietHours, end: e.target.value }
+                })}
+                className="w-28 h-8"
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="notify-critical-override"
+                checked={preferences.criticalOverridesQuiet}
+                onChange={(e) => setNotificationPreferences({ criticalOverridesQuiet: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              <label htmlFor="notify-critical-override" className="text-sm text-gray-700">
+                Critical alerts still sound and notify while quiet
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Bell in the header that shows and toggles do not disturb
+ */
+export function DoNotDisturbToggle() {
+  const { notificationPreferences, setNotificationPreferences } = useUIStore();
+  const { doNotDisturb } = notificationPreferences;
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      title={doNotDisturb ? 'Do not disturb is on' : 'Turn on do not disturb'}
+      onClick={() => setNotificationPreferences({ doNotDisturb: !doNotDisturb })}
+    >
+      {doNotDisturb ? <BellOff className="h-4 w-4 text-orange-600" /> : <Volume2 className="h-4 w-4" />}
+    </Button>
+  );
+}
+
+export default NotificationSettings;
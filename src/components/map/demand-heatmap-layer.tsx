@@ -0,0 +1,82 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Layer, Source } from 'react-map-gl';
+import { DemandCell, buildDemandCellsGeoJSON, buildSupplyDensityGeoJSON } from '@/lib/demand';
+
+export const DEMAND_CELLS_LAYER_ID = 'demand-cells';
+
+interface DemandHeatmapLayerProps {
+  cells: DemandCell[];
+  showSupply?: boolean;
+  gapsOnly?: boolean;
+  selectedCellId?: string | null;
+}
+
+export function DemandHeatmapLayer({
+  cells,
+  showSupply = true,
+  gapsOnly = false,
+  selectedCellId = null
+}: DemandHeatmapLayerProps) {
+  const visibleCells = useMemo(
+    () => gapsOnly ? cells.filter(cell => cell.undersupplied) : cells.filter(cell => cell.demand > 0),
+    [cells, gapsOnly]
+  );
+  const cellsData = useMemo(() => buildDemandCellsGeoJSON(visibleCells), [visibleCells]);
+  const supplyData = useMemo(() => buildSupplyDensityGeoJSON(cells), [cells]);
+
+  return (
+    <>
+      {/* Demand Cells */}
+      <Source id="demand-cells" type="geojson" data={cellsData}>
+        <Layer
+          id={DEMAND_CELLS_LAYER_ID}
+          type="fill"
+          paint={{
+            'fill-color': [
+              'interpolate', ['linear'], ['get', 'intensity'],
+              0, '#FEF3C7',
+              0.5, '#F97316',
+              1, '#B91C1C'
+            ],
+            'fill-opacity': ['interpolate', ['linear'], ['get', 'intensity'], 0, 0.15, 1, 0.55]
+          }}
+        />
+        <Layer
+          id="demand-cell-outlines"
+          type="line"
+          paint={{
+            'line-color': ['case', ['get', 'undersupplied'], '#DC2626', '#FFFFFF'],
+            'line-width': [
+              'case',
+              ['==', ['get', 'cellId'], selectedCellId || ''], 4,
+              ['get', 'undersupplied'], 2.5,
+              0.5
+            ],
+            'line-opacity': 0.9
+          }}
+        />
+      </Source>
+
+      {/* Current Driver Density */}
+      {showSupply && (
+        <Source id="supply-density" type="geojson" data={supplyData}>
+          <Layer
+            id="supply-density"
+            type="circle"
+            paint={{
+              'circle-radius': ['interpolate', ['linear'], ['get', 'supply'], 1, 4, 10, 14],
+              'circle-color': '#2563EB',
+              'circle-opacity': 0.35,
+              'circle-stroke-color': '#1D4ED8',
+              'circle-stroke-width': 1
+            }}
+          />
+        </Source>
+      )}
+    </>
+  );
+}
+
+export default DemandHeatmapLayer;
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import { DriverStatus } from '@/types';
+import { DriverStatusCounts } from '@/lib/clustering';
+import { getDriverMarkerColor } from '@/lib/map';
+
+interface DriverClusterMarkerProps {
+  count: number;
+  statusCounts: DriverStatusCounts;
+  onClick: () => void;
+}
+
+export function DriverClusterMarker({ count, statusCounts, onClick }: DriverClusterMarkerProps) {
+  const segments = Object.values(DriverStatus).filter(status => statusCounts[status] > 0);
+
+  // Build a conic gradient ring whose arcs are proportional to each status count
+  let offset = 0;
+  const gradient = segments.map(status => {
+    const start = offset;
+    offset += (statusCounts[status] / count) * 360;
+    return `${getDriverMarkerColor(status)} ${start}deg ${offset}deg`;
+  }).join(', ');
+
+  const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+
+  const breakdown = segments
+    .map(status => `${status.replace('_', ' ')}: ${statusCounts[status]}`)
+    .join('\n');
+
+  return (
+    <button
+      onClick={onClick}
+      className="group relative hover:scale-110 transition-transform duration-200"
+      title={`${count} drivers\n${breakdown}`}
+    >
+      <div
+        className="rounded-full shadow-lg flex items-center justify-center"
+        style={{
+          width: size,
+          height: size,
+          background: `conic-gradient(${gradient})`
+        }}
+      >
+        <div
+          className="rounded-full bg-white flex items-center justify-center text-xs font-bold text-gray-900"
+          style={{ width: size - 10, height: size - 10 }}
+        >
+          {count}
+        </div>
+      </div>
+
+      {/* Status breakdown on hover */}
+      <div className="absolute left-1/2 top-full mt-1 -translate-x-1/2 hidden group-hover:block bg-white rounded-md shadow-lg p-2 z-10 whitespace-nowrap">
+        {segments.map(status => (
+          <div key={status} className="flex items-center gap-2 text-xs text-gray-700">
+            <div
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: getDriverMarkerColor(status) }}
+            />
+            <span className="capitalize">{status.replace('_', ' ')}</span>
+            <span className="ml-auto font-medium">{statusCounts[status]}</span>
+          </div>
+        ))}
+      </div>
+    </button>
+  );
+}
+
+export default DriverClusterMarker;
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Layer, Marker, Source } from 'react-map-gl';
+import { Coordinates, RoutePoint, Trip } from '@/types';
+import { api } from '@/services/api';
+import { routeDeviationMonitor } from '@/services/route-deviation';
+import { bearingDegrees, splitTrailByDeviation } from '@/lib/geo';
+import { isTripActive, isValidCoordinates, toLngLat } from '@/lib/map';
+import { Navigation2 } from 'lucide-react';
+
+// Tracking configuration
+const TRACKING_REFRESH_INTERVAL = 15000; // 15 seconds
+
+interface TripRouteOverlayProps {
+  trip: Trip;
+  corridorMeters?: number;
+}
+
+const toMultiLineString = (lines: Coordinates[][]): GeoJSON.Feature<GeoJSON.MultiLineString> => ({
+  type: 'Feature',
+  properties: {},
+  geometry: {
+    type: 'MultiLineString',
+    coordinates: lines.map(line => line.map(toLngLat))
+  }
+});
+
+export function TripRouteOverlay({
+  trip,
+  corridorMeters = routeDeviationMonitor.getSettings().corridorMeters
+}: TripRouteOverlayProps) {
+  const [plannedRoute, setPlannedRoute] = useState<Coordinates[]>([]);
+  const [trail, setTrail] = useState<RoutePoint[]>(trip.route || []);
+  const [driverLocation, setDriverLocation] = useState<Coordinates | null>(null);
+
+  // Load the planned route whenever the selected trip changes
+  useEffect(() => {
+    let cancelled = false;
+    setPlannedRoute([]);
+
+    const loadPlannedRoute = async () => {
+      if (!isValidCoordinates(trip.pickup.coordinates) || !isValidCoordinates(trip.destination.coordinates)) {
+        return;
+      }
+
+      try {
+        const response = await api.geo.calculateRoute(
+          trip.pickup.coordinates,
+          trip.destination.coordinates,
+          trip.waypoints?.map(waypoint => waypoint.coordinates)
+        );
+
+        if (!cancelled && response.success && response.data) {
+          setPlannedRoute(response.data.route);
+        }
+      } catch (error) {
+        console.error('Failed to calculate planned route:', error);
+      }
+    };
+
+    loadPlannedRoute();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trip.id]);
+
+  // Poll the breadcrumb trail while the trip is in progress
+  useEffect(() => {
+    let cancelled = false;
+    setTrail(trip.route || []);
+    setDriverLocation(null);
+
+    const loadTracking = async () => {
+      try {
+        const response = await api.tracking.getTripTracking(trip.id);
+
+        if (!cancelled && response.success && response.data) {
+          const { route, driverLocation } = response.data;
+          if (route.length > 0) {
+            setTrail(route.map(point => ({
+              coordinates: { latitude: point.latitude, longitude: point.longitude },
+              timestamp: new Date(point.timestamp)
+            })));
+          }
+          setDriverLocation(driverLocation || null);
+        }
+      } catch (error) {
+        console.error('Failed to load trip tracking:', error);
+      }
+    };
+
+    loadTracking();
+    const interval = isTripActive(trip) ? setInterval(loadTracking, TRACKING_REFRESH_INTERVAL) : null;
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [trip.id, trip.status]);
+
+  // Route points pushed through trip_update messages take effect immediately
+  useEffect(() => {
+    if (trip.route && trip.route.length > trail.length) {
+      setTrail(trip.route);
+    }
+  }, [trip.route]);
+
+  const trailCoordinates = useMemo(
+    () => trail.map(point => point.coordinates).filter(isValidCoordinates),
+    [trail]
+  );
+
+  const segments = useMemo(
+    () => splitTrailByDeviation(trailCoordinates, plannedRoute, corridorMeters),
+    [trailCoordinates, plannedRoute, corridorMeters]
+  );
+
+  // Current position and heading, preferring live tracking over the last breadcrumb
+  const lastPoint = trail[trail.length - 1];
+  const position = driverLocation
+    || trip.driver?.currentLocation?.coordinates
+    || lastPoint?.coordinates;
+
+  const heading = lastPoint?.heading ?? (
+    trailCoordinates.length >= 2
+      ? bearingDegrees(trailCoordinates[trailCoordinates.length - 2], trailCoordinates[trailCoordinates.length - 1])
+      : undefined
+  );
+
+  return (
+    <>
+      {/* Planned Route */}
+      {plannedRoute.length >= 2 && (
+        <Source id="planned-route" type="geojson" data={toMultiLineString([plannedRoute])}>
+          <Layer
+            id="planned-route"
+            type="line"
+            layout={{ 'line-cap': 'round', 'line-join': 'round' }}
+            paint={{
+              'line-color': '#3B82F6',
+              'line-width': 5,
+              'line-opacity': 0.35
+            }}
+          />
+        </Source>
+      )}
+
+      {/* Breadcrumb Trail */}
+      {segments.onRoute.length > 0 && (
+        <Source id="trail-on-route" type="geojson" data={toMultiLineString(segments.onRoute)}>
+          <Layer
+            id="trail-on-route"
+            type="line"
+            layout={{ 'line-cap': 'round', 'line-join': 'round' }}
+            paint={{
+              'line-color': '#1D4ED8',
+              'line-width': 3
+            }}
+          />
+        </Source>
+      )}
+
+      {/* Deviation Highlight */}
+      {segments.offRoute.length > 0 && (
+        <Source id="trail-off-route" type="geojson" data={toMultiLineString(segments.offRoute)}>
+          <Layer
+            id="trail-off-route"
+            type="line"
+            layout={{ 'line-cap': 'round', 'line-join': 'round' }}
+            paint={{
+              'line-color': '#EF4444',
+              'line-width': 4
+            }}
+          />
+        </Source>
+      )}
+
+      {/* Driver Heading */}
+      {isValidCoordinates(position) && (
+        <Marker
+          longitude={position.longitude}
+          latitude={position.latitude}
+          anchor="center"
+          rotation={heading ?? 0}
+          rotationAlignment="map"
+        >
+          <div
+            className="w-7 h-7 rounded-full bg-blue-700 border-2 border-white shadow-lg flex items-center justify-center"
+            title={heading !== undefined ? `Heading ${Math.round(heading)}°` : 'Heading unknown'}
+          >
+            <Navigation2 className="h-4 w-4 text-white fill-current" />
+          </div>
+        </Marker>
+      )}
+    </>
+  );
+}
+
+export default TripRouteOverlay;
@@ -0,0 +1,423 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Rider, Trip, TripStatus } from '@/types';
+import { useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  CreditCard,
+  Crown,
+  Edit,
+  Loader2,
+  Mail,
+  Phone,
+  ShieldAlert,
+  Star
+} from 'lucide-react';
+import { RiderForm, describePaymentMethod } from './rider-form';
+import { SavedPlacesEditor } from './saved-places-editor';
+import { formatTripStatus } from '@/lib/trip-status';
+import { resolveRouteParam } from '@/lib/routes';
+import { getTimeRange, TIME_RANGE_PRESETS, TimeRangePreset } from '@/lib/time-ranges';
+import { formatCurrency, formatPhoneNumber, getAvatarColor, getInitials, cn } from '@/lib/utils';
+
+const TRIP_HISTORY_PAGE_SIZE = 10;
+
+interface RiderDetailProps {
+  riderId: string;
+}
+
+interface RiderSpend {
+  completedTrips: number;
+  cancelledTrips: number;
+  totalSpend: number;
+  averageFare: number;
+  totalDiscounts: number;
+}
+
+/**
+ * Spend totals over a rider's trips; only completed trips count towards spend
+ */
+function summarizeSpend(trips: Trip[]): RiderSpend {
+  const completed = trips.filter(trip => trip.status === TripStatus.COMPLETED);
+  const totalSpend = completed.reduce((sum, trip) => sum + (trip.actualFare ?? trip.estimatedFare), 0);
+
+  return {
+    completedTrips: completed.length,
+    cancelledTrips: trips.filter(trip => trip.status === TripStatus.CANCELLED || trip.status === TripStatus.NO_SHOW).length,
+    totalSpend,
+    averageFare: completed.length > 0 ? totalSpend / completed.length : 0,
+    totalDiscounts: completed.reduce((sum, trip) => sum + (trip.discount || 0), 0)
+  };
+}
+
+export function RiderDetail({ riderId }: RiderDetailProps) {
+  const { addNotification } = useUIStore();
+  const { currentTenant } = useAuth();
+
+  const [resolvedId, setResolvedId] = useState<string | null>(null);
+  const [rider, setRider] = useState<Rider | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [preset, setPreset] = useState<TimeRangePreset | 'all'>('all');
+  const [trips, setTrips] = useState<Trip[]>([]);
+  const [isTripsLoading, setIsTripsLoading] = useState(false);
+  const [historyPage, setHistoryPage] = useState(1);
+
+  const currency = currentTenant?.settings.currency;
+
+  // The static shell page carries a placeholder id, so read the real one from the URL
+  useEffect(() => {
+    setResolvedId(resolveRouteParam(riderId));
+  }, [riderId]);
+
+  useEffect(() => {
+    if (resolvedId) {
+      loadRider(resolvedId);
+    } else {
+      setIsLoading(false);
+    }
+  }, [resolvedId]);
+
+  useEffect(() => {
+    if (resolvedId) loadTrips(resolvedId);
+  }, [resolvedId, preset]);
+
+  const loadRider = async (id: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await api.riders.getRiderById(id);
+      if (response.success && response.data) {
+        setRider(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load rider:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load rider details. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadTrips = async (id: string) => {
+    setIsTripsLoading(true);
+
+    try {
+      const response = await api.riders.getRiderTrips(id, preset === 'all' ? undefined : getTimeRange(preset));
+      if (response.success && response.data) {
+        setTrips(
+          [...response.data].sort((a, b) => new Date(b.requestedAt).getTime() - new Date(a.requestedAt).getTime())
+        );
+        setHistoryPage(1);
+      }
+    } catch (error) {
+      console.error('Failed to load rider trips:', error);
+    } finally {
+      setIsTripsLoading(false);
+    }
+  };
+
+  const handleRiderUpdated = (updated: Rider) => {
+    setRider(updated);
+    setShowEditDialog(false);
+    addNotification({
+      type: 'success',
+      title: 'Rider Updated',
+      message: `${updated.firstName} ${updated.lastName}'s profile has been saved.`,
+      duration: 3000
+    });
+  };
+
+  const spend = useMemo(() => summarizeSpend(trips), [trips]);
+  const totalPages = Math.max(1, Math.ceil(trips.length / TRIP_HISTORY_PAGE_SIZE));
+  const pageTrips = trips.slice((historyPage - 1) * TRIP_HISTORY_PAGE_SIZE, historyPage * TRIP_HISTORY_PAGE_SIZE);
+
+  if (isLoading && !rider) {
+    return (
+      <div className="p-6 flex items-center justify-center h-64">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!rider) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link href="/riders" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4" />
+          Riders
+        </Link>
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            Rider was not found.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const paymentMethods = rider.paymentMethods || (rider.defaultPaymentMethod ? [rider.defaultPaymentMethod] : []);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/riders" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft className="h-4 w-4" />
+            Riders
+          </Link>
+          <div className="flex items-center gap-3">
+            <Avatar className="h-12 w-12">
+              <AvatarFallback
+                style={{ backgroundColor: getAvatarColor(rider.id) }}
+                className="text-white"
+              >
+                {getInitials(rider.firstName, rider.lastName)}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+                {rider.firstName} {rider.lastName}
+                {rider.isVip && (
+                  <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                    <Crown className="h-3 w-3 mr-1" />
+                    VIP
+                  </Badge>
+                )}
+              </h1>
+              <p className="text-gray-600 flex items-center gap-3 text-sm">
+                <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{formatPhoneNumber(rider.phone)}</span>
+                {rider.email && <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{rider.email}</span>}
+                {rider.rating !== undefined && (
+                  <span className="flex items-center gap-1"><Star className="h-3 w-3 text-yellow-500" />{rider.rating.toFixed(1)}</span>
+                )}
+                <span>Rider since {format(new Date(rider.createdAt), 'MMM yyyy')}</span>
+              </p>
+            </div>
+          </div>
+        </div>
+        <Button onClick={() => setShowEditDialog(true)}>
+          <Edit className="h-4 w-4 mr-2" />
+          Edit Profile
+        </Button>
+      </div>
+
+      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <RiderForm
+            rider={rider}
+            onSuccess={handleRiderUpdated}
+            onCancel={() => setShowEditDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Trip History */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">Trip History</CardTitle>
+                <Select value={preset} onValueChange={(value) => setPreset(value as TimeRangePreset | 'all')}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All time</SelectItem>
+                    {TIME_RANGE_PRESETS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Spend Totals */}
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {[
+                  { label: 'Completed', value: spend.completedTrips.toString() },
+                  { label: 'Cancelled / no-show', value: spend.cancelledTrips.toString() },
+                  { label: 'Total spend', value: formatCurrency(spend.totalSpend, currency) },
+                  { label: 'Average fare', value: formatCurrency(spend.averageFare, currency) },
+                  { label: 'Discounts', value: formatCurrency(spend.totalDiscounts, currency) }
+                ].map(kpi => (
+                  <div key={kpi.label} className="p-3 rounded border bg-gray-50">
+                    <p className="text-xs text-gray-500">{kpi.label}</p>
+                    <p className="text-lg font-semibold">{kpi.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              {isTripsLoading && trips.length === 0 ? (
+                <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+              ) : trips.length === 0 ? (
+                <p className="text-sm text-gray-500">No trips in this period.</p>
+              ) : (
+                <div className={cn('divide-y', isTripsLoading && 'opacity-50')}>
+                  {pageTrips.map(trip => (
+                    <Link
+                      key={trip.id}
+                      href={`/trips/${trip.id}`}
+                      className="flex items-center justify-between gap-3 py-2 text-sm hover:bg-gray-50"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-medium">
+                          #{trip.id.slice(-6).toUpperCase()}
+                          {trip.driver && ` • ${trip.driver.firstName} ${trip.driver.lastName}`}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {trip.pickup.address} → {trip.destination.address}
+                        </p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <Badge variant="outline" className="capitalize">{formatTripStatus(trip.status)}</Badge>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {format(new Date(trip.requestedAt), 'MMM d, h:mm a')} • {formatCurrency(trip.actualFare ?? trip.estimatedFare, currency)}
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+
+              {totalPages > 1 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">
+                    Page {historyPage} of {totalPages}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={historyPage <= 1}
+                      onClick={() => setHistoryPage(page => page - 1)}
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={historyPage >= totalPages}
+                      onClick={() => setHistoryPage(page => page + 1)}
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Accessibility and Notes */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Profile</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Accessibility needs</p>
+                {rider.accessibilityNeeds && rider.accessibilityNeeds.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {rider.accessibilityNeeds.map(need => (
+                      <Badge key={need} variant="outline" className="capitalize">
+                        {need.replace(/_/g, ' ')}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-400">None</p>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Notes</p>
+                <p className={cn('whitespace-pre-wrap', !rider.notes && 'text-gray-400')}>{rider.notes || 'None'}</p>
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Lifetime trips</p>
+                <p>{rider.totalTrips}</p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <SavedPlacesEditor rider={rider} onUpdated={setRider} />
+
+          {/* Payment Methods */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <CreditCard className="h-4 w-4" />
+                Payment Methods
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {paymentMethods.length === 0 ? (
+                <p className="text-sm text-gray-500">No saved payment methods.</p>
+              ) : (
+                <div className="space-y-2">
+                  {paymentMethods.map(method => (
+                    <div key={method.id} className="flex items-center justify-between text-sm">
+                      <span className="capitalize">{describePaymentMethod(method)}</span>
+                      {method.isDefault && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Emergency Contact */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <ShieldAlert className="h-4 w-4" />
+                Emergency Contact
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm">
+              {rider.emergencyContact ? (
+                <div className="space-y-1">
+                  <p className="font-medium">{rider.emergencyContact.name}</p>
+                  <p className="text-gray-600 capitalize">{rider.emergencyContact.relationship}</p>
+                  <p className="text-gray-600">{formatPhoneNumber(rider.emergencyContact.phone)}</p>
+                </div>
+              ) : (
+                <p className="text-gray-500">No emergency contact on file.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RiderDetail;
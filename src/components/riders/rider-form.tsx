@@ -0,0 +1,354 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { AccessibilityNeed, PaymentMethod, Rider } from '@/types';
+import { CreditCard, Star, Trash2 } from 'lucide-react';
+import { api } from '@/services/api';
+import { cn } from '@/lib/utils';
+
+interface RiderFormProps {
+  rider?: Rider; // edits this rider when given, creates a new one otherwise
+  onSuccess: (rider: Rider) => void;
+  onCancel: () => void;
+}
+
+interface RiderFormValues {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  isVip: boolean;
+  accessibilityNeeds: AccessibilityNeed[];
+  emergencyContact: {
+    name: string;
+    phone: string;
+    relationship: string;
+  };
+  notes: string;
+}
+
+const ACCESSIBILITY_OPTIONS: { value: AccessibilityNeed; label: string }[] = [
+  { value: AccessibilityNeed.WHEELCHAIR, label: 'Wheelchair' },
+  { value: AccessibilityNeed.WALKER, label: 'Walker' },
+  { value: AccessibilityNeed.SERVICE_ANIMAL, label: 'Service animal' },
+  { value: AccessibilityNeed.VISUAL_IMPAIRMENT, label: 'Visual impairment' },
+  { value: AccessibilityNeed.HEARING_IMPAIRMENT, label: 'Hearing impairment' }
+];
+
+/**
+ * Short label for a saved payment method
+ */
+export function describePaymentMethod(method: PaymentMethod): string {
+  const type = method.type.replace(/_/g, ' ');
+  const card = method.last4 ? ` ${method.brand ? `${method.brand} ` : ''}•••• ${method.last4}` : '';
+  const expiry = method.expiryMonth && method.expiryYear
+    ? ` (exp ${String(method.expiryMonth).padStart(2, '0')}/${String(method.expiryYear).slice(-2)})`
+    : '';
+  return `${type}${card}${expiry}`;
+}
+
+export function RiderForm({ rider, onSuccess, onCancel }: RiderFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>(rider?.paymentMethods || []);
+
+  const form = useForm<RiderFormValues>({
+    defaultValues: {
+      firstName: rider?.firstName || '',
+      lastName: rider?.lastName || '',
+      email: rider?.email || '',
+      phone: rider?.phone || '',
+      isVip: rider?.isVip || false,
+      accessibilityNeeds: rider?.accessibilityNeeds || [],
+      emergencyContact: {
+        name: rider?.emergencyContact?.name || '',
+        phone: rider?.emergencyContact?.phone || '',
+        relationship: rider?.emergencyContact?.relationship || ''
+      },
+      notes: rider?.notes || ''
+    }
+  });
+
+  const { handleSubmit, register, watch, setValue, formState: { errors } } = form;
+  const accessibilityNeeds = watch('accessibilityNeeds');
+
+  const toggleAccessibilityNeed = (need: AccessibilityNeed) => {
+    setValue(
+      'accessibilityNeeds',
+      accessibilityNeeds.includes(need)
+        ? accessibilityNeeds.filter(item => item !== need)
+        : [...accessibilityNeeds, need]
+    );
+  };
+
+  const handleSetDefaultPayment = (methodId: string) => {
+    setPaymentMethods(methods => methods.map(method => ({ ...method, isDefault: method.id === methodId })));
+  };
+
+  const handleRemovePayment = (methodId: string) => {
+    setPaymentMethods(methods => methods.filter(method => method.id !== methodId));
+  };
+
+  const onSubmit = async (data: RiderFormValues) => {
+    setIsLoading(true);
+    setError(null);
+
+    const hasEmergencyContact = !!(data.emergencyContact.name.trim() && data.emergencyContact.phone.trim());
+    const profile = {
+      firstName: data.firstName.trim(),
+      lastName: data.lastName.trim(),
+      email: data.email.trim() || undefined,
+      phone: data.phone.trim(),
+      isVip: data.isVip,
+      accessibilityNeeds: data.accessibilityNeeds,
+      emergencyContact: hasEmergencyContact ? data.emergencyContact : undefined,
+      notes: data.notes.trim() || undefined
+    };
+
+    try {
+      const response = rider
+        ? await api.riders.updateRider(rider.id, {
+          ...profile,
+          paymentMethods,
+          defaultPaymentMethod: paymentMethods.find(method => method.isDefault)
+        })
+        : await api.riders.createRider({
+          ...profile,
+          totalTrips: 0
+        });
+
+      if (response.success && response.data) {
+        onSuccess(response.data);
+      } else {
+        setError(response.error?.message || `Failed to ${rider ? 'update' : 'create'} rider`);
+      }
+    } catch (err: any) {
+      setError(err.message || `Failed to ${rider ? 'update' : 'create'} rider`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold">{rider ? 'Edit Rider' : 'Add New Rider'}</h2>
+        <p className="text-sm text-gray-600">
+          {rider ? `Update ${rider.firstName} ${rider.lastName}'s profile` : 'Create a new rider profile'}
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {/* Personal Information */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Personal Information</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">First Name *</label>
+                <Input
+                  {...register('firstName', { required: 'First name is required' })}
+                  placeholder="Jane"
+                />
+                {errors.firstName && (
+                  <p className="text-sm text-red-600 mt-1">{errors.firstName.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="text-sm font-medium">Last Name *</label>
+                <Input
+                  {...register('lastName', { required: 'Last name is required' })}
+                  placeholder="Doe"
+                />
+                {errors.lastName && (
+                  <p className="text-sm text-red-600 mt-1">{errors.lastName.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-sm font-medium">Phone Number *</label>
+                <Input
+                  {...register('phone', { required: 'Phone number is required' })}
+                  placeholder="+1 (555) 123-4567"
+                  type="tel"
+                />
+                {errors.phone && (
+                  <p className="text-sm text-red-600 mt-1">{errors.phone.message}</p>
+                )}
+              </div>
+              <div>
+                <label className="text-sm font-medium">Email</label>
+                <Input
+                  {...register('email', {
+                    pattern: {
+                      value: /^\S+@\S+$/i,
+                      message: 'Invalid email address'
+                    }
+                  })}
+                  placeholder="jane.doe@email.com"
+                  type="email"
+                />
+                {errors.email && (
+                  <p className="text-sm text-red-600 mt-1">{errors.email.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="rider-vip"
+                {...register('isVip')}
+                className="rounded border-gray-300"
+              />
+              <label htmlFor="rider-vip" className="text-sm text-gray-700">
+                VIP rider
+              </label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Accessibility */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Accessibility Needs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {ACCESSIBILITY_OPTIONS.map(option => {
+                const isSelected = accessibilityNeeds.includes(option.value);
+
+                return (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleAccessibilityNeed(option.value)}
+                    className={cn(
+                      'px-3 py-1 rounded-full text-sm border transition-colors',
+                      isSelected
+                        ? 'bg-blue-100 text-blue-800 border-blue-300'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Payment Methods */}
+        {rider && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Saved Payment Methods</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {paymentMethods.length === 0 ? (
+                <p className="text-sm text-gray-500">No saved payment methods.</p>
+              ) : (
+                <div className="space-y-2">
+                  {paymentMethods.map(method => (
+                    <div key={method.id} className="flex items-center justify-between text-sm p-2 rounded border">
+                      <span className="flex items-center gap-2 capitalize">
+                        <CreditCard className="h-4 w-4 text-gray-400" />
+                        {describePaymentMethod(method)}
+                        {method.isDefault && <Badge variant="secondary">Default</Badge>}
+                      </span>
+                      <div className="flex items-center gap-1">
+                        {!method.isDefault && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleSetDefaultPayment(method.id)}
+                          >
+                            <Star className="h-3 w-3 mr-1" />
+                            Make default
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="text-red-600"
+                          onClick={() => handleRemovePayment(method.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Emergency Contact */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Emergency Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="text-sm font-medium">Name</label>
+              <Input {...register('emergencyContact.name')} placeholder="John Doe" />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Phone</label>
+              <Input {...register('emergencyContact.phone')} placeholder="+1 (555) 987-6543" type="tel" />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Relationship</label>
+              <Input {...register('emergencyContact.relationship')} placeholder="Spouse" />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Notes */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Textarea
+              {...register('notes')}
+              placeholder="Anything drivers and dispatchers should know about this rider"
+              rows={3}
+            />
+          </CardContent>
+        </Card>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? 'Saving...' : rider ? 'Save Changes' : 'Create Rider'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default RiderForm;
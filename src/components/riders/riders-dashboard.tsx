@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { PaginationInfo, Rider } from '@/types';
+import { useUIStore } from '@/store';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
+import {
+  Accessibility,
+  ChevronLeft,
+  ChevronRight,
+  Crown,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Search,
+  Star
+} from 'lucide-react';
+import { RiderForm } from './rider-form';
+import { api } from '@/services/api';
+import { debounce, formatPhoneNumber, getAvatarColor, getInitials, cn } from '@/lib/utils';
+
+const RIDERS_PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function RidersDashboard() {
+  const router = useRouter();
+  const { addNotification } = useUIStore();
+  const [riders, setRiders] = useState<Rider[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+
+  const updateSearch = useMemo(() => debounce((value: string) => {
+    setSearch(value.trim());
+    setPage(1);
+  }, SEARCH_DEBOUNCE_MS), []);
+
+  useEffect(() => {
+    loadRiders();
+  }, [search, page]);
+
+  const loadRiders = async () => {
+    setIsLoading(true);
+
+    try {
+      const response = await api.riders.getRiders({ page, limit: RIDERS_PAGE_SIZE }, search || undefined);
+      if (response.success && response.data) {
+        setRiders(response.data.riders);
+        setPagination(response.data.pagination);
+      }
+    } catch (error) {
+      console.error('Failed to load riders:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load riders. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRiderCreated = (rider: Rider) => {
+    setShowCreateDialog(false);
+    addNotification({
+      type: 'success',
+      title: 'Rider Created',
+      message: `Rider ${rider.firstName} ${rider.lastName} has been added successfully.`,
+      duration: 5000
+    });
+    router.push(`/riders/${rider.id}`);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Riders</h1>
+          <p className="text-gray-600">Rider profiles, accessibility needs and trip history</p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" onClick={loadRiders} disabled={isLoading}>
+            <RefreshCw className={cn('h-4 w-4 mr-2', isLoading && 'animate-spin')} />
+            Refresh
+          </Button>
+
+          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rider
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <RiderForm
+                onSuccess={handleRiderCreated}
+                onCancel={() => setShowCreateDialog(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>
+              Riders
+              {pagination && <span className="ml-2 text-sm font-normal text-gray-500">{pagination.total}</span>}
+            </CardTitle>
+            <div className="relative w-80">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by name, phone, or email"
+                value={searchInput}
+                onChange={(e) => {
+                  setSearchInput(e.target.value);
+                  updateSearch(e.target.value);
+                }}
+                className="pl-9"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading && riders.length === 0 ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : riders.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 text-center">
+              {search ? `No riders match "${search}".` : 'No riders yet.'}
+            </p>
+          ) : (
+            <div className={cn('divide-y', isLoading && 'opacity-50')}>
+              {riders.map(rider => (
+                <Link
+                  key={rider.id}
+                  href={`/riders/${rider.id}`}
+                  className="flex items-center gap-4 px-6 py-3 hover:bg-gray-50"
+                >
+                  <Avatar className="h-9 w-9">
+                    <AvatarFallback
+                      style={{ backgroundColor: getAvatarColor(rider.id) }}
+                      className="text-white text-sm"
+                    >
+                      {getInitials(rider.firstName, rider.lastName)}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium flex items-center gap-2">
+                      {rider.firstName} {rider.lastName}
+                      {rider.isVip && (
+                        <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                          <Crown className="h-3 w-3 mr-1" />
+                          VIP
+                        </Badge>
+                      )}
+                      {rider.accessibilityNeeds && rider.accessibilityNeeds.length > 0 && (
+                        <span title={rider.accessibilityNeeds.map(need => need.replace(/_/g, ' ')).join(', ')}>
+                          <Accessibility className="h-4 w-4 text-blue-600" />
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 truncate">
+                      {formatPhoneNumber(rider.phone)}
+                      {rider.email && ` • ${rider.email}`}
+                    </p>
+                  </div>
+                  <div className="text-right text-sm text-gray-600 shrink-0">
+                    <p>{rider.totalTrips} trips</p>
+                    {rider.rating !== undefined && (
+                      <p className="flex items-center justify-end gap-1">
+                        <Star className="h-3 w-3 text-yellow-500" />
+                        {rider.rating.toFixed(1)}
+                      </p>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-6 py-4 border-t">
+              <span className="text-sm text-gray-500">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasPrev || isLoading}
+                  onClick={() => setPage(current => current - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!pagination.hasNext || isLoading}
+                  onClick={() => setPage(current => current + 1)}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default RidersDashboard;
@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { Location, LocationType } from '@/types';
+import {
+  Briefcase,
+  GraduationCap,
+  Home,
+  Hospital,
+  MapPin,
+  Plane,
+  ShoppingBag
+} from 'lucide-react';
+import { getPlaceLabel } from '@/lib/saved-places';
+import { cn } from '@/lib/utils';
+
+export const LOCATION_TYPE_ICONS: Record<LocationType, React.ComponentType<{ className?: string }>> = {
+  [LocationType.HOME]: Home,
+  [LocationType.WORK]: Briefcase,
+  [LocationType.AIRPORT]: Plane,
+  [LocationType.HOSPITAL]: Hospital,
+  [LocationType.SCHOOL]: GraduationCap,
+  [LocationType.SHOPPING]: ShoppingBag,
+  [LocationType.OTHER]: MapPin
+};
+
+interface SavedPlaceChipsProps {
+  places: Location[];
+  selectedAddress?: string;
+  onSelect: (place: Location) => void;
+}
+
+export function SavedPlaceChips({ places, selectedAddress, onSelect }: SavedPlaceChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {places.map((place, index) => {
+        const Icon = LOCATION_TYPE_ICONS[place.type || LocationType.OTHER];
+        const isSelected = selectedAddress?.trim().toLowerCase() === place.address.trim().toLowerCase();
+
+        return (
+          <button
+            key={place.id || index}
+            type="button"
+            title={place.address}
+            onClick={() => onSelect(place)}
+            className={cn(
+              'flex items-center gap-1 px-2.5 py-1 rounded-full text-xs border transition-colors',
+              isSelected
+                ? 'bg-blue-100 text-blue-800 border-blue-300'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            )}
+          >
+            <Icon className="h-3 w-3" />
+            {getPlaceLabel(place)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default SavedPlaceChips;
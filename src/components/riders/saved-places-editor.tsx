@@ -0,0 +1,228 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Location, LocationType, Rider } from '@/types';
+import { useUIStore } from '@/store';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BookMarked, Edit, Loader2, Plus, Trash2 } from 'lucide-react';
+import { LOCATION_TYPE_ICONS } from './saved-place-chips';
+import { getPlaceLabel, LOCATION_TYPE_LABELS } from '@/lib/saved-places';
+import { generateUUID } from '@/lib/utils';
+
+interface SavedPlacesEditorProps {
+  rider: Rider;
+  onUpdated: (rider: Rider) => void;
+}
+
+interface PlaceDraft {
+  id?: string; // set when editing an existing place
+  name: string;
+  type: LocationType;
+  address: string;
+  instructions: string;
+}
+
+const EMPTY_DRAFT: PlaceDraft = { name: '', type: LocationType.HOME, address: '', instructions: '' };
+
+export function SavedPlacesEditor({ rider, onUpdated }: SavedPlacesEditorProps) {
+  const { addNotification } = useUIStore();
+  const [draft, setDraft] = useState<PlaceDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const places = rider.savedPlaces || [];
+
+  const persist = async (savedPlaces: Location[]) => {
+    const response = await api.riders.updateRider(rider.id, { savedPlaces });
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to save places');
+    }
+    onUpdated(response.data);
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.address.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const existing = places.find(place => place.id === draft.id);
+      let coordinates = existing?.coordinates;
+
+      // Geocode once here so booking never has to look the address up again
+      if (!existing || existing.address !== draft.address.trim()) {
+        const response = await api.geo.geocodeAddress(draft.address.trim());
+        if (!response.success || !response.data) {
+          throw new Error('Address could not be found');
+        }
+        coordinates = response.data.coordinates;
+      }
+
+      const place: Location = {
+        id: draft.id || generateUUID(),
+        name: draft.name.trim() || undefined,
+        type: draft.type,
+        address: draft.address.trim(),
+        instructions: draft.instructions.trim() || undefined,
+        coordinates: coordinates!
+      };
+
+      await persist(existing
+        ? places.map(item => (item.id === existing.id ? place : item))
+        : [...places, place]);
+      setDraft(null);
+    } catch (err: any) {
+      console.error('Failed to save place:', err);
+      setError(err.message || 'Failed to save place');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (placeId?: string) => {
+    setIsSaving(true);
+
+    try {
+      await persist(places.filter(place => place.id !== placeId));
+    } catch (err: any) {
+      console.error('Failed to remove place:', err);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: err.message || 'Failed to remove place.',
+        duration: 5000
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <BookMarked className="h-4 w-4" />
+            Saved Places
+          </CardTitle>
+          {!draft && (
+            <Button variant="ghost" size="sm" onClick={() => setDraft(EMPTY_DRAFT)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {places.length === 0 && !draft && (
+          <p className="text-sm text-gray-500">No saved places yet.</p>
+        )}
+
+        {places.map(place => {
+          const Icon = LOCATION_TYPE_ICONS[place.type || LocationType.OTHER];
+
+          return (
+            <div key={place.id} className="flex items-start gap-2 text-sm">
+              <Icon className="h-4 w-4 mt-0.5 shrink-0 text-gray-400" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium">{getPlaceLabel(place)}</p>
+                <p className="text-gray-600">{place.address}</p>
+                {place.instructions && <p className="text-xs text-gray-500">{place.instructions}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={isSaving}
+                onClick={() => setDraft({
+                  id: place.id,
+                  name: place.name || '',
+                  type: place.type || LocationType.OTHER,
+                  address: place.address,
+                  instructions: place.instructions || ''
+                })}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 text-red-600"
+                disabled={isSaving}
+                onClick={() => handleRemove(place.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          );
+        })}
+
+        {draft && (
+          <div className="space-y-2 p-3 rounded border bg-gray-50">
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Name, e.g. Dialysis center"
+              />
+              <Select
+                value={draft.type}
+                onValueChange={(value) => setDraft({ ...draft, type: value as LocationType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(LocationType).map(type => (
+                    <SelectItem key={type} value={type}>{LOCATION_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input
+              value={draft.address}
+              onChange={(e) => setDraft({ ...draft, address: e.target.value })}
+              placeholder="Address"
+            />
+            <Input
+              value={draft.instructions}
+              onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+              placeholder="Entrance or pickup instructions"
+            />
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isSaving}
+                onClick={() => {
+                  setDraft(null);
+                  setError(null);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" disabled={isSaving || !draft.address.trim()} onClick={handleSave}>
+                {isSaving && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Save Place
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default SavedPlacesEditor;
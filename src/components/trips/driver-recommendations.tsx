@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Car,
+  Clock,
+  Star,
+  ChevronDown,
+  ChevronUp,
+  CheckCircle,
+  AlertTriangle,
+  Accessibility
+} from 'lucide-react';
+import {
+  DriverRecommendation,
+  DriverScoreFactor,
+  DRIVER_SCORE_LABELS,
+  DRIVER_SCORE_WEIGHTS
+} from '@/lib/driver-scoring';
+import { cn, formatDuration } from '@/lib/utils';
+
+interface DriverRecommendationsProps {
+  recommendations: DriverRecommendation[];
+  selectedDriverId?: string | null;
+  onAssign: (driverId: string) => void;
+  isLoading?: boolean;
+  maxVisible?: number;
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 75) return 'text-green-600';
+  if (score >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const getBarColor = (value: number) => {
+  if (value >= 0.75) return 'bg-green-500';
+  if (value >= 0.5) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+export function DriverRecommendations({
+  recommendations,
+  selectedDriverId,
+  onAssign,
+  isLoading = false,
+  maxVisible = 5
+}: DriverRecommendationsProps) {
+  const [expandedDriverId, setExpandedDriverId] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  const visible = showAll ? recommendations : recommendations.slice(0, maxVisible);
+  const compatibleCount = recommendations.filter(rec => rec.isCompatible).length;
+
+  const getFactorDetail = (rec: DriverRecommendation, factor: DriverScoreFactor) => {
+    switch (factor) {
+      case 'eta':
+        return rec.etaMinutes !== null ? formatDuration(Math.round(rec.etaMinutes)) : 'No location';
+      case 'rating':
+        return rec.driver.rating.toFixed(1);
+      case 'shift':
+        return rec.shiftHoursRemaining !== null ? `${rec.shiftHoursRemaining.toFixed(1)}h left` : 'No open shift';
+      case 'load':
+        return `${rec.activeTripCount} active trip${rec.activeTripCount === 1 ? '' : 's'}`;
+      default:
+        return '';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center justify-between">
+          <span>Recommended Drivers</span>
+          <span className="text-sm font-normal text-gray-500">
+            {compatibleCount} of {recommendations.length} compatible
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          {visible.map((rec, index) => {
+            const { driver } = rec;
+            const isExpanded = expandedDriverId === driver.id;
+            const isSelected = selectedDriverId === driver.id;
+
+            return (
+              <div
+                key={driver.id}
+                className={cn(
+                  'rounded border p-3',
+                  isSelected ? 'border-blue-300 bg-blue-50' : 'bg-gray-50',
+                  !rec.isCompatible && 'opacity-60'
+                )}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-6 text-center text-sm font-medium text-gray-500">
+                    {index + 1}
+                  </div>
+                  <Car className="h-4 w-4 text-blue-600" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium truncate">
+                        {driver.firstName} {driver.lastName}
+                      </p>
+                      {driver.vehicle.isWheelchairAccessible && (
+                        <Accessibility className="h-3 w-3 text-blue-600" />
+                      )}
+                      {index === 0 && rec.isCompatible && (
+                        <Badge variant="secondary" className="text-xs">Best match</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs text-gray-600">
+                      <span>{driver.vehicle.make} {driver.vehicle.model} • {driver.vehicle.capacity} seats</span>
+                      <span className="flex items-center gap-1">
+                        <Star className="h-3 w-3 text-yellow-500" />
+                        {driver.rating.toFixed(1)}
+                      </span>
+                      {rec.etaMinutes !== null && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {formatDuration(Math.round(rec.etaMinutes))}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className={cn('text-lg font-semibold w-10 text-right', getScoreColor(rec.score))}>
+                    {rec.score}
+                  </div>
+
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setExpandedDriverId(isExpanded ? null : driver.id)}
+                    title="Score breakdown"
+                  >
+                    {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </Button>
+
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={isSelected ? 'default' : 'outline'}
+                    onClick={() => onAssign(driver.id)}
+                    disabled={isLoading || !rec.isCompatible}
+                  >
+                    {isSelected ? (
+                      <>
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Assigned
+                      </>
+                    ) : (
+                      'Assign'
+                    )}
+                  </Button>
+                </div>
+
+                {!rec.isCompatible && (
+                  <div className="mt-2 ml-9 space-y-1">
+                    {rec.incompatibilityReasons.map(reason => (
+                      <p key={reason} className="flex items-center gap-1 text-xs text-red-600">
+                        <AlertTriangle className="h-3 w-3" />
+                        {reason}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                {/* Score Breakdown */}
+                {isExpanded && (
+                  <div className="mt-3 ml-9 space-y-2">
+                    {(Object.keys(DRIVER_SCORE_WEIGHTS) as DriverScoreFactor[]).map(factor => (
+                      <div key={factor} className="flex items-center gap-3 text-xs">
+                        <span className="w-28 text-gray-600">{DRIVER_SCORE_LABELS[factor]}</span>
+                        <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className={cn('h-full rounded-full', getBarColor(rec.breakdown[factor]))}
+                            style={{ width: `${rec.breakdown[factor] * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-24 text-gray-600">{getFactorDetail(rec, factor)}</span>
+                        <span className="w-16 text-right text-gray-500">
+                          +{Math.round(rec.breakdown[factor] * DRIVER_SCORE_WEIGHTS[factor] * 100)} / {DRIVER_SCORE_WEIGHTS[factor] * 100}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {recommendations.length > maxVisible && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => setShowAll(!showAll)}
+            >
+              {showAll ? 'Show fewer' : `Show ${recommendations.length - maxVisible} more drivers`}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DriverRecommendations;
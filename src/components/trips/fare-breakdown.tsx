@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { FareBreakdown } from '@/lib/fares';
+import { formatCurrency, cn } from '@/lib/utils';
+
+interface FareBreakdownTableProps {
+  breakdown: FareBreakdown;
+  currency?: string;
+  className?: string;
+}
+
+export function FareBreakdownTable({ breakdown, currency = 'USD', className }: FareBreakdownTableProps) {
+  const row = (label: string, amount: number, rowClassName?: string) => (
+    <div key={label} className={cn('flex items-center justify-between', rowClassName)}>
+      <span>{label}</span>
+      <span>{formatCurrency(amount, currency)}</span>
+    </div>
+  );
+
+  return (
+    <div className={cn('space-y-1 text-sm', className)}>
+      {breakdown.lines.map(line => row(line.label, line.amount, 'text-gray-600'))}
+      {breakdown.surcharges.map(line => row(line.label, line.amount, 'text-gray-600'))}
+      {breakdown.minimumAdjustment > 0 && row('Minimum fare adjustment', breakdown.minimumAdjustment, 'text-gray-600')}
+
+      <div className="pt-1 border-t">
+        {row('Subtotal', breakdown.subtotal)}
+      </div>
+
+      {breakdown.promo && (
+        <div
+          className={cn(
+            'flex items-center gap-1 text-xs',
+            breakdown.promo.applied ? 'text-green-700' : 'text-red-600'
+          )}
+        >
+          {breakdown.promo.applied ? <CheckCircle className="h-3 w-3" /> : <XCircle className="h-3 w-3" />}
+          {breakdown.promo.code}: {breakdown.promo.message}
+        </div>
+      )}
+      {breakdown.discount > 0 && row(
+        breakdown.promo ? `Promo ${breakdown.promo.code}` : 'Discount',
+        -breakdown.discount,
+        'text-green-700'
+      )}
+
+      <div className="pt-1 border-t font-medium">
+        {row('Estimated total', breakdown.total)}
+      </div>
+    </div>
+  );
+}
+
+export default FareBreakdownTable;
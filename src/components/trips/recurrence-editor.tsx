@@ -0,0 +1,187 @@
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/types';
+import { describeRecurrence, getWeekday, WEEKDAYS } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+
+export type RecurrenceDraft = Omit<RecurrenceRule, 'startDate'>;
+
+type EndMode = 'never' | 'until' | 'count';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceDraft | null;
+  onChange: (value: RecurrenceDraft | null) => void;
+  startDate: Date;
+}
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: 'day(s)',
+  [RecurrenceFrequency.WEEKLY]: 'week(s)',
+  [RecurrenceFrequency.MONTHLY]: 'month(s)'
+};
+
+export function RecurrenceEditor({ value, onChange, startDate }: RecurrenceEditorProps) {
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (updates: Partial<RecurrenceDraft>) => {
+    if (value) onChange({ ...value, ...updates });
+  };
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      interval: 1,
+      pickupTime: format(startDate, 'HH:mm'),
+      ...value,
+      frequency: frequency as RecurrenceFrequency,
+      byWeekday: frequency === RecurrenceFrequency.WEEKLY
+        ? value?.byWeekday?.length ? value.byWeekday : [getWeekday(startDate)]
+        : undefined
+    });
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const current = value?.byWeekday || [];
+    const next = current.includes(weekday)
+      ? current.filter(day => day !== weekday)
+      : [...current, weekday];
+
+    // A weekly rule needs at least one day
+    if (next.length > 0) update({ byWeekday: next });
+  };
+
+  const handleEndModeChange = (mode: string) => {
+    update({
+      until: mode === 'until' ? startDate : undefined,
+      count: mode === 'count' ? 10 : undefined
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium flex items-center gap-2">
+        <Repeat className="h-4 w-4" />
+        Repeat
+      </label>
+
+      <Select value={value?.frequency || 'none'} onValueChange={handleFrequencyChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value={RecurrenceFrequency.DAILY}>Daily</SelectItem>
+          <SelectItem value={RecurrenceFrequency.WEEKLY}>Weekly</SelectItem>
+          <SelectItem value={RecurrenceFrequency.MONTHLY}>Monthly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-gray-600">Every</label>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.interval}
+                  onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                  className="w-20"
+                />
+                <span className="text-sm text-gray-600">{FREQUENCY_UNITS[value.frequency]}</span>
+              </div>
+            </div>
+            <div>
+              <label className="text-xs text-gray-600">Pickup time</label>
+              <Input
+                type="time"
+                value={value.pickupTime}
+                onChange={(e) => update({ pickupTime: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {value.frequency === RecurrenceFrequency.WEEKLY && (
+            <div className="flex gap-1">
+              {WEEKDAYS.map(weekday => (
+                <button
+                  key={weekday}
+                  type="button"
+                  onClick={() => toggleWeekday(weekday)}
+                  className={cn(
+                    'h-8 w-10 rounded text-xs font-medium capitalize border',
+                    value.byWeekday?.includes(weekday)
+                      ? 'bg-blue-600 text-white border-blue-600'
+                      : 'bg-white text-gray-700 hover:bg-gray-50'
+                  )}
+                >
+                  {weekday.slice(0, 3)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-gray-600">Ends</label>
+              <Select value={endMode} onValueChange={handleEndModeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="until">On date</SelectItem>
+                  <SelectItem value="count">After occurrences</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {endMode === 'until' && (
+              <div>
+                <label className="text-xs text-gray-600">Last date</label>
+                <Input
+                  type="date"
+                  value={format(new Date(value.until!), 'yyyy-MM-dd')}
+                  min={format(startDate, 'yyyy-MM-dd')}
+                  onChange={(e) => e.target.value && update({ until: new Date(`${e.target.value}T00:00`) })}
+                />
+              </div>
+            )}
+            {endMode === 'count' && (
+              <div>
+                <label className="text-xs text-gray-600">Occurrences</label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                />
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm text-blue-700">
+            {describeRecurrence({ ...value, startDate })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default RecurrenceEditor;
@@ -0,0 +1,622 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { addDays, format, isAfter, parse, startOfDay } from 'date-fns';
+import { useTripStore, useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
+import { RecurringTripSeries, RecurrenceException, TimePeriod, Trip, TripStatus } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import {
+  ArrowLeft,
+  CalendarPlus,
+  Clock,
+  MapPin,
+  Navigation,
+  Pencil,
+  RefreshCw,
+  Repeat,
+  SkipForward,
+  XCircle
+} from 'lucide-react';
+import { api } from '@/services/api';
+import {
+  DEFAULT_GENERATION_HORIZON_DAYS,
+  describeRecurrence,
+  getSeriesOccurrences,
+  getTripOccurrence,
+  OccurrenceStatus,
+  planSeriesGeneration,
+  SeriesOccurrence
+} from '@/lib/recurrence';
+import { canTransition, formatTripStatus } from '@/lib/trip-status';
+import { cn } from '@/lib/utils';
+import { RecurrenceDraft, RecurrenceEditor } from './recurrence-editor';
+
+const HORIZON_OPTIONS = [7, 14, 30, 60];
+
+const OCCURRENCE_BADGES: Record<OccurrenceStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  modified: 'bg-purple-100 text-purple-800',
+  skipped: 'bg-gray-100 text-gray-600',
+  closed: 'bg-orange-100 text-orange-800'
+};
+
+type PendingConfirmation =
+  | { kind: 'skip'; series: RecurringTripSeries; occurrence: SeriesOccurrence }
+  | { kind: 'cancel-series'; series: RecurringTripSeries };
+
+const occurrenceKey = (seriesId: string, date: string) => `${seriesId}:${date}`;
+
+export function RecurringTrips() {
+  const { trips, mergeTrips, addTrip, updateTrip } = useTripStore();
+  const { addNotification } = useUIStore();
+  const { currentTenant } = useAuth();
+
+  const [seriesList, setSeriesList] = useState<RecurringTripSeries[]>([]);
+  const [selectedSeriesId, setSelectedSeriesId] = useState<string | null>(null);
+  const [horizonDays, setHorizonDays] = useState(DEFAULT_GENERATION_HORIZON_DAYS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+  const [reschedule, setReschedule] = useState<{ occurrence: SeriesOccurrence; time: string } | null>(null);
+  const [seriesDraft, setSeriesDraft] = useState<RecurrenceDraft | null>(null);
+
+  const operatingHours = currentTenant?.settings.operatingHours;
+  const selectedSeries = seriesList.find(series => series.id === selectedSeriesId) || null;
+
+  // Reload whenever the horizon changes so generated trips cover the visible range
+  useEffect(() => {
+    loadData();
+  }, [horizonDays]);
+
+  const loadData = async () => {
+    setIsLoading(true);
+
+    try {
+      const now = new Date();
+      const [seriesResponse, tripsResponse] = await Promise.all([
+        api.recurring.getSeries(),
+        api.trips.getTrips({
+          dateRange: { start: startOfDay(now), end: addDays(now, horizonDays), period: horizonDays > 7 ? TimePeriod.MONTH : TimePeriod.WEEK }
+        }, { page: 1, limit: 500 })
+      ]);
+
+      if (seriesResponse.success && seriesResponse.data) {
+        setSeriesList(seriesResponse.data);
+        if (!selectedSeriesId && seriesResponse.data.length > 0) {
+          setSelectedSeriesId(seriesResponse.data[0].id);
+        }
+      }
+
+      if (tripsResponse.success && tripsResponse.data) {
+        // Merge rather than replace: the store also holds trips outside the horizon that other screens loaded
+        mergeTrips(tripsResponse.data.trips);
+      }
+    } catch (error) {
+      console.error('Failed to load recurring trips:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load recurring trips. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Generated trips keyed by series and occurrence date, preferring ones still running
+  const tripsByOccurrence = useMemo(() => {
+    const map = new Map<string, Trip>();
+    trips.forEach(trip => {
+      const occurrence = getTripOccurrence(trip.metadata);
+      if (!occurrence) return;
+
+      const key = occurrenceKey(occurrence.seriesId, occurrence.date);
+      const existing = map.get(key);
+      if (!existing || existing.status === TripStatus.CANCELLED) {
+        map.set(key, trip);
+      }
+    });
+    return map;
+  }, [trips]);
+
+  const occurrences = useMemo(() => {
+    if (!selectedSeries) return [];
+    const now = new Date();
+    return getSeriesOccurrences(selectedSeries, startOfDay(now), addDays(now, horizonDays), operatingHours);
+  }, [selectedSeries, horizonDays, operatingHours]);
+
+  const seriesTrips = (series: RecurringTripSeries) =>
+    trips.filter(trip => getTripOccurrence(trip.metadata)?.seriesId === series.id);
+
+  const isUpcoming = (trip: Trip) => !!trip.scheduledAt && isAfter(new Date(trip.scheduledAt), new Date());
+
+  const saveSeries = async (seriesId: string, updates: Partial<RecurringTripSeries>) => {
+    const response = await api.recurring.updateSeries(seriesId, updates);
+    if (!response.success || !response.data) {
+      throw new Error(response.error?.message || 'Failed to update recurring trip');
+    }
+
+    const updated = response.data;
+    setSeriesList(list => list.map(series => (series.id === updated.id ? updated : series)));
+    return updated;
+  };
+
+  // Cancel generated trips that have not started yet, returning how many were cancelled
+  const cancelTrips = async (list: Trip[], reason: string) => {
+    let cancelled = 0;
+
+    for (const trip of list) {
+      if (!canTransition(trip.status, TripStatus.CANCELLED)) continue;
+
+      const response = await api.trips.cancelTrip(trip.id, reason);
+      if (response.success && response.data) {
+        updateTrip(trip.id, response.data);
+        cancelled++;
+      } else {
+        console.error('Failed to cancel generated trip:', trip.id, response.error);
+      }
+    }
+
+    return cancelled;
+  };
+
+  const generateTrips = async (series: RecurringTripSeries) => {
+    const { requests, generatedUntil } = planSeriesGeneration(series, horizonDays, operatingHours);
+
+    let created: Trip[] = [];
+    if (requests.length > 0) {
+      const response = await api.trips.createTrips(requests);
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || 'Failed to generate trips');
+      }
+      created = response.data;
+      created.forEach(trip => addTrip(trip));
+    }
+
+    await saveSeries(series.id, { generatedUntil });
+    return created.length;
+  };
+
+  // Wraps a series operation with loading state and error notifications
+  const runAction = async (action: () => Promise<string>) => {
+    setIsSaving(true);
+
+    try {
+      const message = await action();
+      addNotification({
+        type: 'success',
+        title: 'Recurring Trip Updated',
+        message,
+        duration: 5000
+      });
+    } catch (error: any) {
+      console.error('Recurring trip action failed:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: error.message || 'Failed to update recurring trip. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleGenerate = (series: RecurringTripSeries) => runAction(async () => {
+    const count = await generateTrips(series);
+    return `${count} trip(s) generated for ${series.name} through the next ${horizonDays} days.`;
+  });
+
+  const handleGenerateAll = () => runAction(async () => {
+    let count = 0;
+    for (const series of seriesList.filter(series => series.isActive)) {
+      count += await generateTrips(series);
+    }
+    return `${count} trip(s) generated across all active series.`;
+  });
+
+  // Exceptions are keyed by date, so a new one replaces any earlier change to the same occurrence
+  const withException = (series: RecurringTripSeries, exception: RecurrenceException) => [
+    ...series.exceptions.filter(existing => existing.date !== exception.date),
+    exception
+  ];
+
+  const handleSkipOccurrence = (series: RecurringTripSeries, occurrence: SeriesOccurrence) => runAction(async () => {
+    await saveSeries(series.id, {
+      exceptions: withException(series, { date: occurrence.date, type: 'skip', reason: 'Cancelled by dispatcher' })
+    });
+
+    const trip = tripsByOccurrence.get(occurrenceKey(series.id, occurrence.date));
+    const cancelled = trip ? await cancelTrips([trip], 'Recurring occurrence cancelled') : 0;
+
+    return `${format(occurrence.scheduledAt, 'EEE MMM d')} skipped${cancelled ? ' and its trip cancelled' : ''}.`;
+  });
+
+  const handleRescheduleOccurrence = () => {
+    if (!selectedSeries || !reschedule) return;
+
+    const { occurrence, time } = reschedule;
+    const scheduledAt = parse(time, 'HH:mm', startOfDay(occurrence.scheduledAt));
+    setReschedule(null);
+
+    runAction(async () => {
+      const existing = selectedSeries.exceptions.find(exception => exception.date === occurrence.date);
+      await saveSeries(selectedSeries.id, {
+        exceptions: withException(selectedSeries, {
+          date: occurrence.date,
+          type: 'modify',
+          reason: `Moved to ${time}`,
+          overrides: { ...existing?.overrides, scheduledAt }
+        })
+      });
+
+      // Only trips that have not started can move
+      const trip = tripsByOccurrence.get(occurrenceKey(selectedSeries.id, occurrence.date));
+      if (trip && [TripStatus.PENDING, TripStatus.ASSIGNED].includes(trip.status)) {
+        const response = await api.trips.updateTrip(trip.id, { scheduledAt });
+        if (response.success && response.data) {
+          updateTrip(trip.id, response.data);
+        }
+      }
+
+      return `${format(occurrence.scheduledAt, 'EEE MMM d')} moved to ${format(scheduledAt, 'h:mm a')}.`;
+    });
+  };
+
+  // Editing the rule regenerates every future trip of the series that has not started
+  const handleSaveSeries = () => {
+    if (!selectedSeries || !seriesDraft) return;
+
+    const series = selectedSeries;
+    const recurrence = { ...seriesDraft, startDate: series.recurrence.startDate };
+    setSeriesDraft(null);
+
+    runAction(async () => {
+      const cancelled = await cancelTrips(seriesTrips(series).filter(isUpcoming), 'Recurring schedule changed');
+      const updated = await saveSeries(series.id, { recurrence });
+      // Regenerate from now rather than from the previous generation horizon
+      const created = await generateTrips({ ...updated, generatedUntil: undefined });
+      return `${series.name} updated: ${cancelled} upcoming trip(s) replaced with ${created} new trip(s).`;
+    });
+  };
+
+  const handleCancelSeries = (series: RecurringTripSeries) => runAction(async () => {
+    await saveSeries(series.id, {
+      isActive: false,
+      recurrence: { ...series.recurrence, until: new Date() }
+    });
+    const cancelled = await cancelTrips(seriesTrips(series).filter(isUpcoming), 'Recurring trip cancelled');
+    return `${series.name} cancelled along with ${cancelled} upcoming trip(s).`;
+  });
+
+  const handleConfirm = () => {
+    if (!confirmation) return;
+
+    if (confirmation.kind === 'skip') {
+      handleSkipOccurrence(confirmation.series, confirmation.occurrence);
+    } else {
+      handleCancelSeries(confirmation.series);
+    }
+    setConfirmation(null);
+  };
+
+  const renderOccurrence = (series: RecurringTripSeries, occurrence: SeriesOccurrence) => {
+    const trip = tripsByOccurrence.get(occurrenceKey(series.id, occurrence.date));
+    const canChange = series.isActive
+      && isAfter(occurrence.scheduledAt, new Date())
+      && occurrence.status !== 'skipped'
+      && (!trip || [TripStatus.PENDING, TripStatus.ASSIGNED].includes(trip.status));
+
+    return (
+      <div key={occurrence.date} className="flex items-center gap-4 py-3 border-b last:border-b-0">
+        <div className="w-32 shrink-0">
+          <p className="text-sm font-medium">{format(occurrence.scheduledAt, 'EEE MMM d')}</p>
+          <p className="text-xs text-gray-500">{format(occurrence.scheduledAt, 'h:mm a')}</p>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <Badge className={cn('capitalize', OCCURRENCE_BADGES[occurrence.status])}>
+            {occurrence.status}
+          </Badge>
+          {occurrence.reason && (
+            <p className="text-xs text-gray-500 mt-1 truncate">{occurrence.reason}</p>
+          )}
+        </div>
+
+        <div className="w-40 shrink-0 text-sm">
+          {trip ? (
+            <>
+              <p className="font-medium">#{trip.id.slice(-6).toUpperCase()}</p>
+              <p className="text-xs text-gray-500 capitalize">
+                {formatTripStatus(trip.status)}
+                {trip.driver && ` • ${trip.driver.firstName} ${trip.driver.lastName}`}
+              </p>
+            </>
+          ) : (
+            <p className="text-xs text-gray-400">
+              {occurrence.request ? 'Not generated yet' : 'No trip'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-1 shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!canChange || isSaving}
+            onClick={() => setReschedule({ occurrence, time: format(occurrence.scheduledAt, 'HH:mm') })}
+            title="Change time for this occurrence"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={!canChange || isSaving}
+            onClick={() => setConfirmation({ kind: 'skip', series, occurrence })}
+            title="Cancel this occurrence"
+          >
+            <SkipForward className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/trips" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft className="h-4 w-4" />
+            Trips
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Recurring Trips</h1>
+          <p className="text-gray-600">Standing rides generated from repeating schedules</p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Select value={String(horizonDays)} onValueChange={(value) => setHorizonDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HORIZON_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>Next {days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={loadData} disabled={isLoading}>
+            <RefreshCw className={cn('h-4 w-4 mr-2', isLoading && 'animate-spin')} />
+            Refresh
+          </Button>
+
+          <Button size="sm" onClick={handleGenerateAll} disabled={isSaving || seriesList.length === 0}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Generate All
+          </Button>
+        </div>
+      </div>
+
+      {seriesList.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-gray-600">
+            <Repeat className="h-8 w-8 mx-auto mb-3 text-gray-400" />
+            {isLoading
+              ? 'Loading recurring trips...'
+              : 'No recurring trips yet. Choose a repeat schedule when creating a trip to add one.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Series List */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Series ({seriesList.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {seriesList.map(series => (
+                <button
+                  key={series.id}
+                  onClick={() => setSelectedSeriesId(series.id)}
+                  className={cn(
+                    'w-full text-left p-4 border-b last:border-b-0 hover:bg-gray-50',
+                    series.id === selectedSeriesId && 'bg-blue-50'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-medium truncate">{series.name}</p>
+                    <Badge variant={series.isActive ? 'secondary' : 'outline'}>
+                      {series.isActive ? 'Active' : 'Cancelled'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">{describeRecurrence(series.recurrence)}</p>
+                  {series.generatedUntil && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Generated through {format(new Date(series.generatedUntil), 'MMM d')}
+                    </p>
+                  )}
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Selected Series */}
+          {selectedSeries && (
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-2">
+                    <CardTitle className="text-base">{selectedSeries.name}</CardTitle>
+                    <p className="text-sm text-gray-600 flex items-center gap-2">
+                      <Repeat className="h-4 w-4" />
+                      {describeRecurrence(selectedSeries.recurrence)}
+                    </p>
+                    <p className="text-sm text-gray-600 flex items-center gap-2">
+                      <MapPin className="h-4 w-4 text-green-600" />
+                      {selectedSeries.template.pickup.address}
+                    </p>
+                    <p className="text-sm text-gray-600 flex items-center gap-2">
+                      <Navigation className="h-4 w-4 text-red-600" />
+                      {selectedSeries.template.destination.address}
+                    </p>
+                  </div>
+
+                  {selectedSeries.isActive && (
+                    <div className="flex gap-2 shrink-0">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleGenerate(selectedSeries)}
+                        disabled={isSaving}
+                      >
+                        <CalendarPlus className="h-4 w-4 mr-2" />
+                        Generate
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          const { startDate, ...draft } = selectedSeries.recurrence;
+                          setSeriesDraft(draft);
+                        }}
+                        disabled={isSaving}
+                      >
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit Series
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => setConfirmation({ kind: 'cancel-series', series: selectedSeries })}
+                        disabled={isSaving}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Cancel Series
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <h4 className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-2">
+                  <Clock className="h-4 w-4" />
+                  Occurrences in the next {horizonDays} days
+                </h4>
+                {occurrences.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4">No occurrences in this period.</p>
+                ) : (
+                  occurrences.map(occurrence => renderOccurrence(selectedSeries, occurrence))
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      {/* Change One Occurrence */}
+      <Dialog open={!!reschedule} onOpenChange={(open) => !open && setReschedule(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change Occurrence Time</DialogTitle>
+            <DialogDescription>
+              Only the trip on {reschedule && format(reschedule.occurrence.scheduledAt, 'EEEE, MMMM d')} changes.
+              The rest of the series keeps its schedule.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            type="time"
+            value={reschedule?.time || ''}
+            onChange={(e) => reschedule && setReschedule({ ...reschedule, time: e.target.value })}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReschedule(null)}>Cancel</Button>
+            <Button onClick={handleRescheduleOccurrence} disabled={!reschedule?.time}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Whole Series */}
+      <Dialog open={!!seriesDraft} onOpenChange={(open) => !open && setSeriesDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Series</DialogTitle>
+            <DialogDescription>
+              Upcoming trips that have not started will be cancelled and regenerated on the new schedule.
+              Changes to single occurrences are kept.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedSeries && (
+            <RecurrenceEditor
+              value={seriesDraft}
+              onChange={(value) => value && setSeriesDraft(value)}
+              startDate={new Date(selectedSeries.recurrence.startDate)}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSeriesDraft(null)}>Cancel</Button>
+            <Button onClick={handleSaveSeries}>Save Series</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Cancellation */}
+      <AlertDialog open={!!confirmation} onOpenChange={(open) => !open && setConfirmation(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmation?.kind === 'skip' ? 'Cancel This Occurrence' : 'Cancel Entire Series'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmation?.kind === 'skip'
+                ? `The trip on ${format(confirmation.occurrence.scheduledAt, 'EEEE, MMMM d')} will be skipped and cancelled if it was already generated.`
+                : `${confirmation?.series.name} will stop repeating and all of its upcoming trips that have not started will be cancelled.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm} className="bg-red-600 hover:bg-red-700">
+              {confirmation?.kind === 'skip' ? 'Cancel Occurrence' : 'Cancel Series'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+export default RecurringTrips;
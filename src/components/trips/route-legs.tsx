@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { RouteLegEstimate, sumLegs } from '@/lib/route-planning';
+import { formatCurrency, formatDuration } from '@/lib/utils';
+
+interface RouteLegsProps {
+  stopLabels: string[]; // pickup, each waypoint, destination
+  legs: (RouteLegEstimate | null)[];
+  isLoading?: boolean;
+  distanceUnit?: 'miles' | 'kilometers';
+}
+
+export function RouteLegs({ stopLabels, legs, isLoading = false, distanceUnit = 'miles' }: RouteLegsProps) {
+  const total = sumLegs(legs);
+  const unit = distanceUnit === 'kilometers' ? 'km' : 'mi';
+
+  return (
+    <div className="text-sm">
+      <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-1 items-center">
+        {legs.map((leg, index) => (
+          <React.Fragment key={index}>
+            <span className="flex items-center gap-1 min-w-0">
+              <span className="truncate">{stopLabels[index]}</span>
+              <ArrowRight className="h-3 w-3 shrink-0 text-gray-400" />
+              <span className="truncate">{stopLabels[index + 1]}</span>
+            </span>
+            {leg ? (
+              <>
+                <span className="text-right text-gray-600">{leg.distance.toFixed(1)} {unit}</span>
+                <span className="text-right text-gray-600">{formatDuration(leg.duration)}</span>
+                <span className="text-right font-medium">{formatCurrency(leg.estimatedFare)}</span>
+              </>
+            ) : (
+              <span className="col-span-3 text-right text-gray-400">
+                {isLoading ? <Loader2 className="h-3 w-3 animate-spin inline" /> : 'Unavailable'}
+              </span>
+            )}
+          </React.Fragment>
+        ))}
+
+        {total && legs.length > 1 && (
+          <>
+            <span className="font-medium pt-1 border-t">Total</span>
+            <span className="text-right pt-1 border-t">{total.distance.toFixed(1)} {unit}</span>
+            <span className="text-right pt-1 border-t">{formatDuration(total.duration)}</span>
+            <span className="text-right font-medium pt-1 border-t">{formatCurrency(total.estimatedFare)}</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RouteLegs;
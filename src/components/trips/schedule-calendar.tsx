@@ -0,0 +1,142 @@
+'use client';
+
+import React from 'react';
+import { differenceInMinutes, endOfDay, format, isToday, startOfDay } from 'date-fns';
+import { Trip, TripStatus } from '@/types';
+import { AlertTriangle } from 'lucide-react';
+import { assignLanes, clipWindow, getTripWindow, TimeWindow } from '@/lib/schedule';
+import { cn } from '@/lib/utils';
+
+const HOUR_HEIGHT = 48; // px per hour row
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface ScheduleCalendarProps {
+  days: Date[];
+  trips: Trip[];
+  conflicts: Map<string, string[]>;
+  onSelectTrip?: (trip: Trip) => void;
+}
+
+/**
+ * Block colour for a scheduled trip, shared with the driver timeline
+ */
+export function getScheduleBlockClass(trip: Trip, isConflict: boolean): string {
+  if (isConflict) {
+    return 'bg-red-100 border-red-500 text-red-900';
+  }
+
+  if (!trip.driver) {
+    return 'bg-orange-50 border-orange-400 text-orange-900';
+  }
+
+  switch (trip.status) {
+    case TripStatus.COMPLETED:
+      return 'bg-gray-100 border-gray-400 text-gray-700';
+    case TripStatus.PENDING:
+    case TripStatus.ASSIGNED:
+      return 'bg-blue-50 border-blue-500 text-blue-900';
+    default:
+      return 'bg-indigo-50 border-indigo-500 text-indigo-900';
+  }
+}
+
+export function ScheduleCalendar({ days, trips, conflicts, onSelectTrip }: ScheduleCalendarProps) {
+  const renderDayColumn = (day: Date) => {
+    const dayRange: TimeWindow = { start: startOfDay(day), end: endOfDay(day) };
+
+    // Trips clipped to this day, so overnight trips appear on both days
+    const dayTrips = trips
+      .map(trip => {
+        const window = getTripWindow(trip);
+        const clipped = window ? clipWindow(window, dayRange) : null;
+        return clipped ? { trip, window: clipped } : null;
+      })
+      .filter((item): item is { trip: Trip; window: TimeWindow } => item !== null);
+
+    const { lanes, laneCount } = assignLanes(dayTrips, item => item.window);
+
+    return (
+      <div key={day.toISOString()} className="relative flex-1 min-w-[120px] border-l">
+        {HOURS.map(hour => (
+          <div key={hour} className="border-b border-gray-100" style={{ height: HOUR_HEIGHT }} />
+        ))}
+
+        {dayTrips.map(item => {
+          const { trip, window } = item;
+          const isConflict = conflicts.has(trip.id);
+          const top = (differenceInMinutes(window.start, dayRange.start) / 60) * HOUR_HEIGHT;
+          const height = Math.max(18, (differenceInMinutes(window.end, window.start) / 60) * HOUR_HEIGHT);
+          const lane = lanes.get(item) || 0;
+
+          return (
+            <button
+              key={trip.id}
+              onClick={() => onSelectTrip?.(trip)}
+              className={cn(
+                'absolute rounded border-l-4 px-1 py-0.5 text-left text-xs overflow-hidden hover:shadow-md transition-shadow',
+                getScheduleBlockClass(trip, isConflict)
+              )}
+              style={{
+                top,
+                height,
+                left: `${(lane / laneCount) * 100}%`,
+                width: `${100 / laneCount}%`
+              }}
+              title={`${trip.rider.firstName} ${trip.rider.lastName} • ${trip.pickup.address}`}
+            >
+              <div className="flex items-center gap-1 font-medium">
+                {isConflict && <AlertTriangle className="h-3 w-3 shrink-0" />}
+                <span className="truncate">
+                  {format(new Date(trip.scheduledAt!), 'h:mm a')} {trip.rider.firstName} {trip.rider.lastName}
+                </span>
+              </div>
+              <div className="truncate">
+                {trip.driver ? `${trip.driver.firstName} ${trip.driver.lastName}` : 'Unassigned'}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="overflow-auto max-h-[70vh]">
+      {/* Day Headers */}
+      <div className="flex sticky top-0 z-10 bg-white border-b">
+        <div className="w-16 shrink-0" />
+        {days.map(day => (
+          <div
+            key={day.toISOString()}
+            className={cn(
+              'flex-1 min-w-[120px] border-l px-2 py-2 text-center text-sm',
+              isToday(day) && 'bg-blue-50 font-semibold text-blue-700'
+            )}
+          >
+            <div>{format(day, 'EEE')}</div>
+            <div className="text-lg">{format(day, 'd')}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex">
+        {/* Hour Labels */}
+        <div className="w-16 shrink-0">
+          {HOURS.map(hour => (
+            <div
+              key={hour}
+              className="pr-2 text-right text-xs text-gray-500"
+              style={{ height: HOUR_HEIGHT }}
+            >
+              {format(new Date(2000, 0, 1, hour), 'h a')}
+            </div>
+          ))}
+        </div>
+
+        {days.map(renderDayColumn)}
+      </div>
+    </div>
+  );
+}
+
+export default ScheduleCalendar;
@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { differenceInMinutes, endOfDay, format, isToday, startOfDay } from 'date-fns';
+import { Driver, Trip } from '@/types';
+import { AlertTriangle } from 'lucide-react';
+import { assignLanes, clipWindow, getShiftWindow, getTripWindow, TimeWindow } from '@/lib/schedule';
+import { getScheduleBlockClass } from './schedule-calendar';
+import { cn } from '@/lib/utils';
+
+const HOUR_WIDTH = 64; // px per hour column
+const LANE_HEIGHT = 36; // px per overlapping trip lane
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface ScheduleTimelineProps {
+  day: Date;
+  trips: Trip[];
+  drivers: Driver[];
+  conflicts: Map<string, string[]>;
+  onSelectTrip?: (trip: Trip) => void;
+}
+
+interface TimelineRow {
+  id: string;
+  label: string;
+  sublabel?: string;
+  shift: TimeWindow | null;
+  items: { trip: Trip; window: TimeWindow }[];
+}
+
+export function ScheduleTimeline({ day, trips, drivers, conflicts, onSelectTrip }: ScheduleTimelineProps) {
+  const dayRange = useMemo<TimeWindow>(() => ({ start: startOfDay(day), end: endOfDay(day) }), [day]);
+  // Drivers only carry their current shift, so other days would show it in the wrong place or not at all
+  const showShifts = isToday(day);
+
+  // One row per driver with work or a current shift that day, plus unassigned trips at the bottom
+  const rows = useMemo<TimelineRow[]>(() => {
+    const clipTrip = (trip: Trip) => {
+      const window = getTripWindow(trip);
+      const clipped = window ? clipWindow(window, dayRange) : null;
+      return clipped ? { trip, window: clipped } : null;
+    };
+
+    const dayItems = trips
+      .map(clipTrip)
+      .filter((item): item is { trip: Trip; window: TimeWindow } => item !== null);
+
+    const driverRows = drivers
+      .map(driver => {
+        const shiftWindow = showShifts ? getShiftWindow(driver) : null;
+        return {
+          id: driver.id,
+          label: `${driver.firstName} ${driver.lastName}`,
+          sublabel: `${driver.vehicle.make} ${driver.vehicle.model}`,
+          shift: shiftWindow ? clipWindow(shiftWindow, dayRange) : null,
+          items: dayItems.filter(item => item.trip.driver?.id === driver.id)
+        };
+      })
+      .filter(row => row.items.length > 0 || row.shift)
+      .sort((a, b) => b.items.length - a.items.length || a.label.localeCompare(b.label));
+
+    // Drivers on trips but missing from the roster still get a row
+    const knownDriverIds = new Set(drivers.map(driver => driver.id));
+    const rosterGaps = new Map<string, TimelineRow>();
+    dayItems.forEach(item => {
+      const driver = item.trip.driver;
+      if (!driver || knownDriverIds.has(driver.id)) return;
+
+      const row = rosterGaps.get(driver.id) || {
+        id: driver.id,
+        label: `${driver.firstName} ${driver.lastName}`,
+        shift: null,
+        items: []
+      };
+      row.items.push(item);
+      rosterGaps.set(driver.id, row);
+    });
+
+    const unassigned = dayItems.filter(item => !item.trip.driver);
+
+    return [
+      ...driverRows,
+      ...Array.from(rosterGaps.values()),
+      ...(unassigned.length > 0
+        ? [{ id: 'unassigned', label: 'Unassigned', shift: null, items: unassigned }]
+        : [])
+    ];
+  }, [trips, drivers, dayRange, showShifts]);
+
+  const toOffset = (date: Date) => (differenceInMinutes(date, dayRange.start) / 60) * HOUR_WIDTH;
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-600">
+        {showShifts
+          ? `No scheduled trips or driver shifts on ${format(day, 'EEEE, MMM d')}.`
+          : `No scheduled trips on ${format(day, 'EEEE, MMM d')}.`}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-auto max-h-[70vh]">
+      <div style={{ minWidth: 192 + HOUR_WIDTH * 24 }}>
+        {/* Hour Header */}
+        <div className="flex sticky top-0 z-10 bg-white border-b">
+          <div className="w-48 shrink-0 px-3 py-2 text-xs font-medium text-gray-600">
+            Driver
+            <span className="block font-normal text-gray-400">
+              {showShifts ? 'Shaded: current shift' : 'Shifts shown for today only'}
+            </span>
+          </div>
+          {HOURS.map(hour => (
+            <div
+              key={hour}
+              className="shrink-0 border-l px-1 py-2 text-xs text-gray-500"
+              style={{ width: HOUR_WIDTH }}
+            >
+              {format(new Date(2000, 0, 1, hour), 'h a')}
+            </div>
+          ))}
+        </div>
+
+        {rows.map(row => {
+          const { lanes, laneCount } = assignLanes(row.items, item => item.window);
+          const rowConflicts = row.items.filter(item => conflicts.has(item.trip.id)).length;
+
+          return (
+            <div key={row.id} className="flex border-b">
+              <div className="w-48 shrink-0 px-3 py-2 sticky left-0 bg-white z-[5]">
+                <p className="text-sm font-medium truncate">{row.label}</p>
+                {row.sublabel && <p className="text-xs text-gray-500 truncate">{row.sublabel}</p>}
+                {rowConflicts > 0 && (
+                  <p className="flex items-center gap-1 text-xs text-red-600">
+                    <AlertTriangle className="h-3 w-3" />
+                    Double-booked
+                  </p>
+                )}
+              </div>
+
+              <div
+                className="relative"
+                style={{ width: HOUR_WIDTH * 24, height: Math.max(48, laneCount * LANE_HEIGHT + 12) }}
+              >
+                {/* Hour Grid */}
+                {HOURS.map(hour => (
+                  <div
+                    key={hour}
+                    className="absolute top-0 bottom-0 border-l border-gray-100"
+                    style={{ left: hour * HOUR_WIDTH }}
+                  />
+                ))}
+
+                {/* Driver Shift */}
+                {row.shift && (
+                  <div
+                    className="absolute top-0 bottom-0 bg-green-50 border-x border-green-200"
+                    style={{ left: toOffset(row.shift.start), width: toOffset(row.shift.end) - toOffset(row.shift.start) }}
+                    title={`Current shift ${format(row.shift.start, 'h:mm a')} – ${format(row.shift.end, 'h:mm a')}`}
+                  />
+                )}
+
+                {/* Trips */}
+                {row.items.map(item => {
+                  const { trip, window } = item;
+                  const isConflict = conflicts.has(trip.id);
+                  const left = toOffset(window.start);
+                  const width = Math.max(24, toOffset(window.end) - left);
+
+                  return (
+                    <button
+                      key={trip.id}
+                      onClick={() => onSelectTrip?.(trip)}
+                      className={cn(
+                        'absolute rounded border-l-4 px-1 text-left text-xs overflow-hidden hover:shadow-md transition-shadow',
+                        getScheduleBlockClass(trip, isConflict)
+                      )}
+                      style={{
+                        left,
+                        width,
+                        top: 6 + (lanes.get(item) || 0) * LANE_HEIGHT,
+                        height: LANE_HEIGHT - 4
+                      }}
+                      title={`${format(window.start, 'h:mm a')} – ${format(window.end, 'h:mm a')} • ${trip.pickup.address}`}
+                    >
+                      <div className="flex items-center gap-1 font-medium truncate">
+                        {isConflict && <AlertTriangle className="h-3 w-3 shrink-0" />}
+                        <span className="truncate">{trip.rider.firstName} {trip.rider.lastName}</span>
+                      </div>
+                      <div className="truncate">#{trip.id.slice(-6).toUpperCase()}</div>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default ScheduleTimeline;
@@ -1,9 +1,10 @@
 'use client';
 
 import React, { useState, useCallback } from 'react';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
+import { parse } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
@@ -28,7 +29,6 @@ import { Calendar } from '@/components/ui/calendar';
 import {
   MapPin,
   User,
-  Car,
   Clock,
   DollarSign,
   Search,
@@ -36,7 +36,12 @@ import {
   Navigation,
   AlertCircle,
   Calendar as CalendarIcon,
-  X
+  X,
+  GripVertical,
+  Milestone,
+  Route,
+  Wand2,
+  Tag
 } from 'lucide-react';
 import {
   TripCreateRequest,
@@ -45,11 +50,31 @@ import {
   PaymentType,
   Rider,
   Location,
-  Driver
+  AccessibilityNeed,
+  Coordinates,
+  RecurringTripSeries,
+  Trip
 } from '@/types';
 import { api } from '@/services/api';
 import { useTripStore } from '@/store';
-import { formatCurrency, formatDuration } from '@/lib/utils';
+import { useAuth } from '@/lib/auth-context';
+import { DriverRecommendation, rankDrivers } from '@/lib/driver-scoring';
+import { describeRecurrence, planSeriesGeneration } from '@/lib/recurrence';
+import {
+  MAX_WAYPOINTS,
+  RouteLegEstimate,
+  routeDistance,
+  solveStopOrder
+} from '@/lib/route-planning';
+import { distanceMeters, metersToUnit } from '@/lib/geo';
+import { calculateFare } from '@/lib/fares';
+import { findSavedPlace } from '@/lib/saved-places';
+import { formatCurrency, formatDuration, cn } from '@/lib/utils';
+import { DriverRecommendations } from './driver-recommendations';
+import { RecurrenceDraft, RecurrenceEditor } from './recurrence-editor';
+import { RouteLegs } from './route-legs';
+import { FareBreakdownTable } from './fare-breakdown';
+import { SavedPlaceChips } from '@/components/riders/saved-place-chips';
 
 // Form validation schema
 const tripSchema = z.object({
@@ -76,6 +101,18 @@ const tripSchema = z.object({
     }),
     instructions: z.string().optional()
   }),
+  // Stops are added empty and only get coordinates once their address is geocoded
+  waypoints: z.array(z.object({
+    address: z.string().min(1, 'Stop address is required'),
+    coordinates: z.object({
+      latitude: z.number(),
+      longitude: z.number()
+    }).optional(),
+    instructions: z.string().optional()
+  }).refine(waypoint => !waypoint.address || !!waypoint.coordinates, {
+    message: 'Address could not be located. Check it or pick a different one.',
+    path: ['coordinates']
+  })).max(MAX_WAYPOINTS).optional(),
   serviceType: z.nativeEnum(ServiceType),
   scheduledAt: z.date().optional(),
   specialInstructions: z.string().optional(),
@@ -83,19 +120,22 @@ const tripSchema = z.object({
     type: z.nativeEnum(PaymentType),
     id: z.string()
   }),
-  priority: z.nativeEnum(TripPriority)
+  priority: z.nativeEnum(TripPriority),
+  promoCode: z.string().optional()
 });
 
 type TripFormData = z.infer<typeof tripSchema>;
 
 interface TripCreationWizardProps {
-  onSuccess?: (trip: any) => void;
+  onSuccess?: (trip: any, assignmentError?: string) => void; // assignmentError: created, but left unassigned
+  onSeriesCreated?: (series: RecurringTripSeries, trips: Trip[]) => void;
   onCancel?: () => void;
   defaultValues?: Partial<TripFormData>;
 }
 
 export function TripCreationWizard({
   onSuccess,
+  onSeriesCreated,
   onCancel,
   defaultValues
 }: TripCreationWizardProps) {
@@ -106,9 +146,16 @@ export function TripCreationWizard({
   const [riderSearchQuery, setRiderSearchQuery] = useState('');
   const [riderSearchResults, setRiderSearchResults] = useState<Rider[]>([]);
   const [routeEstimate, setRouteEstimate] = useState<any>(null);
-  const [availableDrivers, setAvailableDrivers] = useState<Driver[]>([]);
+  const [driverRecommendations, setDriverRecommendations] = useState<DriverRecommendation[]>([]);
+  const [assignedDriverId, setAssignedDriverId] = useState<string | null>(null);
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft | null>(null);
+  const [legEstimates, setLegEstimates] = useState<(RouteLegEstimate | null)[]>([]);
+  const [isRouting, setIsRouting] = useState(false);
+  const [draggedWaypointIndex, setDraggedWaypointIndex] = useState<number | null>(null);
+  const [optimizationSavings, setOptimizationSavings] = useState<number | null>(null);
 
-  const { addTrip } = useTripStore();
+  const { trips, addTrip, updateTrip } = useTripStore();
+  const { currentTenant } = useAuth();
 
   const form = useForm<TripFormData>({
     resolver: zodResolver(tripSchema),
@@ -123,9 +170,40 @@ export function TripCreationWizard({
     }
   });
 
-  const { handleSubmit, watch, setValue, formState: { errors } } = form;
+  const { handleSubmit, watch, setValue, getValues, formState: { errors } } = form;
+
+  const {
+    fields: waypointFields,
+    append: appendWaypoint,
+    remove: removeWaypoint,
+    move: moveWaypoint,
+    replace: replaceWaypoints
+  } = useFieldArray({ control: form.control, name: 'waypoints' });
 
   const watchedValues = watch();
+  const seriesStartDate = watchedValues.scheduledAt || new Date();
+  const stopLabels = ['Pickup', ...waypointFields.map((_, index) => `Stop ${index + 1}`), 'Destination'];
+  const currency = currentTenant?.settings.currency;
+  const distanceUnit = currentTenant?.settings.distanceUnit ?? 'miles';
+  const distanceLabel = distanceUnit === 'kilometers' ? 'km' : 'mi';
+  const savedPlaces = selectedRider?.savedPlaces || [];
+
+  // Recurring trips are priced at their pickup time rather than the start of the day
+  const farePickupAt = recurrence
+    ? parse(recurrence.pickupTime, 'HH:mm', seriesStartDate)
+    : watchedValues.scheduledAt || new Date();
+
+  const fareBreakdown = routeEstimate && watchedValues.serviceType
+    ? calculateFare({
+      serviceType: watchedValues.serviceType,
+      distance: routeEstimate.distance,
+      durationMinutes: routeEstimate.duration,
+      pickupAt: farePickupAt,
+      needsWheelchair: watchedValues.serviceType === ServiceType.WHEELCHAIR
+        || !!selectedRider?.accessibilityNeeds?.includes(AccessibilityNeed.WHEELCHAIR),
+      promoCode: watchedValues.promoCode
+    }, currentTenant?.settings)
+    : null;
 
   // Search for riders
   const handleRiderSearch = useCallback(async (query: string) => {
@@ -162,46 +240,175 @@ export function TripCreationWizard({
   };
 
   // Geocode address
-  const handleAddressLookup = async (address: string, type: 'pickup' | 'destination') => {
+  const handleAddressLookup = async (
+    address: string,
+    type: 'pickup' | 'destination' | `waypoints.${number}`
+  ) => {
     if (!address.trim()) return;
 
+    // Addresses the rider has saved are already geocoded
+    const savedPlace = findSavedPlace(selectedRider?.savedPlaces, address);
+    if (savedPlace) {
+      setValue(`${type}.coordinates`, savedPlace.coordinates);
+      const { pickup, destination } = getValues();
+      if (pickup?.coordinates && destination?.coordinates) {
+        calculateRoute();
+      }
+      return;
+    }
+
+    const isWaypoint = type.startsWith('waypoints.');
+
     try {
       const response = await api.geo.geocodeAddress(address);
-      if (response.success && response.data) {
-        setValue(`${type}.coordinates`, response.data.coordinates);
-
-        // If both addresses are set, calculate route
-        if (watchedValues.pickup?.coordinates && watchedValues.destination?.coordinates) {
-          calculateRoute();
+      if (!response.success || !response.data) {
+        // A stop keeps no stale coordinates from an earlier address, and says why it cannot be submitted
+        if (isWaypoint) {
+          const stop = type as `waypoints.${number}`;
+          setValue(`${stop}.coordinates`, undefined);
+          form.setError(`${stop}.coordinates`, {
+            type: 'geocode',
+            message: 'Address could not be located. Check it or pick a different one.'
+          });
         }
+        return;
+      }
+
+      setValue(`${type}.coordinates`, response.data.coordinates);
+      if (isWaypoint) {
+        form.clearErrors(`${type as `waypoints.${number}`}.coordinates`);
+      }
+
+      // If both addresses are set, calculate route
+      const { pickup, destination } = getValues();
+      if (pickup?.coordinates && destination?.coordinates) {
+        calculateRoute();
       }
     } catch (error) {
       console.error('Failed to geocode address:', error);
     }
   };
 
-  // Calculate route and estimate
+  // Fill pickup or destination from one of the rider's saved places
+  const handleSavedPlaceSelect = (place: Location, type: 'pickup' | 'destination') => {
+    setValue(`${type}.address`, place.address, { shouldValidate: true });
+    setValue(`${type}.coordinates`, place.coordinates);
+    if (place.instructions) {
+      setValue(`${type}.instructions`, place.instructions);
+    }
+
+    const { pickup, destination } = getValues();
+    if (pickup?.coordinates && destination?.coordinates) {
+      calculateRoute();
+    }
+  };
+
+  // Estimate a single leg between two stops
+  const fetchLegEstimate = async (from: Coordinates, to: Coordinates): Promise<RouteLegEstimate | null> => {
+    try {
+      const response = await api.geo.calculateRoute(from, to);
+      if (response.success && response.data) {
+        const { distance, duration, estimatedFare } = response.data;
+        return { distance, duration, estimatedFare };
+      }
+    } catch (error) {
+      console.error('Failed to estimate route leg:', error);
+    }
+    return null;
+  };
+
+  // Calculate the overall route estimate, plus one estimate per leg when the trip has stops
   const calculateRoute = async () => {
-    const pickup = watchedValues.pickup;
-    const destination = watchedValues.destination;
+    const { pickup, destination, waypoints = [] } = getValues();
 
     if (!pickup?.coordinates || !destination?.coordinates) return;
 
+    // Legs are only meaningful once every stop has been geocoded
+    const stopCoordinates = waypoints
+      .map(waypoint => waypoint.coordinates)
+      .filter((coordinates): coordinates is Coordinates => !!coordinates);
+    const stops = stopCoordinates.length === waypoints.length ? stopCoordinates : null;
+    const points = stops ? [pickup.coordinates, ...stops, destination.coordinates] : [];
+
+    setIsRouting(true);
+
     try {
-      const response = await api.geo.calculateRoute(
-        pickup.coordinates,
-        destination.coordinates
-      );
+      const [response, legs] = await Promise.all([
+        api.geo.calculateRoute(
+          pickup.coordinates,
+          destination.coordinates,
+          stops?.length ? stops : undefined
+        ),
+        stops?.length
+          ? Promise.all(points.slice(1).map((point, index) => fetchLegEstimate(points[index], point)))
+          : Promise.resolve([])
+      ]);
 
       if (response.success && response.data) {
         setRouteEstimate(response.data);
       }
+      setLegEstimates(legs);
     } catch (error) {
       console.error('Failed to calculate route:', error);
+    } finally {
+      setIsRouting(false);
     }
   };
 
-  // Get available drivers
+  // Reorder stops to minimize total distance, using road distances between every pair of points
+  const handleOptimizeOrder = async () => {
+    const { pickup, destination, waypoints = [] } = getValues();
+
+    if (!pickup?.coordinates || !destination?.coordinates || waypoints.length < 2) return;
+    if (waypoints.some(waypoint => !waypoint.coordinates)) {
+      setError('Enter an address for every stop before optimizing the order');
+      return;
+    }
+
+    const points = [pickup.coordinates, ...waypoints.map(waypoint => waypoint.coordinates!), destination.coordinates];
+    const last = points.length - 1;
+
+    setIsRouting(true);
+    setError(null);
+
+    try {
+      // Nothing leaves the destination or returns to the pickup, so those pairs are never routed
+      const matrix = await Promise.all(points.map((from, i) => Promise.all(points.map(async (to, j) => {
+        if (i === j || i === last || j === 0) return 0;
+        const leg = await fetchLegEstimate(from, to);
+        return leg ? leg.distance : metersToUnit(distanceMeters(from, to), distanceUnit);
+      }))));
+
+      const order = solveStopOrder(matrix);
+      const currentOrder = waypoints.map((_, index) => index);
+      setOptimizationSavings(routeDistance(matrix, currentOrder) - routeDistance(matrix, order));
+
+      replaceWaypoints(order.map(index => waypoints[index]));
+      await calculateRoute();
+    } catch (error) {
+      console.error('Failed to optimize stop order:', error);
+      setError('Failed to optimize stop order');
+    } finally {
+      setIsRouting(false);
+    }
+  };
+
+  const handleRemoveWaypoint = (index: number) => {
+    removeWaypoint(index);
+    setOptimizationSavings(null);
+    calculateRoute();
+  };
+
+  const handleWaypointDrop = (index: number) => {
+    if (draggedWaypointIndex === null || draggedWaypointIndex === index) return;
+
+    moveWaypoint(draggedWaypointIndex, index);
+    setDraggedWaypointIndex(null);
+    setOptimizationSavings(null);
+    calculateRoute();
+  };
+
+  // Get available drivers ranked for this trip
   const getAvailableDrivers = async () => {
     const pickup = watchedValues.pickup;
     const serviceType = watchedValues.serviceType;
@@ -215,34 +422,120 @@ export function TripCreationWizard({
       );
 
       if (response.success && response.data) {
-        setAvailableDrivers(response.data);
+        setDriverRecommendations(rankDrivers(response.data, {
+          pickup: pickup.coordinates,
+          serviceType,
+          rider: selectedRider,
+          tripDurationMinutes: routeEstimate?.duration,
+          activeTrips: trips
+        }));
       }
     } catch (error) {
       console.error('Failed to get available drivers:', error);
     }
   };
 
-  // Submit the form
-  const onSubmit = async (data: TripFormData) => {
+  // Create a recurring series and generate its trips for the default horizon
+  const createSeries = async (data: TripFormData, rule: RecurrenceDraft) => {
+    const { scheduledAt, ...template } = data as TripCreateRequest;
+    const recurrence = { ...rule, startDate: scheduledAt || new Date() };
+    const riderName = selectedRider
+      ? `${selectedRider.firstName} ${selectedRider.lastName}`
+      : `${data.riderInfo?.firstName} ${data.riderInfo?.lastName}`;
+
+    const seriesResponse = await api.recurring.createSeries({
+      name: `${riderName} to ${data.destination.address}`,
+      template,
+      recurrence,
+      exceptions: [],
+      isActive: true
+    });
+
+    if (!seriesResponse.success || !seriesResponse.data) {
+      setError(seriesResponse.error?.message || 'Failed to create recurring trip');
+      return;
+    }
+
+    let series = seriesResponse.data;
+    const { requests, generatedUntil } = planSeriesGeneration(
+      series,
+      undefined,
+      currentTenant?.settings.operatingHours
+    );
+
+    let created: Trip[] = [];
+    if (requests.length > 0) {
+      const tripsResponse = await api.trips.createTrips(requests);
+      if (!tripsResponse.success || !tripsResponse.data) {
+        setError(tripsResponse.error?.message || 'Recurring trip saved, but its trips could not be generated');
+        return;
+      }
+      created = tripsResponse.data;
+      created.forEach(trip => addTrip(trip));
+    }
+
+    const updateResponse = await api.recurring.updateSeries(series.id, { generatedUntil });
+    if (updateResponse.success && updateResponse.data) {
+      series = updateResponse.data;
+    }
+
+    onSeriesCreated?.(series, created);
+  };
+
+  // Submit the form, optionally assigning a recommended driver to the new trip
+  const onSubmit = async (data: TripFormData, driverId?: string) => {
     setIsLoading(true);
     setError(null);
 
     try {
+      if (recurrence) {
+        await createSeries(data, recurrence);
+        return;
+      }
+
       const response = await api.trips.createTrip(data as TripCreateRequest);
 
       if (response.success && response.data) {
-        addTrip(response.data);
-        onSuccess?.(response.data);
+        let trip = response.data;
+        let assignmentError: string | undefined;
+        addTrip(trip);
+
+        if (driverId) {
+          const assignResponse = await api.trips.assignDriver(trip.id, {
+            tripId: trip.id,
+            driverId
+          });
+
+          if (assignResponse.success && assignResponse.data) {
+            trip = assignResponse.data;
+            updateTrip(trip.id, trip);
+          } else {
+            // The trip exists now, so report it as created but unassigned rather than failing the submit
+            console.error('Failed to assign driver:', assignResponse.error);
+            assignmentError = assignResponse.error?.message || 'Failed to assign driver';
+            setAssignedDriverId(null);
+          }
+        }
+
+        onSuccess?.(trip, assignmentError);
       } else {
+        setAssignedDriverId(null);
         setError(response.error?.message || 'Failed to create trip');
       }
     } catch (err: any) {
+      setAssignedDriverId(null);
       setError(err.message || 'Failed to create trip');
     } finally {
       setIsLoading(false);
     }
   };
 
+  // One-click assignment creates the trip and assigns the chosen driver
+  const handleAssignDriver = (driverId: string) => {
+    setAssignedDriverId(driverId);
+    handleSubmit((data) => onSubmit(data, driverId))();
+  };
+
   const renderStep = () => {
     switch (step) {
       case 1:
@@ -426,6 +719,13 @@ export function TripCreationWizard({
                 </p>
               )}
             </div>
+            {savedPlaces.length > 0 && (
+              <SavedPlaceChips
+                places={savedPlaces}
+                selectedAddress={watchedValues.pickup?.address}
+                onSelect={(place) => handleSavedPlaceSelect(place, 'pickup')}
+              />
+            )}
             <div>
               <label className="text-sm font-medium">Special Instructions</label>
               <Textarea
@@ -459,6 +759,13 @@ export function TripCreationWizard({
                 </p>
               )}
             </div>
+            {savedPlaces.length > 0 && (
+              <SavedPlaceChips
+                places={savedPlaces}
+                selectedAddress={watchedValues.destination?.address}
+                onSelect={(place) => handleSavedPlaceSelect(place, 'destination')}
+              />
+            )}
             <div>
               <label className="text-sm font-medium">Special Instructions</label>
               <Textarea
@@ -471,6 +778,104 @@ export function TripCreationWizard({
         </Card>
       </div>
 
+      {/* Intermediate Stops */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Milestone className="h-4 w-4" />
+              Stops ({waypointFields.length}/{MAX_WAYPOINTS})
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={handleOptimizeOrder}
+                disabled={waypointFields.length < 2 || isRouting}
+              >
+                <Wand2 className="h-4 w-4 mr-2" />
+                Optimize Order
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => appendWaypoint({ address: '' })}
+                disabled={waypointFields.length >= MAX_WAYPOINTS}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Stop
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {waypointFields.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No stops between pickup and destination.
+            </p>
+          ) : (
+            waypointFields.map((field, index) => (
+              <div
+                key={field.id}
+                draggable
+                onDragStart={() => setDraggedWaypointIndex(index)}
+                onDragEnd={() => setDraggedWaypointIndex(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleWaypointDrop(index)}
+                className={cn(
+                  'flex items-start gap-2 rounded-md border p-2 bg-white',
+                  draggedWaypointIndex === index && 'opacity-50'
+                )}
+              >
+                <GripVertical className="h-4 w-4 mt-2.5 shrink-0 text-gray-400 cursor-grab" />
+                <span className="mt-2 w-14 shrink-0 text-sm font-medium text-gray-700">
+                  Stop {index + 1}
+                </span>
+                <div className="flex-1">
+                  <Input
+                    {...form.register(`waypoints.${index}.address`)}
+                    placeholder="Stop address"
+                    onBlur={(e) => handleAddressLookup(e.target.value, `waypoints.${index}`)}
+                  />
+                  {errors.waypoints?.[index]?.address && (
+                    <p className="text-sm text-red-600 mt-1">
+                      {errors.waypoints[index]?.address?.message}
+                    </p>
+                  )}
+                  {!errors.waypoints?.[index]?.address && errors.waypoints?.[index]?.coordinates && (
+                    <p className="text-sm text-red-600 mt-1">
+                      {errors.waypoints[index]?.coordinates?.message}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveWaypoint(index)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {optimizationSavings !== null && (
+            <p className="text-sm text-green-700">
+              {optimizationSavings > 0.05
+                ? `Optimized order saves ${optimizationSavings.toFixed(1)} ${distanceLabel}.`
+                : 'Stops are already in the shortest order.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Route Estimate */}
       {routeEstimate && (
         <Card className="border-blue-200 bg-blue-50">
@@ -486,7 +891,7 @@ export function TripCreationWizard({
                 <div className="flex items-center gap-2">
                   <MapPin className="h-4 w-4 text-blue-600" />
                   <span className="text-sm font-medium">
-                    {routeEstimate.distance} miles
+                    {routeEstimate.distance} {distanceLabel}
                   </span>
                 </div>
               </div>
@@ -497,6 +902,16 @@ export function TripCreationWizard({
                 </span>
               </div>
             </div>
+
+            {waypointFields.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-blue-200">
+                <p className="text-sm font-medium flex items-center gap-2 mb-2">
+                  <Route className="h-4 w-4 text-blue-600" />
+                  Legs
+                </p>
+                <RouteLegs stopLabels={stopLabels} legs={legEstimates} isLoading={isRouting} distanceUnit={distanceUnit} />
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -558,6 +973,12 @@ export function TripCreationWizard({
               className="rounded-md border"
             />
           </div>
+
+          <RecurrenceEditor
+            value={recurrence}
+            onChange={setRecurrence}
+            startDate={seriesStartDate}
+          />
         </div>
       </div>
 
@@ -601,6 +1022,15 @@ export function TripCreationWizard({
                 <p className="text-sm text-gray-600">{watchedValues.pickup?.address}</p>
               </div>
             </div>
+            {watchedValues.waypoints?.map((waypoint, index) => (
+              <div key={index} className="flex items-start gap-3">
+                <Milestone className="h-4 w-4 text-blue-600 mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium">Stop {index + 1}</p>
+                  <p className="text-sm text-gray-600">{waypoint.address}</p>
+                </div>
+              </div>
+            ))}
             <div className="flex items-start gap-3">
               <Navigation className="h-4 w-4 text-red-600 mt-0.5" />
               <div>
@@ -626,6 +1056,14 @@ export function TripCreationWizard({
             </div>
           </div>
 
+          {/* Recurrence */}
+          {recurrence && (
+            <div className="flex items-center justify-between pt-2 border-t">
+              <span className="text-sm font-medium">Repeats:</span>
+              <span className="text-sm">{describeRecurrence({ ...recurrence, startDate: seriesStartDate })}</span>
+            </div>
+          )}
+
           {/* Route Estimate */}
           {routeEstimate && (
             <div className="pt-2 border-t">
@@ -635,47 +1073,59 @@ export function TripCreationWizard({
                     {formatDuration(routeEstimate.duration)}
                   </span>
                   <span className="text-sm">
-                    {routeEstimate.distance} miles
+                    {routeEstimate.distance} {distanceLabel}
                   </span>
                 </div>
                 <span className="text-sm font-medium">
-                  Est. {formatCurrency(routeEstimate.estimatedFare)}
+                  Est. {formatCurrency(fareBreakdown?.total ?? routeEstimate.estimatedFare, currency)}
                 </span>
               </div>
+              {waypointFields.length > 0 && (
+                <div className="mt-3">
+                  <RouteLegs stopLabels={stopLabels} legs={legEstimates} isLoading={isRouting} distanceUnit={distanceUnit} />
+                </div>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
 
-      {/* Available Drivers */}
-      {availableDrivers.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-base">Available Drivers ({availableDrivers.length})</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {availableDrivers.slice(0, 3).map((driver) => (
-                <div key={driver.id} className="flex items-center gap-3 p-2 bg-gray-50 rounded">
-                  <Car className="h-4 w-4 text-blue-600" />
-                  <div className="flex-1">
-                    <p className="text-sm font-medium">
-                      {driver.firstName} {driver.lastName}
-                    </p>
-                    <p className="text-xs text-gray-600">
-                      {driver.vehicle.make} {driver.vehicle.model} • Rating: {driver.rating.toFixed(1)}
-                    </p>
-                  </div>
-                </div>
-              ))}
-              {availableDrivers.length > 3 && (
-                <p className="text-xs text-gray-600 text-center">
-                  +{availableDrivers.length - 3} more drivers available
-                </p>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+      {/* Fare */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <DollarSign className="h-4 w-4" />
+            Fare Estimate
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="relative">
+            <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              {...form.register('promoCode')}
+              placeholder="Promo code"
+              className="pl-10 uppercase"
+            />
+          </div>
+
+          {fareBreakdown ? (
+            <FareBreakdownTable breakdown={fareBreakdown} currency={currency} />
+          ) : (
+            <p className="text-sm text-gray-500">
+              Enter pickup and destination to estimate the fare.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recommended Drivers, for one-off trips only */}
+      {!recurrence && driverRecommendations.length > 0 && (
+        <DriverRecommendations
+          recommendations={driverRecommendations}
+          selectedDriverId={assignedDriverId}
+          onAssign={handleAssignDriver}
+          isLoading={isLoading}
+        />
       )}
 
       {error && (
@@ -725,7 +1175,7 @@ export function TripCreationWizard({
       </div>
 
       {/* Step Content */}
-      <form onSubmit={handleSubmit(onSubmit)}>
+      <form onSubmit={handleSubmit((data) => onSubmit(data))}>
         {renderStep()}
 
         {/* Navigation Buttons */}
@@ -773,7 +1223,9 @@ export function TripCreationWizard({
                 type="submit"
                 disabled={isLoading}
               >
-                {isLoading ? 'Creating Trip...' : 'Create Trip'}
+                {isLoading
+                  ? 'Creating Trip...'
+                  : recurrence ? 'Create Recurring Trip' : 'Create Trip'}
               </Button>
             )}
           </div>
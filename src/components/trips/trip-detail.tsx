@@ -0,0 +1,527 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import Map, { Marker } from 'react-map-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { format } from 'date-fns';
+import { AuditLog, Trip, TripStatus } from '@/types';
+import { useTripStore, useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
+import { api } from '@/services/api';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowLeft,
+  Car,
+  ClipboardList,
+  History,
+  Loader2,
+  MapPin,
+  MessageSquare,
+  Navigation,
+  Phone,
+  RefreshCw,
+  Star,
+  Tag,
+  User
+} from 'lucide-react';
+import { TripRouteOverlay } from '@/components/map/trip-route-overlay';
+import { TripTimeline } from './trip-timeline';
+import { FareBreakdownTable } from './fare-breakdown';
+import { getTripFareBreakdown } from '@/lib/fares';
+import { formatTripStatus } from '@/lib/trip-status';
+import { MAPBOX_TOKEN, getMapStyle, isValidCoordinates } from '@/lib/map';
+import { resolveRouteParam } from '@/lib/routes';
+import { formatCurrency, formatDuration, formatPhoneNumber, cn } from '@/lib/utils';
+
+const AUDIT_LOG_LIMIT = 50;
+
+interface TripDetailProps {
+  tripId: string;
+}
+
+/**
+ * Display value for a metadata or audit field
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function TripDetail({ tripId }: TripDetailProps) {
+  const { trips } = useTripStore();
+  const { addNotification } = useUIStore();
+  const { currentTenant } = useAuth();
+
+  const [resolvedId, setResolvedId] = useState<string | null>(null);
+  const [fetchedTrip, setFetchedTrip] = useState<Trip | null>(null);
+  const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAuditLoading, setIsAuditLoading] = useState(false);
+  const mapStyle = useMemo(() => getMapStyle(), []);
+
+  // The static shell page carries a placeholder id, so read the real one from the URL
+  useEffect(() => {
+    setResolvedId(resolveRouteParam(tripId));
+  }, [tripId]);
+
+  useEffect(() => {
+    if (resolvedId) {
+      loadTrip(resolvedId);
+      loadAuditLogs(resolvedId);
+    } else {
+      setIsLoading(false);
+    }
+  }, [resolvedId]);
+
+  // Prefer live updates from the store once the trip is there
+  const trip = trips.find(item => item.id === resolvedId) || fetchedTrip;
+
+  const loadTrip = async (id: string) => {
+    setIsLoading(true);
+
+    try {
+      const response = await api.trips.getTripById(id);
+      if (response.success && response.data) {
+        setFetchedTrip(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load trip:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load trip details. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAuditLogs = async (id: string) => {
+    setIsAuditLoading(true);
+
+    try {
+      const response = await api.audit.getAuditLogs(
+        { page: 1, limit: AUDIT_LOG_LIMIT },
+        { resourceType: 'trip', resourceId: id }
+      );
+      if (response.success && response.data) {
+        setAuditLogs(
+          [...response.data.logs].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        );
+      }
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+    } finally {
+      setIsAuditLoading(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    if (!resolvedId) return;
+    loadTrip(resolvedId);
+    loadAuditLogs(resolvedId);
+  };
+
+  if (isLoading && !trip) {
+    return (
+      <div className="p-6 flex items-center justify-center h-64">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (!trip) {
+    return (
+      <div className="p-6 space-y-4">
+        <Link href="/trips" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700">
+          <ArrowLeft className="h-4 w-4" />
+          Trips
+        </Link>
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            Trip {resolvedId ? `#${resolvedId.slice(-8).toUpperCase()} ` : ''}was not found.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const currency = currentTenant?.settings.currency;
+  const fareBreakdown = getTripFareBreakdown(trip, currentTenant?.settings);
+  const metadataEntries = Object.entries(trip.metadata || {});
+  const mapPoints = [
+    trip.pickup.coordinates,
+    ...(trip.waypoints || []).map(waypoint => waypoint.coordinates),
+    trip.destination.coordinates
+  ].filter(isValidCoordinates);
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/trips" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft className="h-4 w-4" />
+            Trips
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+            Trip #{trip.id.slice(-8).toUpperCase()}
+            <Badge variant={trip.status === TripStatus.CANCELLED || trip.status === TripStatus.NO_SHOW ? 'destructive' : 'secondary'} className="capitalize">
+              {formatTripStatus(trip.status)}
+            </Badge>
+          </h1>
+          <p className="text-gray-600 capitalize">
+            {trip.serviceType} • {trip.priority} priority • {trip.paymentMethod.type.replace(/_/g, ' ')}
+            {trip.paymentMethod.last4 && ` •••• ${trip.paymentMethod.last4}`}
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRefresh} disabled={isLoading}>
+          <RefreshCw className={cn('h-4 w-4 mr-2', isLoading && 'animate-spin')} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Route Map */}
+          <Card>
+            <CardContent className="p-0">
+              <div className="h-80 bg-gray-100 rounded-t-lg overflow-hidden">
+                {mapPoints.length > 0 && (
+                  <Map
+                    initialViewState={{
+                      bounds: [
+                        [Math.min(...mapPoints.map(p => p.longitude)), Math.min(...mapPoints.map(p => p.latitude))],
+                        [Math.max(...mapPoints.map(p => p.longitude)), Math.max(...mapPoints.map(p => p.latitude))]
+                      ],
+                      fitBoundsOptions: { padding: 48, maxZoom: 15 }
+                    }}
+                    mapStyle={mapStyle}
+                    mapboxAccessToken={MAPBOX_TOKEN}
+                    style={{ width: '100%', height: '100%' }}
+                    attributionControl
+                  >
+                    <TripRouteOverlay key={trip.id} trip={trip} />
+
+                    {isValidCoordinates(trip.pickup.coordinates) && (
+                      <Marker
+                        longitude={trip.pickup.coordinates.longitude}
+                        latitude={trip.pickup.coordinates.latitude}
+                        anchor="bottom"
+                      >
+                        <MapPin className="h-6 w-6 text-green-600" />
+                      </Marker>
+                    )}
+
+                    {(trip.waypoints || []).filter(waypoint => isValidCoordinates(waypoint.coordinates)).map((waypoint, index) => (
+                      <Marker
+                        key={`waypoint-${index}`}
+                        longitude={waypoint.coordinates.longitude}
+                        latitude={waypoint.coordinates.latitude}
+                        anchor="center"
+                      >
+                        <span className="flex h-5 w-5 items-center justify-center rounded-full bg-amber-500 text-[10px] font-bold text-white border-2 border-white">
+                          {index + 1}
+                        </span>
+                      </Marker>
+                    ))}
+
+                    {isValidCoordinates(trip.destination.coordinates) && (
+                      <Marker
+                        longitude={trip.destination.coordinates.longitude}
+                        latitude={trip.destination.coordinates.latitude}
+                        anchor="bottom"
+                      >
+                        <Navigation className="h-6 w-6 text-red-600" />
+                      </Marker>
+                    )}
+                  </Map>
+                )}
+              </div>
+              <div className="p-4 space-y-2 text-sm">
+                <div className="flex items-start gap-2">
+                  <MapPin className="h-4 w-4 text-green-600 mt-0.5 shrink-0" />
+                  <span>{trip.pickup.address}</span>
+                </div>
+                {(trip.waypoints || []).map((waypoint, index) => (
+                  <div key={index} className="flex items-start gap-2 text-gray-600">
+                    <span className="w-4 text-center text-xs font-medium text-amber-600 mt-0.5 shrink-0">{index + 1}</span>
+                    <span>{waypoint.address}</span>
+                  </div>
+                ))}
+                <div className="flex items-start gap-2">
+                  <Navigation className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+                  <span>{trip.destination.address}</span>
+                </div>
+                <p className="text-gray-500 pt-1">
+                  {trip.estimatedDistance.toFixed(1)} {currentTenant?.settings.distanceUnit === 'kilometers' ? 'km' : 'mi'}
+                  {' • '}
+                  {formatDuration(trip.estimatedDuration)}
+                  {(trip.passengerCount ?? 1) > 1 && ` • ${trip.passengerCount} passengers`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Rider and Driver */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  Rider
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <p className="font-medium flex items-center gap-2">
+                  <Link href={`/riders/${trip.rider.id}`} className="text-blue-600 hover:underline">
+                    {trip.rider.firstName} {trip.rider.lastName}
+                  </Link>
+                  {trip.rider.isVip && <Badge variant="secondary">VIP</Badge>}
+                </p>
+                <p className="flex items-center gap-2 text-gray-600">
+                  <Phone className="h-3 w-3" />
+                  {formatPhoneNumber(trip.rider.phone)}
+                </p>
+                {trip.rider.email && <p className="text-gray-600">{trip.rider.email}</p>}
+                <p className="text-gray-600">
+                  {trip.rider.totalTrips} trips
+                  {trip.rider.rating !== undefined && ` • ${trip.rider.rating.toFixed(1)} rating`}
+                </p>
+                {trip.rider.accessibilityNeeds && trip.rider.accessibilityNeeds.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {trip.rider.accessibilityNeeds.map(need => (
+                      <Badge key={need} variant="outline" className="capitalize">
+                        {need.replace(/_/g, ' ')}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {trip.rider.notes && <p className="text-gray-500 italic">{trip.rider.notes}</p>}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <Car className="h-4 w-4" />
+                  Driver
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {trip.driver ? (
+                  <>
+                    <Link href={`/drivers/${trip.driver.id}`} className="font-medium text-blue-600 hover:underline">
+                      {trip.driver.firstName} {trip.driver.lastName}
+                    </Link>
+                    <p className="flex items-center gap-2 text-gray-600">
+                      <Phone className="h-3 w-3" />
+                      {formatPhoneNumber(trip.driver.phone)}
+                    </p>
+                    <p className="text-gray-600">
+                      {trip.driver.vehicle.color} {trip.driver.vehicle.year} {trip.driver.vehicle.make} {trip.driver.vehicle.model}
+                    </p>
+                    <p className="text-gray-600">
+                      {trip.driver.vehicle.licensePlate} • {trip.driver.vehicle.capacity} seats
+                    </p>
+                    <p className="flex items-center gap-1 text-gray-600">
+                      <Star className="h-3 w-3 text-yellow-500" />
+                      {trip.driver.rating.toFixed(1)} • {trip.driver.totalTrips} trips
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-gray-500">No driver assigned</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Audit Log */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <History className="h-4 w-4" />
+                Audit Log
+                {auditLogs.length > 0 && <Badge variant="secondary">{auditLogs.length}</Badge>}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isAuditLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+              ) : auditLogs.length === 0 ? (
+                <p className="text-sm text-gray-500">No audit entries for this trip.</p>
+              ) : (
+                <div className="space-y-3">
+                  {auditLogs.map(log => (
+                    <div key={log.id} className="text-sm border-b last:border-0 pb-3 last:pb-0">
+                      <div className="flex items-center justify-between gap-2">
+                        <span>
+                          <Badge variant="outline" className="mr-2 capitalize">{log.action}</Badge>
+                          <span className="font-medium">{log.userName}</span>
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {format(new Date(log.timestamp), 'MMM d, h:mm:ss a')}
+                        </span>
+                      </div>
+                      {log.description && <p className="text-gray-600 mt-1">{log.description}</p>}
+                      {log.newValues && Object.keys(log.newValues).length > 0 && (
+                        <div className="mt-1 space-y-0.5 text-xs text-gray-500">
+                          {Object.entries(log.newValues).map(([field, value]) => (
+                            <p key={field}>
+                              <span className="font-mono">{field}</span>:{' '}
+                              {log.oldValues && field in log.oldValues && (
+                                <span className="line-through mr-1">{formatValue(log.oldValues[field])}</span>
+                              )}
+                              {formatValue(value)}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Lifecycle */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Timeline</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TripTimeline trip={trip} />
+            </CardContent>
+          </Card>
+
+          {/* Fare */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center justify-between">
+                Fare
+                {trip.actualFare !== undefined && (
+                  <span className="text-sm font-normal text-gray-600">
+                    Charged {formatCurrency(trip.actualFare, currency)}
+                  </span>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FareBreakdownTable breakdown={fareBreakdown} currency={currency} />
+            </CardContent>
+          </Card>
+
+          {/* Rating */}
+          {trip.rating && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                  Rating
+                  <span className="flex items-center gap-0.5">
+                    {[1, 2, 3, 4, 5].map(value => (
+                      <Star
+                        key={value}
+                        className={cn(
+                          'h-4 w-4',
+                          value <= trip.rating!.score ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'
+                        )}
+                      />
+                    ))}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <p className="text-gray-500 capitalize">
+                  By the {trip.rating.raterType} • {format(new Date(trip.rating.createdAt), 'MMM d, yyyy')}
+                </p>
+                {trip.rating.comment && (
+                  <p className="flex items-start gap-2">
+                    <MessageSquare className="h-4 w-4 text-gray-400 mt-0.5 shrink-0" />
+                    {trip.rating.comment}
+                  </p>
+                )}
+                {trip.rating.categories && trip.rating.categories.length > 0 && (
+                  <div className="space-y-2">
+                    {trip.rating.categories.map(category => (
+                      <div key={category.name}>
+                        <div className="flex justify-between text-xs">
+                          <span className="capitalize">{category.name}</span>
+                          <span>{category.score.toFixed(1)}</span>
+                        </div>
+                        <div className="h-1.5 rounded bg-gray-100">
+                          <div
+                            className="h-1.5 rounded bg-yellow-500"
+                            style={{ width: `${(category.score / 5) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Instructions, Tags and Metadata */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <ClipboardList className="h-4 w-4" />
+                Details
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Special instructions</p>
+                <p className={cn(!trip.specialInstructions && 'text-gray-400')}>
+                  {trip.specialInstructions || 'None'}
+                </p>
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Tags</p>
+                {trip.tags.length > 0 ? (
+                  <div className="flex flex-wrap gap-1">
+                    {trip.tags.map(tag => (
+                      <Badge key={tag} variant="outline">
+                        <Tag className="h-3 w-3 mr-1" />
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-400">None</p>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Metadata</p>
+                {metadataEntries.length > 0 ? (
+                  <dl className="space-y-1">
+                    {metadataEntries.map(([key, value]) => (
+                      <div key={key} className="flex justify-between gap-3">
+                        <dt className="font-mono text-xs text-gray-500">{key}</dt>
+                        <dd className="text-xs text-right break-all">{formatValue(value)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                ) : (
+                  <p className="text-gray-400">None</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TripDetail;
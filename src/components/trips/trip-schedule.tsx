@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import {
+  addDays,
+  addWeeks,
+  areIntervalsOverlapping,
+  eachDayOfInterval,
+  endOfDay,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfWeek
+} from 'date-fns';
+import { useDriverStore, useTripStore, useUIStore } from '@/store';
+import { Trip, TimePeriod } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowLeft,
+  CalendarDays,
+  CalendarRange,
+  ChevronLeft,
+  ChevronRight,
+  GanttChart,
+  RefreshCw,
+  AlertTriangle,
+  MapPin,
+  Navigation,
+  User,
+  Car,
+  Clock
+} from 'lucide-react';
+import { ScheduleCalendar } from './schedule-calendar';
+import { ScheduleTimeline } from './schedule-timeline';
+import { api } from '@/services/api';
+import { findDriverConflicts, getTripWindow, isScheduledTrip } from '@/lib/schedule';
+import { formatTripStatus } from '@/lib/trip-status';
+import { formatDuration, cn } from '@/lib/utils';
+
+type ScheduleView = 'day' | 'week' | 'timeline';
+
+export function TripSchedule() {
+  const { trips, mergeTrips, isLoading, setLoading } = useTripStore();
+  const { drivers, setDrivers } = useDriverStore();
+  const { addNotification } = useUIStore();
+
+  const [view, setView] = useState<ScheduleView>('week');
+  const [anchorDate, setAnchorDate] = useState(() => startOfDay(new Date()));
+  const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
+
+  const range = useMemo(() => (
+    view === 'week'
+      ? { start: startOfWeek(anchorDate), end: endOfWeek(anchorDate) }
+      : { start: startOfDay(anchorDate), end: endOfDay(anchorDate) }
+  ), [view, anchorDate]);
+
+  // Reload whenever the visible range changes
+  useEffect(() => {
+    loadSchedule();
+  }, [range]);
+
+  const loadSchedule = async () => {
+    setLoading(true);
+
+    try {
+      const [tripsResponse, driversResponse] = await Promise.all([
+        api.trips.getTrips({
+          dateRange: {
+            start: range.start,
+            end: range.end,
+            period: view === 'week' ? TimePeriod.WEEK : TimePeriod.DAY
+          }
+        }, { page: 1, limit: 200 }),
+        api.drivers.getDrivers({}, { page: 1, limit: 100 })
+      ]);
+
+      if (tripsResponse.success && tripsResponse.data) {
+        // Merge rather than replace: the live dashboard and monitors read the same store
+        mergeTrips(tripsResponse.data.trips);
+      }
+
+      if (driversResponse.success && driversResponse.data) {
+        setDrivers(driversResponse.data.drivers);
+      }
+    } catch (error) {
+      console.error('Failed to load schedule:', error);
+      addNotification({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load the trip schedule. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const scheduledTrips = useMemo(() => trips.filter(trip => {
+    const window = getTripWindow(trip);
+    return isScheduledTrip(trip) && window && areIntervalsOverlapping(window, range);
+  }), [trips, range]);
+
+  const conflicts = useMemo(() => findDriverConflicts(scheduledTrips), [scheduledTrips]);
+
+  const days = useMemo(
+    () => (view === 'week' ? eachDayOfInterval(range) : [anchorDate]),
+    [view, range, anchorDate]
+  );
+
+  const navigate = (direction: 1 | -1) => {
+    setAnchorDate(view === 'week' ? addWeeks(anchorDate, direction) : addDays(anchorDate, direction));
+  };
+
+  const rangeLabel = view === 'week'
+    ? `${format(range.start, 'MMM d')} – ${format(range.end, 'MMM d, yyyy')}`
+    : format(anchorDate, 'EEEE, MMMM d, yyyy');
+
+  const conflictingTrips = scheduledTrips.filter(trip => conflicts.has(trip.id));
+  const unassignedCount = scheduledTrips.filter(trip => !trip.driver).length;
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/trips" className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 mb-1">
+            <ArrowLeft className="h-4 w-4" />
+            Trips
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900">Trip Schedule</h1>
+          <p className="text-gray-600">Upcoming scheduled trips and driver availability</p>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex items-center bg-white border rounded-lg p-1">
+            <Button
+              variant={view === 'day' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setView('day')}
+            >
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Day
+            </Button>
+            <Button
+              variant={view === 'week' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setView('week')}
+            >
+              <CalendarRange className="h-4 w-4 mr-2" />
+              Week
+            </Button>
+            <Button
+              variant={view === 'timeline' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setView('timeline')}
+            >
+              <GanttChart className="h-4 w-4 mr-2" />
+              Drivers
+            </Button>
+          </div>
+
+          <Button variant="outline" size="sm" onClick={loadSchedule} disabled={isLoading}>
+            <RefreshCw className={cn('h-4 w-4 mr-2', isLoading && 'animate-spin')} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Date Navigation */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => navigate(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchorDate(startOfDay(new Date()))}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="ml-2 font-medium text-gray-900">{rangeLabel}</span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{scheduledTrips.length} scheduled</Badge>
+          {unassignedCount > 0 && (
+            <Badge variant="outline" className="text-orange-700">{unassignedCount} unassigned</Badge>
+          )}
+          {conflictingTrips.length > 0 && (
+            <Badge variant="destructive" className="flex items-center gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {conflictingTrips.length} conflicts
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Schedule */}
+        <Card className="lg:col-span-3">
+          <CardContent className="p-0">
+            {view === 'timeline' ? (
+              <ScheduleTimeline
+                day={anchorDate}
+                trips={scheduledTrips}
+                drivers={drivers}
+                conflicts={conflicts}
+                onSelectTrip={setSelectedTrip}
+              />
+            ) : (
+              <ScheduleCalendar
+                days={days}
+                trips={scheduledTrips}
+                conflicts={conflicts}
+                onSelectTrip={setSelectedTrip}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          {/* Selected Trip */}
+          {selectedTrip && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center justify-between">
+                  <span>Trip #{selectedTrip.id.slice(-6).toUpperCase()}</span>
+                  <Badge variant="secondary" className="capitalize">{formatTripStatus(selectedTrip.status)}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-gray-400" />
+                  <span>
+                    {format(new Date(selectedTrip.scheduledAt!), 'EEE MMM d, h:mm a')}
+                    {' • '}
+                    {formatDuration(selectedTrip.estimatedDuration)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <User className="h-4 w-4 text-gray-400" />
+                  <span>{selectedTrip.rider.firstName} {selectedTrip.rider.lastName}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Car className="h-4 w-4 text-gray-400" />
+                  <span>
+                    {selectedTrip.driver
+                      ? `${selectedTrip.driver.firstName} ${selectedTrip.driver.lastName}`
+                      : 'No driver assigned'}
+                  </span>
+                </div>
+                <div className="flex items-start gap-2">
+                  <MapPin className="h-4 w-4 text-green-600 mt-0.5 shrink-0" />
+                  <span className="text-gray-600">{selectedTrip.pickup.address}</span>
+                </div>
+                <div className="flex items-start gap-2">
+                  <Navigation className="h-4 w-4 text-red-600 mt-0.5 shrink-0" />
+                  <span className="text-gray-600">{selectedTrip.destination.address}</span>
+                </div>
+                {conflicts.has(selectedTrip.id) && (
+                  <p className="flex items-center gap-2 text-red-600">
+                    <AlertTriangle className="h-4 w-4" />
+                    Overlaps {conflicts.get(selectedTrip.id)!.length} other trip(s) for this driver
+                  </p>
+                )}
+                <Link
+                  href={`/trips/${selectedTrip.id}`}
+                  className="inline-block text-blue-600 hover:underline"
+                >
+                  View trip details
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Conflicts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                Double Bookings
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {conflictingTrips.length === 0 ? (
+                <p className="text-sm text-gray-500">No driver is double-booked in this period.</p>
+              ) : (
+                <div className="space-y-2">
+                  {conflictingTrips.map(trip => (
+                    <button
+                      key={trip.id}
+                      onClick={() => setSelectedTrip(trip)}
+                      className="w-full text-left p-2 rounded bg-red-50 hover:bg-red-100 text-sm"
+                    >
+                      <p className="font-medium">
+                        {trip.driver?.firstName} {trip.driver?.lastName}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        #{trip.id.slice(-6).toUpperCase()} at {format(new Date(trip.scheduledAt!), 'EEE h:mm a')}
+                        {' overlaps '}
+                        {conflicts.get(trip.id)!.map(id => `#${id.slice(-6).toUpperCase()}`).join(', ')}
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TripSchedule;
@@ -0,0 +1,121 @@
+'use client';
+
+import React from 'react';
+import { format } from 'date-fns';
+import { Trip, TripStatus } from '@/types';
+import {
+  Ban,
+  CalendarClock,
+  CheckCircle,
+  Circle,
+  Clock,
+  User,
+  UserCheck
+} from 'lucide-react';
+import { formatRelativeTime, cn } from '@/lib/utils';
+
+interface TripTimelineProps {
+  trip: Trip;
+}
+
+interface TimelineStep {
+  key: string;
+  label: string;
+  at?: Date;
+  icon: React.ComponentType<{ className?: string }>;
+  detail?: string;
+  tone?: 'default' | 'success' | 'danger';
+}
+
+/**
+ * Lifecycle steps for a trip in the order they happen, including those not reached yet
+ */
+function getTimelineSteps(trip: Trip): TimelineStep[] {
+  const steps: TimelineStep[] = [
+    { key: 'requested', label: 'Requested', at: trip.requestedAt, icon: Clock }
+  ];
+
+  if (trip.scheduledAt) {
+    steps.push({ key: 'scheduled', label: 'Scheduled pickup', at: trip.scheduledAt, icon: CalendarClock });
+  }
+
+  steps.push({
+    key: 'assigned',
+    label: 'Driver assigned',
+    at: trip.assignedAt,
+    icon: UserCheck,
+    detail: trip.driver ? `${trip.driver.firstName} ${trip.driver.lastName}` : undefined
+  });
+
+  if (trip.cancelledAt || trip.status === TripStatus.CANCELLED || trip.status === TripStatus.NO_SHOW) {
+    if (trip.pickedUpAt) {
+      steps.push({ key: 'picked_up', label: 'Rider picked up', at: trip.pickedUpAt, icon: User });
+    }
+    steps.push({
+      key: 'cancelled',
+      label: trip.status === TripStatus.NO_SHOW ? 'Rider no-show' : 'Cancelled',
+      at: trip.cancelledAt,
+      icon: Ban,
+      detail: trip.cancellationReason,
+      tone: 'danger'
+    });
+    return steps;
+  }
+
+  steps.push(
+    { key: 'picked_up', label: 'Rider picked up', at: trip.pickedUpAt, icon: User },
+    { key: 'completed', label: 'Completed', at: trip.completedAt, icon: CheckCircle, tone: 'success' }
+  );
+
+  return steps;
+}
+
+export function TripTimeline({ trip }: TripTimelineProps) {
+  const steps = getTimelineSteps(trip);
+
+  return (
+    <ol className="space-y-4">
+      {steps.map((step, index) => {
+        const isReached = !!step.at;
+        const Icon = isReached ? step.icon : Circle;
+
+        return (
+          <li key={step.key} className="relative flex gap-3">
+            {index < steps.length - 1 && (
+              <span
+                className={cn(
+                  'absolute left-[11px] top-6 h-[calc(100%+0.25rem)] w-px',
+                  steps[index + 1].at ? 'bg-blue-300' : 'bg-gray-200'
+                )}
+              />
+            )}
+            <span
+              className={cn(
+                'relative z-10 flex h-6 w-6 shrink-0 items-center justify-center rounded-full',
+                !isReached && 'bg-gray-100 text-gray-300',
+                isReached && step.tone === 'danger' && 'bg-red-50 text-red-600',
+                isReached && step.tone === 'success' && 'bg-green-50 text-green-600',
+                isReached && !step.tone && 'bg-blue-50 text-blue-600'
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </span>
+            <div className="min-w-0 flex-1 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className={cn('font-medium', !isReached && 'text-gray-400')}>{step.label}</span>
+                {step.at && (
+                  <span className="text-xs text-gray-500" title={formatRelativeTime(step.at)}>
+                    {format(new Date(step.at), 'MMM d, h:mm:ss a')}
+                  </span>
+                )}
+              </div>
+              {step.detail && <p className="text-gray-600">{step.detail}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+export default TripTimeline;
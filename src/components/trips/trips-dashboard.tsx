@@ -1,8 +1,9 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useTripStore, useUIStore } from '@/store';
-import { TripStatus, ServiceType, TripPriority } from '@/types';
+import { TripStatus, ServiceType, TripPriority, RecurringTripSeries, Trip } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
@@ -29,7 +30,8 @@ import {
   AlertTriangle,
   CheckCircle,
   XCircle,
-  MoreHorizontal
+  MoreHorizontal,
+  Repeat
 } from 'lucide-react';
 import { TripCreationWizard } from './trip-creation-wizard';
 import { TripsList } from './trips-list';
@@ -41,7 +43,8 @@ export function TripsDashboard() {
   const { trips, isLoading, setLoading, setTrips, filters } = useTripStore();
   const { addNotification } = useUIStore();
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [showFilters, setShowFilters] = useState(false);
+  // Start expanded when arriving with filters already applied, e.g. from an analytics drill-down
+  const [showFilters, setShowFilters] = useState(() => Object.values(filters).some(value => value !== undefined));
   const [refreshing, setRefreshing] = useState(false);
 
   // Load trips on component mount
@@ -81,8 +84,19 @@ export function TripsDashboard() {
     });
   };
 
-  const handleTripCreated = (trip: any) => {
+  const handleTripCreated = (trip: any, assignmentError?: string) => {
     setShowCreateDialog(false);
+
+    if (assignmentError) {
+      addNotification({
+        type: 'warning',
+        title: 'Trip Created, Unassigned',
+        message: `Trip ${trip.id} was created but the driver could not be assigned: ${assignmentError}`,
+        duration: 10000
+      });
+      return;
+    }
+
     addNotification({
       type: 'success',
       title: 'Trip Created',
@@ -91,6 +105,16 @@ export function TripsDashboard() {
     });
   };
 
+  const handleSeriesCreated = (series: RecurringTripSeries, created: Trip[]) => {
+    setShowCreateDialog(false);
+    addNotification({
+      type: 'success',
+      title: 'Recurring Trip Created',
+      message: `${series.name}: ${created.length} upcoming trip(s) generated.`,
+      duration: 5000
+    });
+  };
+
   // Calculate trip statistics
   const tripStats = {
     total: trips.length,
@@ -126,6 +150,20 @@ export function TripsDashboard() {
             Refresh
           </Button>
 
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/trips/schedule">
+              <Calendar className="h-4 w-4 mr-2" />
+              Schedule
+            </Link>
+          </Button>
+
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/trips/recurring">
+              <Repeat className="h-4 w-4 mr-2" />
+              Recurring
+            </Link>
+          </Button>
+
           <Button
             variant="outline"
             size="sm"
@@ -145,6 +183,7 @@ export function TripsDashboard() {
             <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
               <TripCreationWizard
                 onSuccess={handleTripCreated}
+                onSeriesCreated={handleSeriesCreated}
                 onCancel={() => setShowCreateDialog(false)}
               />
             </DialogContent>
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { Trip, TripStatus, TripPriority } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,6 +12,9 @@ import {
   DropdownMenuItem,
   DropdownMenuLabel,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import {
@@ -23,6 +27,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import {
   MapPin,
   Navigation,
@@ -49,7 +54,17 @@ import {
   cn
 } from '@/lib/utils';
 import { useTripStore, useUIStore } from '@/store';
+import { useAuth } from '@/lib/auth-context';
 import { api } from '@/services/api';
+import { getTripFareBreakdown } from '@/lib/fares';
+import { FareBreakdownTable } from './fare-breakdown';
+import {
+  assertTransition,
+  canTransition,
+  formatTripStatus,
+  getNextStatuses,
+  TripTransitionError
+} from '@/lib/trip-status';
 
 interface TripsListProps {
   trips: Trip[];
@@ -60,6 +75,7 @@ interface TripsListProps {
 export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
   const { updateTrip } = useTripStore();
   const { addNotification } = useUIStore();
+  const { currentTenant } = useAuth();
   const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
@@ -120,18 +136,22 @@ export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
   };
 
   const handleTripAction = async (tripId: string, action: string, data?: any) => {
+    const trip = trips.find(t => t.id === tripId);
     setActionLoading(tripId);
 
     try {
       let response;
       switch (action) {
         case 'cancel':
+          if (trip) assertTransition(trip.status, TripStatus.CANCELLED);
           response = await api.trips.cancelTrip(tripId, data.reason);
           break;
         case 'assign':
+          if (trip) assertTransition(trip.status, TripStatus.ASSIGNED);
           response = await api.trips.assignDriver(tripId, data);
           break;
         case 'updateStatus':
+          if (trip) assertTransition(trip.status, data.status);
           response = await api.trips.updateTripStatus(tripId, data.status, data.metadata);
           break;
         default:
@@ -152,7 +172,9 @@ export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
       addNotification({
         type: 'error',
         title: 'Action Failed',
-        message: 'Failed to update trip. Please try again.',
+        message: error instanceof TripTransitionError
+          ? `A ${formatTripStatus(error.from)} trip cannot be moved to ${formatTripStatus(error.to)}.`
+          : 'Failed to update trip. Please try again.',
         duration: 5000
       });
     } finally {
@@ -170,16 +192,16 @@ export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
   };
 
   const canCancelTrip = (trip: Trip) => {
-    return [
-      TripStatus.PENDING,
-      TripStatus.ASSIGNED,
-      TripStatus.EN_ROUTE_TO_PICKUP,
-      TripStatus.ARRIVED_AT_PICKUP
-    ].includes(trip.status);
+    return canTransition(trip.status, TripStatus.CANCELLED);
+  };
+
+  // Assignment needs a driver, so it is offered through Assign Driver rather than the status menu
+  const getStatusOptions = (trip: Trip) => {
+    return getNextStatuses(trip.status).filter(status => status !== TripStatus.ASSIGNED);
   };
 
   const canUpdateStatus = (trip: Trip) => {
-    return trip.status !== TripStatus.COMPLETED && trip.status !== TripStatus.CANCELLED;
+    return getStatusOptions(trip).length > 0 || canTransition(trip.status, TripStatus.NO_SHOW);
   };
 
   if (isLoading) {
@@ -220,9 +242,17 @@ export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
                   variant={getStatusBadgeVariant(trip.status)}
                   className={cn('text-xs', getStatusColor(trip.status))}
                 >
-                  {trip.status.replace(/_/g, ' ').toLowerCase()}
+                  {formatTripStatus(trip.status)}
                 </Badge>
 
+                {trip.metadata?.statusTransitionWarning && (
+                  <span
+                    title={`Out-of-order update: ${formatTripStatus(trip.metadata.statusTransitionWarning.from)} → ${formatTripStatus(trip.metadata.statusTransitionWarning.to)}`}
+                  >
+                    <AlertTriangle className="h-3 w-3 text-yellow-600" />
+                  </span>
+                )}
+
                 {getPriorityIcon(trip.priority)}
 
                 <span className="text-xs text-gray-500">
@@ -287,16 +317,32 @@ export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
                     {trip.estimatedDistance ? `${trip.estimatedDistance.toFixed(1)} mi` : 'N/A'}
                   </span>
                 </div>
-                <div className="flex items-center gap-1">
-                  <DollarSign className="h-3 w-3" />
-                  <span>
-                    {trip.actualFare
-                      ? formatCurrency(trip.actualFare)
-                      : trip.estimatedFare
-                      ? `Est. ${formatCurrency(trip.estimatedFare)}`
-                      : 'N/A'}
-                  </span>
-                </div>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button className="flex items-center gap-1 hover:text-gray-900 hover:underline">
+                      <DollarSign className="h-3 w-3" />
+                      <span>
+                        {trip.actualFare
+                          ? formatCurrency(trip.actualFare)
+                          : trip.estimatedFare
+                          ? `Est. ${formatCurrency(trip.estimatedFare)}`
+                          : 'N/A'}
+                      </span>
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-72" align="start">
+                    <p className="text-sm font-medium mb-2">Fare Breakdown</p>
+                    <FareBreakdownTable
+                      breakdown={getTripFareBreakdown(trip, currentTenant?.settings)}
+                      currency={currentTenant?.settings.currency}
+                    />
+                    {trip.actualFare !== undefined && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Charged {formatCurrency(trip.actualFare, currentTenant?.settings.currency)}
+                      </p>
+                    )}
+                  </PopoverContent>
+                </Popover>
               </div>
             </div>
 
@@ -328,9 +374,11 @@ export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
                   <DropdownMenuLabel>Trip Actions</DropdownMenuLabel>
                   <DropdownMenuSeparator />
 
-                  <DropdownMenuItem>
-                    <Eye className="mr-2 h-4 w-4" />
-                    View Details
+                  <DropdownMenuItem asChild>
+                    <Link href={`/trips/${trip.id}`}>
+                      <Eye className="mr-2 h-4 w-4" />
+                      View Details
+                    </Link>
                   </DropdownMenuItem>
 
                   <DropdownMenuItem>
@@ -348,10 +396,35 @@ export function TripsList({ trips, isLoading, onRefresh }: TripsListProps) {
                   {canUpdateStatus(trip) && (
                     <>
                       <DropdownMenuSeparator />
-                      <DropdownMenuItem>
-                        <Play className="mr-2 h-4 w-4" />
-                        Update Status
-                      </DropdownMenuItem>
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>
+                          <Play className="mr-2 h-4 w-4" />
+                          Update Status
+                        </DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {getStatusOptions(trip).map(status => (
+                            <DropdownMenuItem
+                              key={status}
+                              className="capitalize"
+                              onClick={() => handleTripAction(trip.id, 'updateStatus', { status })}
+                            >
+                              {status === TripStatus.COMPLETED
+                                ? <CheckCircle className="mr-2 h-4 w-4" />
+                                : <Play className="mr-2 h-4 w-4" />}
+                              {formatTripStatus(status)}
+                            </DropdownMenuItem>
+                          ))}
+                          {canTransition(trip.status, TripStatus.NO_SHOW) && (
+                            <DropdownMenuItem
+                              className="text-red-600"
+                              onClick={() => handleTripAction(trip.id, 'updateStatus', { status: TripStatus.NO_SHOW })}
+                            >
+                              <Pause className="mr-2 h-4 w-4" />
+                              Rider no-show
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
                     </>
                   )}
 
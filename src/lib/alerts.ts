@@ -0,0 +1,168 @@
+/**
+ * Alert helpers for the Hermes Dispatcher Console
+ * Shared severity ordering, colours and labels for the alerts widget and the alerts center
+ */
+
+import {
+  Alert,
+  AlertEscalation,
+  AlertMuteRule,
+  AlertSeverity,
+  AlertType,
+  EscalationPolicy
+} from '@/types';
+
+// Repeats of the same alert for the same subject this close together are treated as one incident
+export const ALERT_GROUP_WINDOW_MS = 10 * 60 * 1000;
+
+export const ALERT_SNOOZE_OPTIONS: { label: string; minutes: number }[] = [
+  { label: '15 minutes', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 240 }
+];
+
+export interface AlertGroup {
+  key: string;
+  latest: Alert; // most recent occurrence, shown for the whole group
+  alerts: Alert[]; // every occurrence, newest first
+  count: number;
+  firstAt: Date;
+  lastAt: Date;
+}
+
+export const ALERT_SEVERITY_ORDER: Record<AlertSeverity, number> = {
+  [AlertSeverity.CRITICAL]: 4,
+  [AlertSeverity.HIGH]: 3,
+  [AlertSeverity.MEDIUM]: 2,
+  [AlertSeverity.LOW]: 1
+};
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  [AlertType.TRIP_DELAY]: 'Trip delay',
+  [AlertType.DRIVER_OFFLINE]: 'Driver offline',
+  [AlertType.VEHICLE_BREAKDOWN]: 'Vehicle breakdown',
+  [AlertType.EMERGENCY]: 'Emergency',
+  [AlertType.PAYMENT_FAILED]: 'Payment failed',
+  [AlertType.NO_DRIVERS_AVAILABLE]: 'No drivers available',
+  [AlertType.RIDER_NO_SHOW]: 'Rider no-show',
+  [AlertType.DRIVER_NO_SHOW]: 'Driver no-show',
+  [AlertType.ROUTE_DEVIATION]: 'Route deviation',
+  [AlertType.SYSTEM_ERROR]: 'System error'
+};
+
+/**
+ * Badge colours for an alert severity
+ */
+export function getAlertSeverityColor(severity: AlertSeverity): string {
+  switch (severity) {
+    case AlertSeverity.CRITICAL:
+      return 'bg-red-100 text-red-700 border-red-200';
+    case AlertSeverity.HIGH:
+      return 'bg-orange-100 text-orange-700 border-orange-200';
+    case AlertSeverity.MEDIUM:
+      return 'bg-yellow-100 text-yellow-700 border-yellow-200';
+    case AlertSeverity.LOW:
+      return 'bg-blue-100 text-blue-700 border-blue-200';
+    default:
+      return 'bg-gray-100 text-gray-700 border-gray-200';
+  }
+}
+
+/**
+ * Sort order for alert lists: most severe first, then newest first
+ */
+export function compareAlerts(a: Alert, b: Alert): number {
+  const severityDiff = ALERT_SEVERITY_ORDER[b.severity] - ALERT_SEVERITY_ORDER[a.severity];
+  if (severityDiff !== 0) return severityDiff;
+
+  return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+}
+
+/**
+ * Whether a dispatcher has taken responsibility for an alert
+ */
+export function isAlertAcknowledged(alert: Alert): boolean {
+  return alert.isResolved || !!alert.acknowledgedAt || !!alert.assignedTo;
+}
+
+/**
+ * Escalation history recorded on the alert, oldest first
+ */
+export function getAlertEscalations(alert: Alert): AlertEscalation[] {
+  const escalations = alert.metadata?.escalations;
+  return Array.isArray(escalations) ? escalations : [];
+}
+
+/**
+ * First policy whose types and severities both cover the alert
+ */
+export function findEscalationPolicy(alert: Alert, policies: EscalationPolicy[]): EscalationPolicy | undefined {
+  return policies.find(policy =>
+    (!policy.alertTypes?.length || policy.alertTypes.includes(alert.type)) &&
+    (!policy.severities?.length || policy.severities.includes(alert.severity))
+  );
+}
+
+/**
+ * Driver, trip or rider the alert is about, used to recognise repeats
+ */
+export function getAlertSubjectId(alert: Alert): string | undefined {
+  return alert.driverId || alert.tripId || alert.riderId;
+}
+
+/**
+ * Collapse repeats of the same type and subject into groups; an occurrence joins a group when it
+ * follows the group's previous occurrence within the window
+ */
+export function groupAlerts(alerts: Alert[], windowMs = ALERT_GROUP_WINDOW_MS): AlertGroup[] {
+  const chronological = [...alerts].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const openGroups = new Map<string, AlertGroup>();
+  const groups: AlertGroup[] = [];
+
+  chronological.forEach(alert => {
+    const subjectId = getAlertSubjectId(alert);
+    const createdAt = new Date(alert.createdAt);
+    const key = subjectId ? `${alert.type}:${subjectId}` : alert.id;
+    const group = openGroups.get(key);
+
+    if (group && createdAt.getTime() - group.lastAt.getTime() <= windowMs) {
+      group.alerts.unshift(alert);
+      group.latest = alert;
+      group.count += 1;
+      group.lastAt = createdAt;
+      return;
+    }
+
+    const created: AlertGroup = { key: `${key}:${alert.id}`, latest: alert, alerts: [alert], count: 1, firstAt: createdAt, lastAt: createdAt };
+    openGroups.set(key, created);
+    groups.push(created);
+  });
+
+  return groups.sort((a, b) => compareAlerts(a.latest, b.latest));
+}
+
+/**
+ * An unresolved alert of the same type and subject raised within the window, if any
+ */
+export function findDuplicateAlert(alert: Alert, alerts: Alert[], windowMs = ALERT_GROUP_WINDOW_MS): Alert | undefined {
+  const subjectId = getAlertSubjectId(alert);
+  if (!subjectId) return undefined;
+
+  const createdAt = new Date(alert.createdAt).getTime();
+  return alerts.find(other =>
+    other.id !== alert.id &&
+    !other.isResolved &&
+    other.type === alert.type &&
+    getAlertSubjectId(other) === subjectId &&
+    Math.abs(createdAt - new Date(other.createdAt).getTime()) <= windowMs
+  );
+}
+
+/**
+ * Mute rule currently silencing an alert type, ignoring expired snoozes
+ */
+export function getActiveMuteRule(type: AlertType, rules: AlertMuteRule[], now = new Date()): AlertMuteRule | undefined {
+  return rules.find(rule => rule.type === type && (!rule.until || new Date(rule.until).getTime() > now.getTime()));
+}
@@ -0,0 +1,58 @@
+/**
+ * Analytics helpers for the Hermes Dispatcher Console
+ * Lines chart series up with the buckets of a time range and compares them with the previous period
+ */
+
+import { ChartDataPoint, TimeRange } from '@/types';
+import { formatBucketLabel, getBucketEnd, getBucketStart, getTimeBuckets } from '@/lib/time-ranges';
+
+export interface SeriesBucket {
+  start: Date;
+  end: Date;
+  label: string;
+  value: number;
+  previous: number | null; // same position in the previous period, when compared
+}
+
+/**
+ * Sum the points of a series into the buckets of a range
+ */
+function bucketSeries(range: TimeRange, points: ChartDataPoint[]): { start: Date; value: number }[] {
+  const buckets = getTimeBuckets(range).map(start => ({ start, value: 0 }));
+  const byKey = new Map(buckets.map(bucket => [bucket.start.getTime(), bucket]));
+
+  points.forEach(point => {
+    const bucket = byKey.get(getBucketStart(new Date(point.timestamp), range.period).getTime());
+    if (bucket) bucket.value += point.value;
+  });
+
+  return buckets;
+}
+
+/**
+ * Chart rows for a series, with the previous period's series aligned bucket by bucket
+ */
+export function alignSeries(
+  range: TimeRange,
+  points: ChartDataPoint[],
+  previousRange?: TimeRange,
+  previousPoints?: ChartDataPoint[]
+): SeriesBucket[] {
+  const previous = previousRange && previousPoints ? bucketSeries(previousRange, previousPoints) : [];
+
+  return bucketSeries(range, points).map((bucket, index) => ({
+    start: bucket.start,
+    end: getBucketEnd(bucket.start, range.period),
+    label: formatBucketLabel(bucket.start, range.period),
+    value: bucket.value,
+    previous: previous[index]?.value ?? null
+  }));
+}
+
+/**
+ * Percentage change from the previous value, or null when there is nothing to compare against
+ */
+export function getPercentChange(current: number, previous: number | null | undefined): number | null {
+  if (previous === null || previous === undefined || previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
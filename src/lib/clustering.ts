@@ -0,0 +1,173 @@
+/**
+ * Marker clustering and viewport culling for the dispatch and driver maps
+ * Wraps Supercluster so large fleets render as a handful of zoom-aware cluster markers
+ */
+
+import Supercluster from 'supercluster';
+import { Coordinates, Driver, DriverStatus } from '@/types';
+import { hasDriverLocation, toLngLat } from './map';
+
+// Cluster configuration
+const CLUSTER_RADIUS = 60; // pixels
+const CLUSTER_MAX_ZOOM = 16;
+const VIEWPORT_PADDING = 0.1; // fraction of the visible span added on each side
+
+/**
+ * Visible map area as [west, south, east, north]
+ */
+export type ViewportBounds = [number, number, number, number];
+
+export type DriverStatusCounts = Record<DriverStatus, number>;
+
+interface DriverPointProperties {
+  driverId: string;
+  status: DriverStatus;
+}
+
+export type DriverClusterProperties = DriverStatusCounts;
+
+export type DriverClusterIndex = Supercluster<DriverPointProperties, DriverClusterProperties>;
+
+export type DriverMapItem =
+  | {
+      kind: 'driver';
+      driver: Driver;
+      coordinates: Coordinates;
+    }
+  | {
+      kind: 'cluster';
+      clusterId: number;
+      count: number;
+      statusCounts: DriverStatusCounts;
+      coordinates: Coordinates;
+    };
+
+/**
+ * Create a zeroed status breakdown
+ */
+export function emptyStatusCounts(): DriverStatusCounts {
+  return Object.values(DriverStatus).reduce((counts, status) => {
+    counts[status] = 0;
+    return counts;
+  }, {} as DriverStatusCounts);
+}
+
+/**
+ * Build a cluster index over every online driver with a known location
+ */
+export function createDriverClusterIndex(drivers: Driver[]): DriverClusterIndex {
+  const index: DriverClusterIndex = new Supercluster({
+    radius: CLUSTER_RADIUS,
+    maxZoom: CLUSTER_MAX_ZOOM,
+    map: (props) => {
+      const counts = emptyStatusCounts();
+      counts[props.status] = 1;
+      return counts;
+    },
+    reduce: (accumulated, props) => {
+      Object.values(DriverStatus).forEach(status => {
+        accumulated[status] += props[status];
+      });
+    }
+  });
+
+  index.load(
+    drivers.filter(hasDriverLocation).map(driver => ({
+      type: 'Feature',
+      properties: { driverId: driver.id, status: driver.status },
+      geometry: {
+        type: 'Point',
+        coordinates: toLngLat(driver.currentLocation!.coordinates)
+      }
+    }))
+  );
+
+  return index;
+}
+
+/**
+ * Resolve the clusters and individual drivers that fall inside the viewport at the given zoom
+ */
+export function getDriverMapItems(
+  index: DriverClusterIndex,
+  drivers: Driver[],
+  bounds: ViewportBounds,
+  zoom: number
+): DriverMapItem[] {
+  const driversById = new Map(drivers.map(driver => [driver.id, driver]));
+
+  return index.getClusters(padBounds(bounds), Math.round(zoom)).flatMap<DriverMapItem>(feature => {
+    const [longitude, latitude] = feature.geometry.coordinates;
+    const coordinates = { latitude, longitude };
+    const props = feature.properties;
+
+    if ('cluster' in props && props.cluster) {
+      const { cluster_id, point_count, ...rest } = props;
+      const statusCounts = emptyStatusCounts();
+      Object.values(DriverStatus).forEach(status => {
+        statusCounts[status] = (rest as DriverStatusCounts)[status] || 0;
+      });
+
+      return [{
+        kind: 'cluster',
+        clusterId: cluster_id,
+        count: point_count,
+        statusCounts,
+        coordinates
+      }];
+    }
+
+    const driver = driversById.get((props as DriverPointProperties).driverId);
+    return driver ? [{ kind: 'driver', driver, coordinates }] : [];
+  });
+}
+
+/**
+ * Zoom level at which a cluster breaks apart into its children
+ */
+export function getClusterExpansionZoom(index: DriverClusterIndex, clusterId: number): number {
+  return Math.min(index.getClusterExpansionZoom(clusterId), CLUSTER_MAX_ZOOM + 1);
+}
+
+/**
+ * Check whether a point is inside the (padded) viewport
+ */
+export function isInViewport(coordinates: Coordinates, bounds: ViewportBounds | null): boolean {
+  if (!bounds) return true;
+
+  const [west, south, east, north] = padBounds(bounds);
+  const { latitude, longitude } = coordinates;
+
+  const withinLongitude = west <= east
+    ? longitude >= west && longitude <= east
+    : longitude >= west || longitude <= east; // viewport crosses the antimeridian
+
+  return latitude >= south && latitude <= north && withinLongitude;
+}
+
+/**
+ * Wrap a longitude into [-180, 180], keeping 180 itself
+ */
+function wrapLongitude(longitude: number): number {
+  const wrapped = ((((longitude + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 && longitude > 0 ? 180 : wrapped;
+}
+
+/**
+ * Grow the viewport slightly so markers don't pop in at the edges while panning.
+ * Map bounds come unwrapped (east may exceed 180 across the antimeridian or on world copies), so the padded box
+ * is wrapped back into [-180, 180] and has west > east when it crosses the antimeridian.
+ */
+function padBounds([west, south, east, north]: ViewportBounds): ViewportBounds {
+  const latPad = Math.abs(north - south) * VIEWPORT_PADDING;
+  const paddedSouth = Math.max(-90, south - latPad);
+  const paddedNorth = Math.min(90, north + latPad);
+
+  const width = west <= east ? east - west : 360 - west + east;
+  const lngPad = width * VIEWPORT_PADDING;
+  if (width + 2 * lngPad >= 360) {
+    return [-180, paddedSouth, 180, paddedNorth];
+  }
+
+  return [wrapLongitude(west - lngPad), paddedSouth, wrapLongitude(east + lngPad), paddedNorth];
+}
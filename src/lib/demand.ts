@@ -0,0 +1,180 @@
+/**
+ * Demand heatmap helpers for the Hermes Dispatcher Console
+ * Buckets historical pickups and current driver positions into hexagonal cells and flags cells
+ * where the share of demand outstrips the share of supply
+ */
+
+import { Coordinates, Driver, DriverStatus, Trip } from '@/types';
+import { getCentroid, isValidCoordinates, toLngLat } from '@/lib/map';
+
+export const DEFAULT_DEMAND_CELL_SIZE = 1000; // meters
+
+// A cell is undersupplied when its share of pickups exceeds its share of online drivers by this much
+const GAP_THRESHOLD = 0.05;
+// Ignore cells with too few pickups to say anything about demand
+const MIN_GAP_DEMAND = 3;
+
+const EARTH_RADIUS_METERS = 6378137;
+const SQRT3 = Math.sqrt(3);
+
+export interface HexGrid {
+  size: number; // hexagon circumradius in Web Mercator meters
+}
+
+export interface DemandCell {
+  id: string;
+  center: Coordinates;
+  ring: [number, number][]; // closed [lng, lat] polygon ring
+  demand: number; // pickups in the selected time range
+  supply: number; // online drivers in the cell right now
+  available: number; // of which available for dispatch
+  demandShare: number;
+  supplyShare: number;
+  gap: number; // demandShare - supplyShare
+  undersupplied: boolean;
+}
+
+const toMercator = ({ latitude, longitude }: Coordinates): [number, number] => [
+  EARTH_RADIUS_METERS * (longitude * Math.PI) / 180,
+  EARTH_RADIUS_METERS * Math.log(Math.tan(Math.PI / 4 + (latitude * Math.PI) / 360))
+];
+
+const fromMercator = (x: number, y: number): Coordinates => ({
+  latitude: (2 * Math.atan(Math.exp(y / EARTH_RADIUS_METERS)) - Math.PI / 2) * 180 / Math.PI,
+  longitude: (x / EARTH_RADIUS_METERS) * 180 / Math.PI
+});
+
+/**
+ * Hex grid whose cells are roughly the given ground size at the reference latitude
+ */
+export function createHexGrid(sizeMeters: number, referenceLatitude: number): HexGrid {
+  return { size: sizeMeters / Math.cos((referenceLatitude * Math.PI) / 180) };
+}
+
+/**
+ * Axial coordinates of the pointy-top hexagon containing a point
+ */
+function getHexAxial(coordinates: Coordinates, grid: HexGrid): [number, number] {
+  const [x, y] = toMercator(coordinates);
+  const q = ((SQRT3 / 3) * x - y / 3) / grid.size;
+  const r = ((2 / 3) * y) / grid.size;
+
+  // Round in cube coordinates so points land in the nearest hexagon
+  const s = -q - r;
+  let rq = Math.round(q);
+  let rr = Math.round(r);
+  const rs = Math.round(s);
+  const dq = Math.abs(rq - q);
+  const dr = Math.abs(rr - r);
+  const ds = Math.abs(rs - s);
+
+  if (dq > dr && dq > ds) rq = -rr - rs;
+  else if (dr > ds) rr = -rq - rs;
+
+  return [rq, rr];
+}
+
+/**
+ * Identifier of the cell containing a point
+ */
+export function getHexCellId(coordinates: Coordinates, grid: HexGrid): string {
+  const [q, r] = getHexAxial(coordinates, grid);
+  return `${q}:${r}`;
+}
+
+/**
+ * Centre and outline of a cell
+ */
+export function getHexCellGeometry(id: string, grid: HexGrid): { center: Coordinates; ring: [number, number][] } {
+  const [q, r] = id.split(':').map(Number);
+  const cx = grid.size * (SQRT3 * q + (SQRT3 / 2) * r);
+  const cy = grid.size * 1.5 * r;
+
+  const ring = Array.from({ length: 7 }, (_, index) => {
+    const angle = (Math.PI / 180) * (60 * (index % 6) - 30);
+    return toLngLat(fromMercator(cx + grid.size * Math.cos(angle), cy + grid.size * Math.sin(angle)));
+  });
+
+  return { center: fromMercator(cx, cy), ring };
+}
+
+/**
+ * Bucket historical pickups and current online drivers into hex cells and compare their shares
+ */
+export function buildDemandCells(trips: Trip[], drivers: Driver[], sizeMeters = DEFAULT_DEMAND_CELL_SIZE): DemandCell[] {
+  const pickups = trips.map(trip => trip.pickup.coordinates).filter(isValidCoordinates);
+  const positioned = drivers.filter(driver => isValidCoordinates(driver.currentLocation?.coordinates));
+  const reference = getCentroid(pickups);
+  if (!reference) return [];
+
+  const grid = createHexGrid(sizeMeters, reference.latitude);
+  const counts = new Map<string, { demand: number; supply: number; available: number }>();
+  const getCount = (id: string) => {
+    if (!counts.has(id)) counts.set(id, { demand: 0, supply: 0, available: 0 });
+    return counts.get(id)!;
+  };
+
+  pickups.forEach(coordinates => {
+    getCount(getHexCellId(coordinates, grid)).demand += 1;
+  });
+
+  positioned.forEach(driver => {
+    const count = getCount(getHexCellId(driver.currentLocation!.coordinates, grid));
+    count.supply += 1;
+    if (driver.status === DriverStatus.AVAILABLE) count.available += 1;
+  });
+
+  return Array.from(counts.entries()).map(([id, count]) => {
+    const demandShare = count.demand / pickups.length;
+    const supplyShare = positioned.length > 0 ? count.supply / positioned.length : 0;
+    const gap = demandShare - supplyShare;
+
+    return {
+      id,
+      ...getHexCellGeometry(id, grid),
+      ...count,
+      demandShare,
+      supplyShare,
+      gap,
+      undersupplied: count.demand >= MIN_GAP_DEMAND && gap >= GAP_THRESHOLD
+    };
+  });
+}
+
+/**
+ * GeoJSON polygons for the demand cells, with demand intensity scaled to the busiest cell
+ */
+export function buildDemandCellsGeoJSON(cells: DemandCell[]): GeoJSON.FeatureCollection<GeoJSON.Polygon> {
+  const maxDemand = Math.max(1, ...cells.map(cell => cell.demand));
+
+  return {
+    type: 'FeatureCollection',
+    features: cells.map(cell => ({
+      type: 'Feature',
+      properties: {
+        cellId: cell.id,
+        demand: cell.demand,
+        supply: cell.supply,
+        intensity: cell.demand / maxDemand,
+        undersupplied: cell.undersupplied
+      },
+      geometry: { type: 'Polygon', coordinates: [cell.ring] }
+    }))
+  };
+}
+
+/**
+ * GeoJSON points at cell centres weighted by the number of online drivers in each cell
+ */
+export function buildSupplyDensityGeoJSON(cells: DemandCell[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: cells
+      .filter(cell => cell.supply > 0)
+      .map(cell => ({
+        type: 'Feature',
+        properties: { cellId: cell.id, supply: cell.supply, available: cell.available },
+        geometry: { type: 'Point', coordinates: toLngLat(cell.center) }
+      }))
+  };
+}
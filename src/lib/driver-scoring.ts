@@ -0,0 +1,191 @@
+/**
+ * Driver recommendation scoring for the Hermes Dispatcher Console
+ * Ranks candidate drivers for a trip by ETA, vehicle compatibility, rating, remaining shift time and current load
+ */
+
+import { AccessibilityNeed, Coordinates, Driver, DriverStatus, Rider, ServiceType, Trip } from '@/types';
+import { distanceMeters } from '@/lib/geo';
+import { isTripActive, isValidCoordinates } from '@/lib/map';
+import { clamp } from '@/lib/utils';
+
+// Scoring configuration
+const AVERAGE_SPEED_KMH = 30; // typical urban speed including stops
+const ROAD_DISTANCE_FACTOR = 1.3; // straight-line to road distance
+const MAX_ETA_MINUTES = 30; // ETAs at or beyond this score zero
+export const MAX_SHIFT_HOURS = 10;
+const COMFORTABLE_SHIFT_HOURS = 4; // remaining time that earns a full shift score
+const MAX_ACTIVE_TRIPS = 2; // load at or beyond this scores zero
+export const GROUP_MIN_CAPACITY = 6;
+
+export type DriverScoreFactor = 'eta' | 'rating' | 'shift' | 'load';
+
+export const DRIVER_SCORE_WEIGHTS: Record<DriverScoreFactor, number> = {
+  eta: 0.4,
+  rating: 0.2,
+  shift: 0.2,
+  load: 0.2
+};
+
+export const DRIVER_SCORE_LABELS: Record<DriverScoreFactor, string> = {
+  eta: 'ETA to pickup',
+  rating: 'Driver rating',
+  shift: 'Shift remaining',
+  load: 'Current load'
+};
+
+export interface DriverScoringContext {
+  pickup: Coordinates;
+  serviceType: ServiceType;
+  rider?: Rider | null;
+  tripDurationMinutes?: number;
+  activeTrips: Trip[];
+  now?: Date;
+}
+
+export interface DriverRecommendation {
+  driver: Driver;
+  score: number; // 0-100, zero for incompatible drivers
+  etaMinutes: number | null;
+  shiftHoursRemaining: number | null;
+  activeTripCount: number;
+  breakdown: Record<DriverScoreFactor, number>; // each factor 0-1 before weighting
+  isCompatible: boolean;
+  incompatibilityReasons: string[];
+}
+
+/**
+ * Estimated driving minutes between two points at typical urban speed
+ */
+export function estimateTravelMinutes(from: Coordinates, to: Coordinates): number {
+  const roadKm = (distanceMeters(from, to) / 1000) * ROAD_DISTANCE_FACTOR;
+  return (roadKm / AVERAGE_SPEED_KMH) * 60;
+}
+
+/**
+ * Estimated minutes for a driver to reach the pickup, or null without a usable location
+ */
+export function estimateEtaMinutes(driver: Driver, pickup: Coordinates): number | null {
+  const location = driver.currentLocation?.coordinates;
+  if (!isValidCoordinates(location) || !isValidCoordinates(pickup)) return null;
+
+  return estimateTravelMinutes(location, pickup);
+}
+
+/**
+ * Hours left before the driver reaches the maximum shift length, or null when off shift
+ */
+export function getShiftHoursRemaining(driver: Driver, now = new Date()): number | null {
+  if (!driver.shift || driver.shift.endTime) return null;
+
+  const elapsedHours = (now.getTime() - new Date(driver.shift.startTime).getTime()) / 3600000;
+  const breakHours = (driver.shift.totalBreakTime || 0) / 60;
+  return Math.max(0, MAX_SHIFT_HOURS - (elapsedHours - breakHours));
+}
+
+/**
+ * Reasons the driver's vehicle cannot serve this trip, empty when compatible
+ */
+export function getIncompatibilityReasons(
+  driver: Driver,
+  serviceType: ServiceType,
+  rider?: Rider | null
+): string[] {
+  const reasons: string[] = [];
+  const needsWheelchair = serviceType === ServiceType.WHEELCHAIR
+    || !!rider?.accessibilityNeeds?.includes(AccessibilityNeed.WHEELCHAIR);
+
+  if (needsWheelchair && !driver.vehicle.isWheelchairAccessible) {
+    reasons.push('Vehicle is not wheelchair accessible');
+  }
+
+  if (serviceType === ServiceType.GROUP && driver.vehicle.capacity < GROUP_MIN_CAPACITY) {
+    reasons.push(`Vehicle seats ${driver.vehicle.capacity}, group trips need ${GROUP_MIN_CAPACITY}`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Score a single driver against the trip being dispatched
+ */
+export function scoreDriver(driver: Driver, context: DriverScoringContext): DriverRecommendation {
+  const etaMinutes = estimateEtaMinutes(driver, context.pickup);
+  const shiftHoursRemaining = getShiftHoursRemaining(driver, context.now);
+  const activeTripCount = context.activeTrips.filter(trip =>
+    trip.driver?.id === driver.id && isTripActive(trip)
+  ).length;
+  const incompatibilityReasons = getIncompatibilityReasons(driver, context.serviceType, context.rider);
+
+  // Drivers who cannot finish the trip before their shift limit are flagged but still listed
+  const requiredHours = ((etaMinutes ?? 0) + (context.tripDurationMinutes ?? 0)) / 60;
+  if (shiftHoursRemaining !== null && shiftHoursRemaining < requiredHours) {
+    incompatibilityReasons.push('Trip would exceed the maximum shift length');
+  }
+
+  const breakdown: Record<DriverScoreFactor, number> = {
+    eta: etaMinutes === null ? 0 : clamp(1 - etaMinutes / MAX_ETA_MINUTES, 0, 1),
+    rating: clamp((driver.rating - 3) / 2, 0, 1),
+    // Drivers without an open shift get a neutral score rather than a penalty
+    shift: shiftHoursRemaining === null ? 0.5 : clamp(shiftHoursRemaining / COMFORTABLE_SHIFT_HOURS, 0, 1),
+    load: clamp(1 - activeTripCount / MAX_ACTIVE_TRIPS, 0, 1)
+  };
+
+  const isCompatible = incompatibilityReasons.length === 0;
+  const weighted = (Object.keys(DRIVER_SCORE_WEIGHTS) as DriverScoreFactor[])
+    .reduce((sum, factor) => sum + breakdown[factor] * DRIVER_SCORE_WEIGHTS[factor], 0);
+
+  return {
+    driver,
+    score: isCompatible ? Math.round(weighted * 100) : 0,
+    etaMinutes,
+    shiftHoursRemaining,
+    activeTripCount,
+    breakdown,
+    isCompatible,
+    incompatibilityReasons
+  };
+}
+
+/**
+ * Rank drivers best first, with incompatible drivers at the end
+ */
+export function rankDrivers(drivers: Driver[], context: DriverScoringContext): DriverRecommendation[] {
+  return drivers
+    .map(driver => scoreDriver(driver, context))
+    .sort((a, b) => {
+      if (a.isCompatible !== b.isCompatible) return a.isCompatible ? -1 : 1;
+      if (b.score !== a.score) return b.score - a.score;
+      return (a.etaMinutes ?? Infinity) - (b.etaMinutes ?? Infinity);
+    });
+}
+
+export interface AssignmentPreview extends DriverRecommendation {
+  violations: string[];
+  requiresOverride: boolean;
+}
+
+/**
+ * Preview a manual assignment, listing every constraint the dispatcher would be overriding
+ */
+export function previewAssignment(trip: Trip, driver: Driver, activeTrips: Trip[]): AssignmentPreview {
+  const recommendation = scoreDriver(driver, {
+    pickup: trip.pickup.coordinates,
+    serviceType: trip.serviceType,
+    rider: trip.rider,
+    tripDurationMinutes: trip.estimatedDuration,
+    activeTrips
+  });
+
+  const violations = [...recommendation.incompatibilityReasons];
+  if (!driver.isOnline) {
+    violations.push('Driver is offline');
+  } else if (driver.status !== DriverStatus.AVAILABLE) {
+    violations.push(`Driver is ${driver.status.replace(/_/g, ' ')}`);
+  }
+
+  return {
+    ...recommendation,
+    violations,
+    requiresOverride: violations.length > 0
+  };
+}
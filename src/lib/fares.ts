@@ -0,0 +1,191 @@
+/**
+ * Fare estimation for the Hermes Dispatcher Console
+ * Prices trips from tenant rate cards, applying surcharges, minimums and promo codes
+ */
+
+import { AccessibilityNeed, PromoCode, RateCard, ServiceType, TenantSettings, Trip } from '@/types';
+import { getClosureReason } from '@/lib/recurrence';
+
+export const DEFAULT_RATE_CARDS: Record<ServiceType, RateCard> = {
+  [ServiceType.STANDARD]: {
+    baseFare: 3.5,
+    perDistance: 1.75,
+    perMinute: 0.35,
+    minimumFare: 8,
+    wheelchairSurcharge: 0,
+    afterHoursSurcharge: 5
+  },
+  [ServiceType.PREMIUM]: {
+    baseFare: 7,
+    perDistance: 2.75,
+    perMinute: 0.5,
+    minimumFare: 15,
+    wheelchairSurcharge: 0,
+    afterHoursSurcharge: 8
+  },
+  [ServiceType.WHEELCHAIR]: {
+    baseFare: 5,
+    perDistance: 2.25,
+    perMinute: 0.45,
+    minimumFare: 12,
+    wheelchairSurcharge: 10,
+    afterHoursSurcharge: 8
+  },
+  [ServiceType.GROUP]: {
+    baseFare: 10,
+    perDistance: 3,
+    perMinute: 0.6,
+    minimumFare: 20,
+    wheelchairSurcharge: 10,
+    afterHoursSurcharge: 10
+  },
+  [ServiceType.DELIVERY]: {
+    baseFare: 4,
+    perDistance: 1.5,
+    perMinute: 0.25,
+    minimumFare: 7,
+    wheelchairSurcharge: 0,
+    afterHoursSurcharge: 5
+  }
+};
+
+export interface FareInput {
+  serviceType: ServiceType;
+  distance: number; // in the tenant's distance unit
+  durationMinutes: number;
+  pickupAt: Date;
+  needsWheelchair?: boolean;
+  promoCode?: string;
+  discount?: number; // discount already granted by the server, used instead of the promo code
+}
+
+export interface FareLine {
+  label: string;
+  amount: number;
+}
+
+export interface FareBreakdown {
+  lines: FareLine[]; // base, distance and time charges
+  surcharges: FareLine[];
+  minimumAdjustment: number; // added when the fare falls below the minimum
+  subtotal: number;
+  discount: number;
+  total: number;
+  promo?: {
+    code: string;
+    applied: boolean;
+    message: string;
+  };
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Rate card for a service type, falling back to the built-in defaults
+ */
+export function getRateCard(serviceType: ServiceType, settings?: TenantSettings): RateCard {
+  return { ...DEFAULT_RATE_CARDS[serviceType], ...settings?.rateCards?.[serviceType] };
+}
+
+/**
+ * Discount a promo code grants on the subtotal, or the reason it does not apply
+ */
+export function applyPromoCode(
+  code: string,
+  serviceType: ServiceType,
+  subtotal: number,
+  settings?: TenantSettings,
+  now = new Date()
+): { discount: number; error?: string; promo?: PromoCode } {
+  const promo = settings?.promoCodes?.find(item => item.code.toUpperCase() === code.trim().toUpperCase());
+
+  if (!promo || !promo.isActive) {
+    return { discount: 0, error: 'Promo code is not valid' };
+  }
+
+  if (promo.expiresAt && new Date(promo.expiresAt) < now) {
+    return { discount: 0, error: 'Promo code has expired' };
+  }
+
+  if (promo.serviceTypes?.length && !promo.serviceTypes.includes(serviceType)) {
+    return { discount: 0, error: `Promo code does not apply to ${serviceType} trips` };
+  }
+
+  const discount = promo.type === 'percent'
+    ? Math.min(subtotal * (promo.value / 100), promo.maxDiscount ?? Infinity)
+    : promo.value;
+
+  return { discount: roundCents(Math.min(discount, subtotal)), promo };
+}
+
+/**
+ * Itemized fare for a trip
+ */
+export function calculateFare(input: FareInput, settings?: TenantSettings): FareBreakdown {
+  const card = getRateCard(input.serviceType, settings);
+  const unit = settings?.distanceUnit === 'kilometers' ? 'km' : 'mi';
+
+  const lines: FareLine[] = [
+    { label: 'Base fare', amount: card.baseFare },
+    { label: `Distance (${input.distance.toFixed(1)} ${unit})`, amount: roundCents(input.distance * card.perDistance) },
+    { label: `Time (${Math.round(input.durationMinutes)} min)`, amount: roundCents(input.durationMinutes * card.perMinute) }
+  ];
+
+  const surcharges: FareLine[] = [];
+  if (input.needsWheelchair && card.wheelchairSurcharge > 0) {
+    surcharges.push({ label: 'Wheelchair accessible vehicle', amount: card.wheelchairSurcharge });
+  }
+
+  const closure = getClosureReason(input.pickupAt, settings?.operatingHours);
+  if (closure && card.afterHoursSurcharge > 0) {
+    surcharges.push({ label: `After hours (${closure.toLowerCase()})`, amount: card.afterHoursSurcharge });
+  }
+
+  const charges = [...lines, ...surcharges].reduce((sum, line) => sum + line.amount, 0);
+  const minimumAdjustment = roundCents(Math.max(0, card.minimumFare - charges));
+  const subtotal = roundCents(charges + minimumAdjustment);
+
+  let discount = 0;
+  let promo: FareBreakdown['promo'];
+
+  if (input.discount !== undefined) {
+    discount = roundCents(Math.min(input.discount, subtotal));
+    if (input.promoCode) {
+      promo = { code: input.promoCode.toUpperCase(), applied: true, message: 'Discount applied' };
+    }
+  } else if (input.promoCode?.trim()) {
+    const result = applyPromoCode(input.promoCode, input.serviceType, subtotal, settings);
+    discount = result.discount;
+    promo = {
+      code: input.promoCode.trim().toUpperCase(),
+      applied: !result.error,
+      message: result.error || (result.promo?.type === 'percent' ? `${result.promo.value}% off` : 'Discount applied')
+    };
+  }
+
+  return {
+    lines,
+    surcharges,
+    minimumAdjustment,
+    subtotal,
+    discount,
+    total: roundCents(subtotal - discount),
+    promo
+  };
+}
+
+/**
+ * Fare breakdown for an existing trip from its estimates and any discount already granted
+ */
+export function getTripFareBreakdown(trip: Trip, settings?: TenantSettings): FareBreakdown {
+  return calculateFare({
+    serviceType: trip.serviceType,
+    distance: trip.estimatedDistance || 0,
+    durationMinutes: trip.estimatedDuration || 0,
+    pickupAt: new Date(trip.scheduledAt || trip.requestedAt),
+    needsWheelchair: trip.serviceType === ServiceType.WHEELCHAIR
+      || !!trip.rider.accessibilityNeeds?.includes(AccessibilityNeed.WHEELCHAIR),
+    promoCode: trip.promoCode,
+    discount: trip.discount
+  }, settings);
+}
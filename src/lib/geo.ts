@@ -0,0 +1,142 @@
+/**
+ * Geometry helpers for route tracking in the Hermes Dispatcher Console
+ * Distances are great-circle approximations in meters, accurate enough for city-scale dispatch
+ */
+
+import { Coordinates } from '@/types';
+
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_MILE = 1609.344;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Haversine distance between two points in meters
+ */
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Convert meters to the tenant's distance unit
+ */
+export function metersToUnit(meters: number, unit: 'miles' | 'kilometers'): number {
+  return unit === 'miles' ? meters / METERS_PER_MILE : meters / 1000;
+}
+
+/**
+ * Initial bearing from one point to another in degrees clockwise from north
+ */
+export function bearingDegrees(from: Coordinates, to: Coordinates): number {
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Shortest distance in meters from a point to the segment a → b.
+ * Projects onto a local equirectangular plane, which is fine for segments of a few kilometers.
+ */
+export function distanceToSegmentMeters(point: Coordinates, a: Coordinates, b: Coordinates): number {
+  const cosLat = Math.cos(toRadians(point.latitude));
+  const project = (c: Coordinates) => ({
+    x: toRadians(c.longitude - point.longitude) * cosLat * EARTH_RADIUS_METERS,
+    y: toRadians(c.latitude - point.latitude) * EARTH_RADIUS_METERS
+  });
+
+  const pa = project(a);
+  const pb = project(b);
+  const dx = pb.x - pa.x;
+  const dy = pb.y - pa.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Degenerate segment: distance to its single point
+  if (lengthSquared === 0) {
+    return Math.hypot(pa.x, pa.y);
+  }
+
+  // The point sits at the origin, so the projection parameter is -(pa · d) / |d|²
+  const t = Math.max(0, Math.min(1, -(pa.x * dx + pa.y * dy) / lengthSquared));
+  return Math.hypot(pa.x + t * dx, pa.y + t * dy);
+}
+
+/**
+ * Shortest distance in meters from a point to a polyline
+ */
+export function distanceToPolylineMeters(point: Coordinates, polyline: Coordinates[]): number {
+  if (polyline.length === 0) return Infinity;
+  if (polyline.length === 1) return distanceMeters(point, polyline[0]);
+
+  let minDistance = Infinity;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    minDistance = Math.min(minDistance, distanceToSegmentMeters(point, polyline[i], polyline[i + 1]));
+  }
+  return minDistance;
+}
+
+/**
+ * Total length of a polyline in meters
+ */
+export function polylineLengthMeters(polyline: Coordinates[]): number {
+  let length = 0;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    length += distanceMeters(polyline[i], polyline[i + 1]);
+  }
+  return length;
+}
+
+export interface TrailSegments {
+  onRoute: Coordinates[][];
+  offRoute: Coordinates[][];
+}
+
+/**
+ * Split a travelled trail into runs that stay within the corridor around the planned route
+ * and runs that leave it. Adjacent runs share their boundary point so the drawn lines connect.
+ */
+export function splitTrailByDeviation(
+  trail: Coordinates[],
+  plannedRoute: Coordinates[],
+  corridorMeters: number
+): TrailSegments {
+  const segments: TrailSegments = { onRoute: [], offRoute: [] };
+  if (trail.length < 2) return segments;
+
+  // Without a planned route there is nothing to deviate from
+  if (plannedRoute.length < 2) {
+    segments.onRoute.push(trail);
+    return segments;
+  }
+
+  let currentOff = distanceToPolylineMeters(trail[0], plannedRoute) > corridorMeters;
+  let current: Coordinates[] = [trail[0]];
+
+  for (let i = 1; i < trail.length; i++) {
+    const isOff = distanceToPolylineMeters(trail[i], plannedRoute) > corridorMeters;
+    current.push(trail[i]);
+
+    if (isOff !== currentOff) {
+      (currentOff ? segments.offRoute : segments.onRoute).push(current);
+      current = [trail[i]];
+      currentOff = isOff;
+    }
+  }
+
+  if (current.length > 1) {
+    (currentOff ? segments.offRoute : segments.onRoute).push(current);
+  }
+
+  return segments;
+}
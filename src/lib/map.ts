@@ -0,0 +1,173 @@
+/**
+ * Map configuration and geographic helpers for the Hermes Dispatcher Console
+ * Resolves the basemap style from the environment and projects domain coordinates for Mapbox GL
+ */
+
+import type { MapStyle } from 'react-map-gl';
+import { Coordinates, Driver, DriverStatus, Trip, TripStatus } from '@/types';
+
+// Map configuration
+export const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_TOKEN || '';
+const MAP_STYLE_URL = process.env.NEXT_PUBLIC_MAP_STYLE_URL || '';
+const MAP_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || '';
+const MAP_TILE_ATTRIBUTION = process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION || '';
+const MAPBOX_DEFAULT_STYLE = 'mapbox://styles/mapbox/streets-v12';
+
+export const MIN_MAP_ZOOM = 1;
+export const MAX_MAP_ZOOM = 20;
+
+/**
+ * Build a raster style around a single XYZ tile template (e.g. a local tile server)
+ */
+function createRasterStyle(tileUrl: string, attribution?: string): MapStyle {
+  return {
+    version: 8,
+    sources: {
+      basemap: {
+        type: 'raster',
+        tiles: [tileUrl],
+        tileSize: 256,
+        attribution
+      }
+    },
+    layers: [
+      {
+        id: 'basemap',
+        type: 'raster',
+        source: 'basemap'
+      }
+    ]
+  };
+}
+
+/**
+ * Blank style used when no tile source is configured, so markers still render
+ * in their true positions without any network access
+ */
+const OFFLINE_STYLE: MapStyle = {
+  version: 8,
+  sources: {},
+  layers: [
+    {
+      id: 'background',
+      type: 'background',
+      paint: { 'background-color': '#EEF2F7' }
+    }
+  ]
+};
+
+/**
+ * Resolve the basemap style in order of precedence:
+ * explicit style URL, XYZ tile template, Mapbox hosted style, offline fallback
+ */
+export function getMapStyle(): string | MapStyle {
+  if (MAP_STYLE_URL) {
+    return MAP_STYLE_URL;
+  }
+
+  if (MAP_TILE_URL) {
+    return createRasterStyle(MAP_TILE_URL, MAP_TILE_ATTRIBUTION || undefined);
+  }
+
+  if (MAPBOX_TOKEN) {
+    return MAPBOX_DEFAULT_STYLE;
+  }
+
+  return OFFLINE_STYLE;
+}
+
+/**
+ * Marker colour for a driver status, shared by individual and cluster markers
+ */
+export function getDriverMarkerColor(status: DriverStatus): string {
+  switch (status) {
+    case DriverStatus.AVAILABLE:
+      return '#10B981'; // green
+    case DriverStatus.BUSY:
+    case DriverStatus.EN_ROUTE:
+      return '#F59E0B'; // orange
+    case DriverStatus.BREAK:
+      return '#6B7280'; // gray
+    case DriverStatus.MAINTENANCE:
+      return '#EF4444'; // red
+    default:
+      return '#6B7280'; // gray
+  }
+}
+
+/**
+ * Check that coordinates are present and within valid WGS84 bounds
+ */
+export function isValidCoordinates(coordinates?: Coordinates | null): coordinates is Coordinates {
+  if (!coordinates) return false;
+
+  const { latitude, longitude } = coordinates;
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 &&
+    Math.abs(longitude) <= 180
+  );
+}
+
+/**
+ * Convert domain coordinates to a GeoJSON [lng, lat] position
+ */
+export function toLngLat(coordinates: Coordinates): [number, number] {
+  return [coordinates.longitude, coordinates.latitude];
+}
+
+/**
+ * Trips that are still in progress and belong on a live map
+ */
+export function isTripActive(trip: Trip): boolean {
+  return ![TripStatus.COMPLETED, TripStatus.CANCELLED, TripStatus.NO_SHOW].includes(trip.status);
+}
+
+/**
+ * Drivers that are online and reporting a usable location
+ */
+export function hasDriverLocation(driver: Driver): boolean {
+  return driver.isOnline && isValidCoordinates(driver.currentLocation?.coordinates);
+}
+
+/**
+ * Build a GeoJSON collection of straight pickup → destination lines for the given trips
+ */
+export function buildTripLinesGeoJSON(
+  trips: Trip[],
+  getColor: (trip: Trip) => string
+): GeoJSON.FeatureCollection<GeoJSON.LineString> {
+  return {
+    type: 'FeatureCollection',
+    features: trips
+      .filter(trip =>
+        isValidCoordinates(trip.pickup.coordinates) &&
+        isValidCoordinates(trip.destination.coordinates)
+      )
+      .map(trip => ({
+        type: 'Feature',
+        properties: { tripId: trip.id, color: getColor(trip) },
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            toLngLat(trip.pickup.coordinates),
+            toLngLat(trip.destination.coordinates)
+          ]
+        }
+      }))
+  };
+}
+
+/**
+ * Compute the centre point of a set of coordinates
+ */
+export function getCentroid(points: Coordinates[]): Coordinates | null {
+  const valid = points.filter(isValidCoordinates);
+  if (valid.length === 0) return null;
+
+  return {
+    latitude: valid.reduce((sum, p) => sum + p.latitude, 0) / valid.length,
+    longitude: valid.reduce((sum, p) => sum + p.longitude, 0) / valid.length
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Audible and desktop notification helpers for the Hermes Dispatcher Console
+ * Decides whether a toast should also sound or reach the desktop, and does so through the browser APIs
+ */
+
+import { AlertSeverity, MessageType, Notification, NotificationPreferences } from '@/types';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  desktop: true,
+  sound: true,
+  messageTypes: [MessageType.ALERT_CREATED, MessageType.ALERT_UPDATED],
+  doNotDisturb: false,
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00'
+  },
+  criticalOverridesQuiet: true
+};
+
+// Real-time events that raise a toast, and so can be chosen to notify
+export const NOTIFIABLE_MESSAGE_TYPES: Array<{ type: MessageType; label: string; description: string }> = [
+  { type: MessageType.ALERT_CREATED, label: 'New alerts', description: 'An alert is raised for a trip, driver or rider' },
+  { type: MessageType.ALERT_UPDATED, label: 'Alert escalations', description: 'An alert is still unacknowledged or was escalated' },
+  { type: MessageType.NEW_TRIP_REQUEST, label: 'New trip requests', description: 'A rider requests a trip' }
+];
+
+interface Tone {
+  frequency: number;
+  duration: number; // seconds
+}
+
+// Each severity gets its own pattern so dispatchers can tell them apart without looking
+const SEVERITY_TONES: Record<AlertSeverity, Tone[]> = {
+  [AlertSeverity.LOW]: [{ frequency: 660, duration: 0.15 }],
+  [AlertSeverity.MEDIUM]: [{ frequency: 880, duration: 0.12 }, { frequency: 880, duration: 0.12 }],
+  [AlertSeverity.HIGH]: [
+    { frequency: 988, duration: 0.1 },
+    { frequency: 988, duration: 0.1 },
+    { frequency: 988, duration: 0.1 }
+  ],
+  [AlertSeverity.CRITICAL]: [
+    { frequency: 1047, duration: 0.2 },
+    { frequency: 784, duration: 0.2 },
+    { frequency: 1047, duration: 0.2 },
+    { frequency: 784, duration: 0.2 }
+  ]
+};
+
+// Events without a severity, such as new trip requests
+const DEFAULT_TONES: Tone[] = [{ frequency: 523, duration: 0.12 }, { frequency: 784, duration: 0.18 }];
+
+const TONE_GAP_SECONDS = 0.08;
+
+let audioContext: AudioContext | null = null;
+
+const parseMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Whether the time falls inside the quiet hours window, which may span midnight
+ */
+export function isWithinQuietHours(preferences: NotificationPreferences, now = new Date()): boolean {
+  const { enabled, start, end } = preferences.quietHours;
+  if (!enabled) return false;
+
+  const startMinutes = parseMinutes(start);
+  const endMinutes = parseMinutes(end);
+  if (Number.isNaN(startMinutes) || Number.isNaN(endMinutes) || startMinutes === endMinutes) return false;
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+}
+
+/**
+ * Whether a toast should also sound and go to the desktop
+ */
+export function shouldNotify(
+  notification: Pick<Notification, 'messageType' | 'severity'>,
+  preferences: NotificationPreferences,
+  now = new Date()
+): boolean {
+  if (!notification.messageType || !preferences.messageTypes.includes(notification.messageType)) return false;
+
+  const silenced = preferences.doNotDisturb || isWithinQuietHours(preferences, now);
+  if (!silenced) return true;
+
+  return preferences.criticalOverridesQuiet && notification.severity === AlertSeverity.CRITICAL;
+}
+
+/**
+ * Play the tone pattern for a severity
+ */
+export function playNotificationSound(severity?: AlertSeverity): void {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') return;
+
+  try {
+    audioContext = audioContext ?? new window.AudioContext();
+    // Browsers suspend audio until the page has had a user gesture
+    if (audioContext.state === 'suspended') {
+      audioContext.resume().catch(() => undefined);
+    }
+
+    const tones = severity ? SEVERITY_TONES[severity] : DEFAULT_TONES;
+    let startAt = audioContext.currentTime;
+
+    tones.forEach(tone => {
+      const oscillator = audioContext!.createOscillator();
+      const gain = audioContext!.createGain();
+
+      oscillator.type = 'sine';
+      oscillator.frequency.value = tone.frequency;
+      // Ramp out to avoid clicks at the end of each tone
+      gain.gain.setValueAtTime(0.2, startAt);
+      gain.gain.exponentialRampToValueAtTime(0.001, startAt + tone.duration);
+
+      oscillator.connect(gain);
+      gain.connect(audioContext!.destination);
+      oscillator.start(startAt);
+      oscillator.stop(startAt + tone.duration);
+
+      startAt += tone.duration + TONE_GAP_SECONDS;
+    });
+  } catch (error) {
+    console.error('Failed to play notification sound:', error);
+  }
+}
+
+export function isDesktopNotificationSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Ask the browser for permission to show desktop notifications
+ */
+export async function requestDesktopPermission(): Promise<NotificationPermission> {
+  if (!isDesktopNotificationSupported()) return 'denied';
+  if (window.Notification.permission !== 'default') return window.Notification.permission;
+
+  return window.Notification.requestPermission();
+}
+
+/**
+ * Show a desktop notification while the console is in a background tab or window
+ */
+export function showDesktopNotification(notification: Notification): void {
+  if (!isDesktopNotificationSupported() || window.Notification.permission !== 'granted') return;
+  // The toast is already visible when the console has focus
+  if (!document.hidden && document.hasFocus()) return;
+
+  try {
+    const desktopNotification = new window.Notification(notification.title, {
+      body: notification.message,
+      tag: notification.id,
+      requireInteraction: notification.severity === AlertSeverity.CRITICAL
+    });
+
+    desktopNotification.onclick = () => {
+      window.focus();
+      desktopNotification.close();
+    };
+  } catch (error) {
+    console.error('Failed to show desktop notification:', error);
+  }
+}
+
+/**
+ * Sound and desktop delivery for a toast, following the user's preferences
+ */
+export function deliverNotification(notification: Notification, preferences: NotificationPreferences): void {
+  if (!shouldNotify(notification, preferences)) return;
+
+  if (preferences.sound) {
+    playNotificationSound(notification.severity);
+  }
+  if (preferences.desktop) {
+    showDesktopNotification(notification);
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Shared-ride pooling for the Hermes Dispatcher Console
+ * Groups pending GROUP trips with nearby pickups and drop-offs into single vehicle runs
+ * without exceeding vehicle capacity or any rider's acceptable detour
+ */
+
+import { Coordinates, Driver, DriverStatus, PoolingSettings, ServiceType, Trip, TripStatus } from '@/types';
+import { distanceMeters } from '@/lib/geo';
+import { isValidCoordinates } from '@/lib/map';
+import { estimateTravelMinutes, GROUP_MIN_CAPACITY } from '@/lib/driver-scoring';
+
+export const DEFAULT_POOLING_SETTINGS: PoolingSettings = {
+  pickupRadiusMeters: 1500,
+  dropoffRadiusMeters: 3000,
+  maxDetourMinutes: 15,
+  maxPickupGapMinutes: 20,
+  maxTripsPerRun: 4
+};
+
+// Boarding or alighting time added at every stop
+const STOP_DWELL_MINUTES = 2;
+
+export interface PoolStop {
+  type: 'pickup' | 'dropoff';
+  trip: Trip;
+  coordinates: Coordinates;
+  address: string;
+  arrivalMinutes: number; // from the first pickup
+  onBoard: number; // passengers in the vehicle after this stop
+}
+
+export interface PoolRiderImpact {
+  tripId: string;
+  directMinutes: number;
+  pooledMinutes: number;
+  detourMinutes: number;
+}
+
+export interface PooledRun {
+  id: string;
+  trips: Trip[];
+  stops: PoolStop[];
+  passengerCount: number;
+  totalMinutes: number;
+  savedMinutes: number; // vehicle time saved against running each trip separately
+  riderImpacts: PoolRiderImpact[];
+  maxDetourMinutes: number;
+}
+
+/**
+ * Riders travelling on a booking
+ */
+export function getPassengerCount(trip: Trip): number {
+  return Math.max(1, trip.passengerCount ?? 1);
+}
+
+/**
+ * Pending, unassigned GROUP trips that could share a vehicle
+ */
+export function isPoolable(trip: Trip): boolean {
+  return trip.serviceType === ServiceType.GROUP
+    && trip.status === TripStatus.PENDING
+    && !trip.driver
+    && isValidCoordinates(trip.pickup.coordinates)
+    && isValidCoordinates(trip.destination.coordinates);
+}
+
+/**
+ * Largest vehicle among drivers who could take a group run right now
+ */
+export function getPoolingCapacity(drivers: Driver[]): number {
+  return drivers
+    .filter(driver => driver.isOnline && driver.status === DriverStatus.AVAILABLE)
+    .reduce((max, driver) => Math.max(max, driver.vehicle.capacity), GROUP_MIN_CAPACITY);
+}
+
+const getPickupTime = (trip: Trip) => new Date(trip.scheduledAt || trip.requestedAt).getTime();
+
+/**
+ * Order stops greedily by nearest next point, starting from the given location
+ */
+function orderByProximity(start: Coordinates, trips: Trip[], getPoint: (trip: Trip) => Coordinates): Trip[] {
+  const remaining = [...trips];
+  const ordered: Trip[] = [];
+  let current = start;
+
+  while (remaining.length > 0) {
+    let nearest = 0;
+    remaining.forEach((trip, index) => {
+      if (distanceMeters(current, getPoint(trip)) < distanceMeters(current, getPoint(remaining[nearest]))) {
+        nearest = index;
+      }
+    });
+
+    const [next] = remaining.splice(nearest, 1);
+    ordered.push(next);
+    current = getPoint(next);
+  }
+
+  return ordered;
+}
+
+/**
+ * Merged itinerary for a set of trips: every pickup first, then every drop-off, each leg to the nearest stop
+ */
+export function buildPooledRun(trips: Trip[]): PooledRun {
+  const [seed, ...others] = [...trips].sort((a, b) => getPickupTime(a) - getPickupTime(b));
+  const pickups = [seed, ...orderByProximity(seed.pickup.coordinates, others, trip => trip.pickup.coordinates)];
+  const dropoffs = orderByProximity(
+    pickups[pickups.length - 1].pickup.coordinates,
+    pickups,
+    trip => trip.destination.coordinates
+  );
+
+  const stops: PoolStop[] = [];
+  let minutes = 0;
+  let onBoard = 0;
+
+  const visit = (type: PoolStop['type'], trip: Trip) => {
+    const location = type === 'pickup' ? trip.pickup : trip.destination;
+    const previous = stops[stops.length - 1];
+    if (previous) {
+      minutes += estimateTravelMinutes(previous.coordinates, location.coordinates) + STOP_DWELL_MINUTES;
+    }
+    onBoard += type === 'pickup' ? getPassengerCount(trip) : -getPassengerCount(trip);
+    stops.push({
+      type,
+      trip,
+      coordinates: location.coordinates,
+      address: location.address,
+      arrivalMinutes: minutes,
+      onBoard
+    });
+  };
+
+  pickups.forEach(trip => visit('pickup', trip));
+  dropoffs.forEach(trip => visit('dropoff', trip));
+
+  const riderImpacts = pickups.map(trip => {
+    const pickedUp = stops.find(stop => stop.type === 'pickup' && stop.trip.id === trip.id)!;
+    const droppedOff = stops.find(stop => stop.type === 'dropoff' && stop.trip.id === trip.id)!;
+    const directMinutes = estimateTravelMinutes(trip.pickup.coordinates, trip.destination.coordinates);
+    const pooledMinutes = droppedOff.arrivalMinutes - pickedUp.arrivalMinutes;
+
+    return {
+      tripId: trip.id,
+      directMinutes,
+      pooledMinutes,
+      detourMinutes: Math.max(0, pooledMinutes - directMinutes)
+    };
+  });
+
+  const separateMinutes = riderImpacts.reduce((sum, impact) => sum + impact.directMinutes, 0);
+
+  return {
+    id: pickups.map(trip => trip.id).sort().join('+'),
+    trips: pickups,
+    stops,
+    passengerCount: pickups.reduce((sum, trip) => sum + getPassengerCount(trip), 0),
+    totalMinutes: minutes,
+    savedMinutes: Math.max(0, separateMinutes - minutes),
+    riderImpacts,
+    maxDetourMinutes: Math.max(...riderImpacts.map(impact => impact.detourMinutes))
+  };
+}
+
+/**
+ * Whether a candidate trip is close enough in place and time to join a run seeded by another trip
+ */
+function isNearby(seed: Trip, candidate: Trip, settings: PoolingSettings): boolean {
+  return distanceMeters(seed.pickup.coordinates, candidate.pickup.coordinates) <= settings.pickupRadiusMeters
+    && distanceMeters(seed.destination.coordinates, candidate.destination.coordinates) <= settings.dropoffRadiusMeters
+    && Math.abs(getPickupTime(seed) - getPickupTime(candidate)) <= settings.maxPickupGapMinutes * 60000;
+}
+
+/**
+ * Propose pooled runs from pending trips, earliest pickups first, each trip in at most one run
+ */
+export function proposePooledRuns(
+  trips: Trip[],
+  capacity: number,
+  settings: PoolingSettings = DEFAULT_POOLING_SETTINGS
+): PooledRun[] {
+  const candidates = trips
+    .filter(isPoolable)
+    .sort((a, b) => getPickupTime(a) - getPickupTime(b));
+  const pooled = new Set<string>();
+  const runs: PooledRun[] = [];
+
+  candidates.forEach(seed => {
+    if (pooled.has(seed.id) || getPassengerCount(seed) >= capacity) return;
+
+    let members = [seed];
+    let run: PooledRun | null = null;
+
+    const nearby = candidates
+      .filter(candidate => candidate.id !== seed.id && !pooled.has(candidate.id) && isNearby(seed, candidate, settings))
+      .sort((a, b) =>
+        distanceMeters(seed.pickup.coordinates, a.pickup.coordinates)
+        - distanceMeters(seed.pickup.coordinates, b.pickup.coordinates)
+      );
+
+    for (const candidate of nearby) {
+      if (members.length >= settings.maxTripsPerRun) break;
+
+      const passengers = members.reduce((sum, trip) => sum + getPassengerCount(trip), 0);
+      if (passengers + getPassengerCount(candidate) > capacity) continue;
+
+      // Keep the candidate only if no rider's detour grows past the limit
+      const trial = buildPooledRun([...members, candidate]);
+      if (trial.maxDetourMinutes <= settings.maxDetourMinutes) {
+        members = [...members, candidate];
+        run = trial;
+      }
+    }
+
+    if (run) {
+      members.forEach(trip => pooled.add(trip.id));
+      runs.push(run);
+    }
+  });
+
+  return runs;
+}
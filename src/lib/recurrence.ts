@@ -0,0 +1,261 @@
+/**
+ * Recurring trip expansion for the Hermes Dispatcher Console
+ * Expands RRULE-style series into dated occurrences, honouring exceptions and the tenant's operating hours
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  endOfDay,
+  format,
+  isAfter,
+  isBefore,
+  setHours,
+  setMinutes,
+  startOfDay
+} from 'date-fns';
+import {
+  OperatingHours,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RecurringTripSeries,
+  TripCreateRequest,
+  Weekday
+} from '@/types';
+
+export const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+];
+
+// Safety cap on occurrences returned for a single window
+const MAX_OCCURRENCES = 500;
+
+// How far ahead trips are created for a series by default
+export const DEFAULT_GENERATION_HORIZON_DAYS = 14;
+
+export type OccurrenceStatus = 'scheduled' | 'modified' | 'skipped' | 'closed';
+
+export interface SeriesOccurrence {
+  date: string; // yyyy-MM-dd
+  scheduledAt: Date;
+  status: OccurrenceStatus;
+  reason?: string;
+  request?: TripCreateRequest;
+}
+
+export function toOccurrenceDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+export function getWeekday(date: Date): Weekday {
+  return WEEKDAYS[date.getDay()];
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Set the wall-clock time rather than adding minutes, which lands an hour off on DST changeover days
+const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return setMinutes(setHours(startOfDay(day), hours), minutes || 0);
+};
+
+/**
+ * Whether a calendar day matches the rule, ignoring count and until
+ */
+function matchesRule(day: Date, rule: RecurrenceRule): boolean {
+  const start = startOfDay(new Date(rule.startDate));
+  if (isBefore(day, start)) return false;
+
+  const interval = Math.max(1, rule.interval);
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return differenceInCalendarDays(day, start) % interval === 0;
+    case RecurrenceFrequency.WEEKLY: {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [getWeekday(start)];
+      return weekdays.includes(getWeekday(day)) && differenceInCalendarWeeks(day, start) % interval === 0;
+    }
+    case RecurrenceFrequency.MONTHLY:
+      return day.getDate() === start.getDate() && differenceInCalendarMonths(day, start) % interval === 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Pickup times produced by a rule within [from, to] (until is inclusive of its day)
+ */
+export function expandRecurrence(rule: RecurrenceRule, from: Date, to: Date): Date[] {
+  const dates: Date[] = [];
+  const start = startOfDay(new Date(rule.startDate));
+  const last = rule.until && isBefore(endOfDay(new Date(rule.until)), to) ? endOfDay(new Date(rule.until)) : to;
+
+  // A count is numbered from the first occurrence, so only those rules are walked from the start date
+  let day = rule.count || isBefore(from, start) ? start : startOfDay(from);
+  let counted = 0;
+
+  for (; !isAfter(day, last) && dates.length < MAX_OCCURRENCES; day = addDays(day, 1)) {
+    if (!matchesRule(day, rule)) continue;
+
+    const pickupAt = atTime(day, rule.pickupTime);
+    if (isAfter(pickupAt, last)) break;
+
+    counted += 1;
+    if (rule.count && counted > rule.count) break;
+
+    if (!isBefore(pickupAt, from)) {
+      dates.push(pickupAt);
+    }
+  }
+
+  return dates;
+}
+
+/**
+ * Reason the service is unavailable at this time, or null when it is open
+ */
+export function getClosureReason(scheduledAt: Date, operatingHours?: OperatingHours): string | null {
+  if (!operatingHours) return null;
+
+  const date = toOccurrenceDate(scheduledAt);
+  if (operatingHours.holidays?.includes(date)) {
+    return 'Holiday closure';
+  }
+
+  const weekday = getWeekday(scheduledAt);
+  const schedule = operatingHours[weekday];
+  if (!schedule?.isActive) {
+    return `Closed on ${weekday}s`;
+  }
+
+  const minutes = scheduledAt.getHours() * 60 + scheduledAt.getMinutes();
+  if (minutes < toMinutes(schedule.openTime) || minutes >= toMinutes(schedule.closeTime)) {
+    return `Outside operating hours (${schedule.openTime}–${schedule.closeTime})`;
+  }
+
+  return null;
+}
+
+/**
+ * Occurrences of a series within [from, to], with exceptions and closures applied
+ */
+export function getSeriesOccurrences(
+  series: RecurringTripSeries,
+  from: Date,
+  to: Date,
+  operatingHours?: OperatingHours
+): SeriesOccurrence[] {
+  const exceptions = new Map(series.exceptions.map(exception => [exception.date, exception]));
+
+  return expandRecurrence(series.recurrence, from, to)
+    .map((ruleTime): SeriesOccurrence => {
+      const date = toOccurrenceDate(ruleTime);
+      const exception = exceptions.get(date);
+
+      if (exception?.type === 'skip') {
+        return { date, scheduledAt: ruleTime, status: 'skipped', reason: exception.reason || 'Cancelled' };
+      }
+
+      const overrides = exception?.type === 'modify' ? exception.overrides : undefined;
+      const scheduledAt = overrides?.scheduledAt ? new Date(overrides.scheduledAt) : ruleTime;
+
+      const closure = getClosureReason(scheduledAt, operatingHours);
+      if (closure) {
+        return { date, scheduledAt, status: 'closed', reason: closure };
+      }
+
+      const request: TripCreateRequest = {
+        ...series.template,
+        ...overrides,
+        scheduledAt,
+        metadata: { recurringSeriesId: series.id, occurrenceDate: date }
+      };
+
+      return {
+        date,
+        scheduledAt,
+        status: overrides ? 'modified' : 'scheduled',
+        reason: exception?.reason,
+        request
+      };
+    });
+}
+
+/**
+ * Trip requests still to create for a series up to the horizon, continuing after what was already generated
+ */
+export function planSeriesGeneration(
+  series: RecurringTripSeries,
+  horizonDays = DEFAULT_GENERATION_HORIZON_DAYS,
+  operatingHours?: OperatingHours,
+  now = new Date()
+): { requests: TripCreateRequest[]; generatedUntil: Date } {
+  const horizon = endOfDay(addDays(now, horizonDays));
+  const from = series.generatedUntil && isAfter(new Date(series.generatedUntil), now)
+    ? new Date(series.generatedUntil)
+    : now;
+
+  if (!series.isActive || !isAfter(horizon, from)) {
+    return { requests: [], generatedUntil: from };
+  }
+
+  const requests = getSeriesOccurrences(series, from, horizon, operatingHours)
+    .filter(occurrence => occurrence.request && isAfter(occurrence.scheduledAt, from))
+    .map(occurrence => occurrence.request!);
+
+  return { requests, generatedUntil: horizon };
+}
+
+/**
+ * Series id and occurrence date stamped on trips generated from a series
+ */
+export function getTripOccurrence(metadata?: Record<string, any>): { seriesId: string; date: string } | null {
+  if (!metadata?.recurringSeriesId || !metadata.occurrenceDate) return null;
+  return { seriesId: metadata.recurringSeriesId, date: metadata.occurrenceDate };
+}
+
+/**
+ * Human readable summary, e.g. "Every 2 weeks on Mon, Wed at 08:30"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval);
+  const unit = {
+    [RecurrenceFrequency.DAILY]: 'day',
+    [RecurrenceFrequency.WEEKLY]: 'week',
+    [RecurrenceFrequency.MONTHLY]: 'month'
+  }[rule.frequency];
+
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === RecurrenceFrequency.WEEKLY && rule.byWeekday?.length) {
+    const days = WEEKDAYS
+      .filter(day => rule.byWeekday!.includes(day))
+      .map(day => day.charAt(0).toUpperCase() + day.slice(1, 3));
+    text += ` on ${days.join(', ')}`;
+  }
+
+  if (rule.frequency === RecurrenceFrequency.MONTHLY) {
+    text += ` on day ${new Date(rule.startDate).getDate()}`;
+  }
+
+  text += ` at ${rule.pickupTime}`;
+
+  if (rule.until) {
+    text += ` until ${format(new Date(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+
+  return text;
+}
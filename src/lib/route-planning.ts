@@ -0,0 +1,69 @@
+/**
+ * Multi-stop route planning for the Hermes Dispatcher Console
+ * Orders intermediate stops to minimize distance and totals per-leg estimates
+ */
+
+// Exact ordering is only tractable for a handful of stops; trips rarely need more
+export const MAX_WAYPOINTS = 6;
+
+export interface RouteLegEstimate {
+  distance: number; // in the tenant's distance unit
+  duration: number; // minutes
+  estimatedFare: number;
+}
+
+/**
+ * Every ordering of the given items
+ */
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest])
+  );
+}
+
+/**
+ * Total distance of visiting the stops in order, starting at point 0 and ending at the last point
+ */
+export function routeDistance(matrix: number[][], stopOrder: number[]): number {
+  const path = [0, ...stopOrder.map(stop => stop + 1), matrix.length - 1];
+  return path.slice(1).reduce((total, point, index) => total + matrix[path[index]][point], 0);
+}
+
+/**
+ * Order of intermediate stops that minimizes total distance
+ *
+ * The matrix covers the origin (first row), each stop, then the destination (last row).
+ * Returns 0-based stop indices in visiting order.
+ */
+export function solveStopOrder(matrix: number[][]): number[] {
+  const stops = Array.from({ length: Math.max(0, matrix.length - 2) }, (_, index) => index);
+  if (stops.length <= 1) return stops;
+
+  let best = stops;
+  let bestDistance = routeDistance(matrix, stops);
+
+  permutations(stops).forEach(order => {
+    const distance = routeDistance(matrix, order);
+    if (distance < bestDistance) {
+      best = order;
+      bestDistance = distance;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Trip totals across all legs, or null while any leg is still unknown
+ */
+export function sumLegs(legs: (RouteLegEstimate | null)[]): RouteLegEstimate | null {
+  if (legs.length === 0 || legs.some(leg => !leg)) return null;
+
+  return legs.reduce<RouteLegEstimate>((total, leg) => ({
+    distance: total.distance + leg!.distance,
+    duration: total.duration + leg!.duration,
+    estimatedFare: total.estimatedFare + leg!.estimatedFare
+  }), { distance: 0, duration: 0, estimatedFare: 0 });
+}
@@ -0,0 +1,28 @@
+/**
+ * Dynamic route helpers for the Hermes Dispatcher Console
+ * The console is a static export, so each dynamic route is built once as a shell page that the
+ * hosting rewrites serve for every id; the real id is read back from the browser URL
+ */
+
+// Placeholder segment the shell page is exported under, e.g. /trips/_/
+export const STATIC_SHELL_PARAM = '_';
+
+/**
+ * Params for generateStaticParams that export only the shell page
+ */
+export function getShellStaticParams<K extends string>(key: K): Record<K, string>[] {
+  return [{ [key]: STATIC_SHELL_PARAM } as Record<K, string>];
+}
+
+/**
+ * Resolve a dynamic route param, reading the last URL segment when the shell page was served.
+ * Call from an effect: the URL is only available in the browser.
+ */
+export function resolveRouteParam(param: string): string | null {
+  if (param !== STATIC_SHELL_PARAM) return param;
+  if (typeof window === 'undefined') return null;
+
+  const segments = window.location.pathname.split('/').filter(Boolean);
+  const segment = segments.length > 0 ? decodeURIComponent(segments[segments.length - 1]) : null;
+  return segment && segment !== STATIC_SHELL_PARAM ? segment : null;
+}
@@ -0,0 +1,36 @@
+/**
+ * Rider saved places for the Hermes Dispatcher Console
+ * Named, already geocoded addresses that trip booking reuses instead of geocoding again
+ */
+
+import { Location, LocationType } from '@/types';
+import { isValidCoordinates } from '@/lib/map';
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  [LocationType.HOME]: 'Home',
+  [LocationType.WORK]: 'Work',
+  [LocationType.AIRPORT]: 'Airport',
+  [LocationType.HOSPITAL]: 'Hospital',
+  [LocationType.SCHOOL]: 'School',
+  [LocationType.SHOPPING]: 'Shopping',
+  [LocationType.OTHER]: 'Other'
+};
+
+const normalizeAddress = (address: string) => address.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Display name for a saved place, falling back to its type
+ */
+export function getPlaceLabel(place: Location): string {
+  return place.name?.trim() || LOCATION_TYPE_LABELS[place.type || LocationType.OTHER];
+}
+
+/**
+ * Saved place with the same address, ignoring case and spacing, when it has usable coordinates
+ */
+export function findSavedPlace(places: Location[] | undefined, address: string): Location | undefined {
+  const key = normalizeAddress(address);
+  if (!key) return undefined;
+
+  return places?.find(place => normalizeAddress(place.address) === key && isValidCoordinates(place.coordinates));
+}
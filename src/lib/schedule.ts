@@ -0,0 +1,121 @@
+/**
+ * Scheduling helpers for the Hermes Dispatcher Console
+ * Places scheduled trips on a timeline and detects drivers who are double-booked
+ */
+
+import { addMinutes, areIntervalsOverlapping, max, min } from 'date-fns';
+import { Driver, Trip, TripStatus } from '@/types';
+import { MAX_SHIFT_HOURS } from '@/lib/driver-scoring';
+
+// Trips without an estimate still occupy the driver for this long
+const DEFAULT_TRIP_MINUTES = 30;
+
+export interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Trips that are booked for a future time and still expected to run
+ */
+export function isScheduledTrip(trip: Trip): boolean {
+  return !!trip.scheduledAt && ![
+    TripStatus.CANCELLED,
+    TripStatus.NO_SHOW
+  ].includes(trip.status);
+}
+
+/**
+ * Time window a scheduled trip occupies, from scheduled pickup to estimated drop-off
+ */
+export function getTripWindow(trip: Trip): TimeWindow | null {
+  if (!trip.scheduledAt) return null;
+
+  const start = new Date(trip.scheduledAt);
+  return {
+    start,
+    end: addMinutes(start, trip.estimatedDuration || DEFAULT_TRIP_MINUTES)
+  };
+}
+
+/**
+ * Window covered by a driver's current shift, capped at the maximum shift length.
+ * Drivers carry no per-day shift data, so this only describes today.
+ */
+export function getShiftWindow(driver: Driver): TimeWindow | null {
+  if (!driver.shift) return null;
+
+  const start = new Date(driver.shift.startTime);
+  const end = driver.shift.endTime
+    ? new Date(driver.shift.endTime)
+    : addMinutes(start, MAX_SHIFT_HOURS * 60);
+  return { start, end };
+}
+
+/**
+ * Clip a window to a range, or null when they do not overlap
+ */
+export function clipWindow(window: TimeWindow, range: TimeWindow): TimeWindow | null {
+  if (!areIntervalsOverlapping(window, range)) return null;
+  return { start: max([window.start, range.start]), end: min([window.end, range.end]) };
+}
+
+/**
+ * Map each double-booked trip id to the ids of the trips it overlaps for the same driver
+ */
+export function findDriverConflicts(trips: Trip[]): Map<string, string[]> {
+  const conflicts = new Map<string, string[]>();
+  const byDriver = new Map<string, { trip: Trip; window: TimeWindow }[]>();
+
+  trips.filter(isScheduledTrip).forEach(trip => {
+    const window = getTripWindow(trip);
+    if (!trip.driver || !window) return;
+
+    const list = byDriver.get(trip.driver.id) || [];
+    list.push({ trip, window });
+    byDriver.set(trip.driver.id, list);
+  });
+
+  byDriver.forEach(entries => {
+    entries.sort((a, b) => a.window.start.getTime() - b.window.start.getTime());
+
+    for (let i = 0; i < entries.length; i++) {
+      // Sorted by start, so stop once a later trip starts after this one ends
+      for (let j = i + 1; j < entries.length && entries[j].window.start < entries[i].window.end; j++) {
+        const a = entries[i].trip.id;
+        const b = entries[j].trip.id;
+        conflicts.set(a, [...(conflicts.get(a) || []), b]);
+        conflicts.set(b, [...(conflicts.get(b) || []), a]);
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Greedily place overlapping windows side by side, returning each item's lane and the lane count
+ */
+export function assignLanes<T>(items: T[], getWindow: (item: T) => TimeWindow): {
+  lanes: Map<T, number>;
+  laneCount: number;
+} {
+  const lanes = new Map<T, number>();
+  const laneEnds: Date[] = [];
+
+  [...items]
+    .sort((a, b) => getWindow(a).start.getTime() - getWindow(b).start.getTime())
+    .forEach(item => {
+      const window = getWindow(item);
+      let lane = laneEnds.findIndex(end => end <= window.start);
+      if (lane === -1) {
+        lane = laneEnds.length;
+        laneEnds.push(window.end);
+      } else {
+        laneEnds[lane] = window.end;
+      }
+      lanes.set(item, lane);
+    });
+
+  return { lanes, laneCount: Math.max(1, laneEnds.length) };
+}
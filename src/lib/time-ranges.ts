@@ -0,0 +1,226 @@
+/**
+ * Reporting time ranges for the Hermes Dispatcher Console
+ * Preset and calendar ranges for performance views, the chart buckets each range is split into,
+ * and the preceding range used for period-over-period comparison
+ */
+
+import {
+  addDays,
+  addHours,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachHourOfInterval,
+  eachMonthOfInterval,
+  eachWeekOfInterval,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  endOfYear,
+  format,
+  min,
+  startOfDay,
+  startOfHour,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays
+} from 'date-fns';
+import { TimePeriod, TimeRange } from '@/types';
+
+export type TimeRangePreset = 'today' | '7d' | '30d' | '90d';
+
+export const TIME_RANGE_PRESETS: { value: TimeRangePreset; label: string; days: number; period: TimePeriod }[] = [
+  { value: 'today', label: 'Today', days: 1, period: TimePeriod.DAY },
+  { value: '7d', label: 'Last 7 days', days: 7, period: TimePeriod.WEEK },
+  { value: '30d', label: 'Last 30 days', days: 30, period: TimePeriod.MONTH },
+  { value: '90d', label: 'Last 90 days', days: 90, period: TimePeriod.QUARTER }
+];
+
+/**
+ * Time range ending now for a preset, starting at midnight so buckets line up with days
+ */
+export function getTimeRange(preset: TimeRangePreset, now = new Date()): TimeRange {
+  const { days, period } = TIME_RANGE_PRESETS.find(item => item.value === preset)!;
+  return { start: startOfDay(subDays(now, days - 1)), end: now, period };
+}
+
+/**
+ * Move a date by whole periods
+ */
+export function shiftByPeriod(date: Date, period: TimePeriod, amount: number): Date {
+  switch (period) {
+    case TimePeriod.HOUR:
+      return addHours(date, amount);
+    case TimePeriod.DAY:
+      return addDays(date, amount);
+    case TimePeriod.WEEK:
+      return addWeeks(date, amount);
+    case TimePeriod.MONTH:
+      return addMonths(date, amount);
+    case TimePeriod.QUARTER:
+      return addQuarters(date, amount);
+    default:
+      return addYears(date, amount);
+  }
+}
+
+/**
+ * Calendar period containing the anchor date, ending no later than now
+ */
+export function getPeriodRange(period: TimePeriod, anchor: Date, now = new Date()): TimeRange {
+  let start: Date;
+  let end: Date;
+
+  switch (period) {
+    case TimePeriod.HOUR:
+    case TimePeriod.DAY:
+      start = startOfDay(anchor);
+      end = endOfDay(anchor);
+      break;
+    case TimePeriod.WEEK:
+      start = startOfWeek(anchor);
+      end = endOfWeek(anchor);
+      break;
+    case TimePeriod.MONTH:
+      start = startOfMonth(anchor);
+      end = endOfMonth(anchor);
+      break;
+    case TimePeriod.QUARTER:
+      start = startOfQuarter(anchor);
+      end = endOfQuarter(anchor);
+      break;
+    default:
+      start = startOfYear(anchor);
+      end = endOfYear(anchor);
+  }
+
+  return { start, end: min([end, now]), period };
+}
+
+/**
+ * The preceding range covering the same elapsed time, for period-over-period comparison.
+ * Calendar ranges step back one calendar period; rolling ranges such as presets step back by their own length in
+ * whole days, since a calendar month is not 30 days.
+ */
+export function getPreviousRange(range: TimeRange, alignment: 'calendar' | 'rolling' = 'calendar'): TimeRange {
+  const start = alignment === 'calendar'
+    ? shiftByPeriod(range.start, range.period, -1)
+    : addDays(range.start, -(differenceInCalendarDays(range.end, range.start) + 1));
+  const elapsed = range.end.getTime() - range.start.getTime();
+  return { start, end: min([new Date(start.getTime() + elapsed), range.start]), period: range.period };
+}
+
+/**
+ * Chart bucket a date falls in: hours within a day, weeks within a quarter, months within a year,
+ * days otherwise
+ */
+export function getBucketStart(date: Date, period: TimePeriod): Date {
+  switch (period) {
+    case TimePeriod.HOUR:
+    case TimePeriod.DAY:
+      return startOfHour(date);
+    case TimePeriod.QUARTER:
+      return startOfWeek(date);
+    case TimePeriod.YEAR:
+      return startOfMonth(date);
+    default:
+      return startOfDay(date);
+  }
+}
+
+/**
+ * End of the chart bucket starting at the given date
+ */
+export function getBucketEnd(bucketStart: Date, period: TimePeriod): Date {
+  switch (period) {
+    case TimePeriod.HOUR:
+    case TimePeriod.DAY:
+      return addHours(bucketStart, 1);
+    case TimePeriod.QUARTER:
+      return addWeeks(bucketStart, 1);
+    case TimePeriod.YEAR:
+      return addMonths(bucketStart, 1);
+    default:
+      return addDays(bucketStart, 1);
+  }
+}
+
+/**
+ * Start of every chart bucket in the range, oldest first
+ */
+export function getTimeBuckets(range: TimeRange): Date[] {
+  switch (range.period) {
+    case TimePeriod.HOUR:
+    case TimePeriod.DAY:
+      return eachHourOfInterval(range);
+    case TimePeriod.QUARTER:
+      return eachWeekOfInterval(range);
+    case TimePeriod.YEAR:
+      return eachMonthOfInterval(range);
+    default:
+      return eachDayOfInterval(range);
+  }
+}
+
+/**
+ * Axis label for a chart bucket
+ */
+export function formatBucketLabel(date: Date, period: TimePeriod): string {
+  switch (period) {
+    case TimePeriod.HOUR:
+    case TimePeriod.DAY:
+      return format(date, 'ha');
+    case TimePeriod.QUARTER:
+      return `Wk ${format(date, 'MMM d')}`;
+    case TimePeriod.YEAR:
+      return format(date, 'MMM');
+    default:
+      return format(date, 'MMM d');
+  }
+}
+
+export type ComparisonWindow = 'previous_day' | 'last_week' | 'last_month';
+
+export const COMPARISON_WINDOWS: { value: ComparisonWindow; label: string }[] = [
+  { value: 'previous_day', label: 'vs yesterday' },
+  { value: 'last_week', label: 'vs same day last week' },
+  { value: 'last_month', label: 'vs same day last month' }
+];
+
+/**
+ * The same stretch of time as the range, moved back by the comparison window
+ */
+export function getComparisonRange(range: TimeRange, window: ComparisonWindow): TimeRange {
+  const shift = (date: Date) => {
+    switch (window) {
+      case 'last_week':
+        return addWeeks(date, -1);
+      case 'last_month':
+        return addMonths(date, -1);
+      default:
+        return addDays(date, -1);
+    }
+  };
+
+  return { start: shift(range.start), end: shift(range.end), period: range.period };
+}
+
+/**
+ * Split a range into equal consecutive slices, oldest first
+ */
+export function splitRange(range: TimeRange, count: number, period = range.period): TimeRange[] {
+  const startTime = range.start.getTime();
+  const sliceLength = (range.end.getTime() - startTime) / count;
+
+  return Array.from({ length: count }, (_, index) => ({
+    start: new Date(startTime + sliceLength * index),
+    end: new Date(startTime + sliceLength * (index + 1)),
+    period
+  }));
+}
@@ -0,0 +1,81 @@
+/**
+ * Trip status state machine for the Hermes Dispatcher Console
+ * Defines the legal transitions between trip statuses and the timestamps each transition records
+ */
+
+import { Trip, TripStatus } from '@/types';
+
+/**
+ * Legal next statuses for each status. ASSIGNED and EN_ROUTE_TO_PICKUP may fall back to
+ * PENDING when a driver is unassigned; COMPLETED, CANCELLED and NO_SHOW are terminal.
+ */
+export const TRIP_STATUS_TRANSITIONS: Record<TripStatus, TripStatus[]> = {
+  [TripStatus.PENDING]: [TripStatus.ASSIGNED, TripStatus.CANCELLED],
+  [TripStatus.ASSIGNED]: [TripStatus.EN_ROUTE_TO_PICKUP, TripStatus.PENDING, TripStatus.CANCELLED],
+  [TripStatus.EN_ROUTE_TO_PICKUP]: [TripStatus.ARRIVED_AT_PICKUP, TripStatus.PENDING, TripStatus.CANCELLED],
+  [TripStatus.ARRIVED_AT_PICKUP]: [TripStatus.RIDER_ON_BOARD, TripStatus.NO_SHOW, TripStatus.CANCELLED],
+  [TripStatus.RIDER_ON_BOARD]: [TripStatus.EN_ROUTE_TO_DESTINATION, TripStatus.COMPLETED],
+  [TripStatus.EN_ROUTE_TO_DESTINATION]: [TripStatus.COMPLETED],
+  [TripStatus.COMPLETED]: [],
+  [TripStatus.CANCELLED]: [],
+  [TripStatus.NO_SHOW]: []
+};
+
+// Side exits that end a trip early rather than advancing it
+const EXIT_STATUSES = [TripStatus.CANCELLED, TripStatus.NO_SHOW];
+
+export class TripTransitionError extends Error {
+  constructor(public from: TripStatus, public to: TripStatus) {
+    super(`Illegal trip status transition: ${from} → ${to}`);
+    this.name = 'TripTransitionError';
+  }
+}
+
+export function canTransition(from: TripStatus, to: TripStatus): boolean {
+  return from === to || TRIP_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throw a TripTransitionError when the transition is not in the graph
+ */
+export function assertTransition(from: TripStatus, to: TripStatus): void {
+  if (!canTransition(from, to)) {
+    throw new TripTransitionError(from, to);
+  }
+}
+
+export function isTerminalStatus(status: TripStatus): boolean {
+  return TRIP_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Statuses a dispatcher can move a trip forward to, excluding the early exits
+ */
+export function getNextStatuses(status: TripStatus): TripStatus[] {
+  return TRIP_STATUS_TRANSITIONS[status].filter(next =>
+    !EXIT_STATUSES.includes(next) && next !== TripStatus.PENDING
+  );
+}
+
+/**
+ * Timestamp fields recorded when a trip enters the given status
+ */
+export function getStatusTimestamps(status: TripStatus, at = new Date()): Partial<Trip> {
+  switch (status) {
+    case TripStatus.ASSIGNED:
+      return { assignedAt: at };
+    case TripStatus.RIDER_ON_BOARD:
+      return { pickedUpAt: at };
+    case TripStatus.COMPLETED:
+      return { completedAt: at };
+    case TripStatus.CANCELLED:
+    case TripStatus.NO_SHOW:
+      return { cancelledAt: at };
+    default:
+      return {};
+  }
+}
+
+export function formatTripStatus(status: TripStatus): string {
+  return status.replace(/_/g, ' ').toLowerCase();
+}
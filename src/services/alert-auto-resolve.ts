@@ -0,0 +1,105 @@
+/**
+ * Automatic alert resolution for the Hermes Dispatcher Console
+ * Resolves open alerts once the condition that raised them has cleared, e.g. an offline driver reconnecting
+ */
+
+import { Alert, AlertType, DriverStatus, Trip, TripStatus } from '@/types';
+import { api } from '@/services/api';
+import { useAlertStore } from '@/store';
+
+export const AUTO_RESOLVED_BY = 'system';
+
+class AlertAutoResolver {
+  /**
+   * A driver status change clears DRIVER_OFFLINE alerts once the driver is back online
+   */
+  public handleDriverStatus(driverId: string, status?: DriverStatus, isOnline?: boolean): void {
+    // An explicit isOnline: false wins over whatever status came with it
+    if (isOnline === false || status === DriverStatus.OFFLINE) return;
+
+    const backOnline = isOnline === true || status !== undefined;
+    if (!backOnline) return;
+
+    this.resolveWhere(
+      alert => alert.type === AlertType.DRIVER_OFFLINE && alert.driverId === driverId,
+      'Auto-resolved: driver is back online'
+    );
+  }
+
+  /**
+   * A trip update clears NO_DRIVERS_AVAILABLE alerts once a driver is assigned, pickup alerts once the trip
+   * moves past them, and every trip alert once the trip is over
+   */
+  public handleTripUpdate(trip: Partial<Trip> & { id: string }): void {
+    if (trip.status && [TripStatus.COMPLETED, TripStatus.CANCELLED, TripStatus.NO_SHOW].includes(trip.status)) {
+      this.resolveWhere(
+        alert => alert.tripId === trip.id && alert.type !== AlertType.EMERGENCY,
+        `Auto-resolved: trip ${trip.status}`
+      );
+      return;
+    }
+
+    if (trip.driver || (trip.status && trip.status !== TripStatus.PENDING)) {
+      this.resolveWhere(
+        alert => alert.type === AlertType.NO_DRIVERS_AVAILABLE && alert.tripId === trip.id,
+        'Auto-resolved: a driver was assigned'
+      );
+    }
+
+    if (trip.status === TripStatus.ARRIVED_AT_PICKUP) {
+      this.resolveWhere(
+        alert => [AlertType.TRIP_DELAY, AlertType.DRIVER_NO_SHOW].includes(alert.type) && alert.tripId === trip.id,
+        'Auto-resolved: driver arrived at pickup'
+      );
+    }
+
+    if (trip.status === TripStatus.RIDER_ON_BOARD) {
+      this.resolveWhere(
+        alert => [AlertType.TRIP_DELAY, AlertType.DRIVER_NO_SHOW, AlertType.RIDER_NO_SHOW].includes(alert.type) &&
+          alert.tripId === trip.id,
+        'Auto-resolved: rider picked up'
+      );
+    }
+  }
+
+  /**
+   * Resolve every open alert in the store that matches
+   */
+  public async resolveWhere(matches: (alert: Alert) => boolean, resolution: string): Promise<void> {
+    const alertStore = useAlertStore.getState();
+    const targets = alertStore.alerts.filter(alert => !alert.isResolved && matches(alert));
+    if (targets.length === 0) return;
+
+    // Nothing is left for a dispatcher to act on, so the alert no longer counts as unread
+    const updates: Partial<Alert> = {
+      isRead: true,
+      isResolved: true,
+      resolution,
+      resolvedAt: new Date(),
+      resolvedBy: AUTO_RESOLVED_BY
+    };
+    // Resolve locally first so repeated updates don't resolve the same alerts twice
+    targets.forEach(alert => alertStore.updateAlert(alert.id, updates));
+
+    try {
+      const response = await api.alerts.resolveAlerts(targets.map(alert => alert.id), resolution);
+      if (!response.success) {
+        throw new Error(response.error?.message || 'Resolution failed');
+      }
+    } catch (error) {
+      console.error('Failed to auto-resolve alerts:', error);
+      // Put the alerts back so a dispatcher can still see and resolve them
+      targets.forEach(alert => useAlertStore.getState().updateAlert(alert.id, {
+        isRead: alert.isRead,
+        isResolved: false,
+        resolution: undefined,
+        resolvedAt: undefined,
+        resolvedBy: undefined
+      }));
+    }
+  }
+}
+
+export const alertAutoResolver = new AlertAutoResolver();
+
+export default alertAutoResolver;
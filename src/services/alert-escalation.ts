@@ -0,0 +1,214 @@
+/**
+ * Alert escalation for the Hermes Dispatcher Console
+ * Watches unacknowledged alerts against the tenant's escalation policies, re-notifying dispatchers and then
+ * escalating to the policy's roles each time the acknowledgement window runs out
+ */
+
+import {
+  Alert,
+  AlertEscalation,
+  AlertSeverity,
+  AlertType,
+  EscalationPolicy,
+  MessageType,
+  UserRole
+} from '@/types';
+import { api } from '@/services/api';
+import { useAlertStore, useUIStore } from '@/store';
+import {
+  findDuplicateAlert,
+  findEscalationPolicy,
+  getAlertEscalations,
+  isAlertAcknowledged
+} from '@/lib/alerts';
+
+export const DEFAULT_ESCALATION_POLICIES: EscalationPolicy[] = [
+  {
+    id: 'emergency',
+    name: 'Emergencies',
+    alertTypes: [AlertType.EMERGENCY],
+    acknowledgeMinutes: 1,
+    maxEscalations: 5,
+    escalateToRoles: [UserRole.MANAGER, UserRole.ADMIN]
+  },
+  {
+    id: 'critical',
+    name: 'Critical alerts',
+    severities: [AlertSeverity.CRITICAL],
+    acknowledgeMinutes: 3,
+    maxEscalations: 3,
+    escalateToRoles: [UserRole.MANAGER]
+  }
+];
+
+// Wait before retrying an escalation that failed to reach the server
+const RETRY_DELAY_MS = 30000;
+
+class AlertEscalationMonitor {
+  private tenantId = '';
+  private userRole: UserRole | null = null;
+  private policies: EscalationPolicy[] = DEFAULT_ESCALATION_POLICIES;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private escalating: Set<string> = new Set();
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Apply the current tenant's escalation policies and the signed-in user's role
+   */
+  public configure(tenantId: string, policies?: EscalationPolicy[], userRole?: UserRole): void {
+    // Pending timers were scheduled against the previous policies
+    this.reset();
+
+    this.tenantId = tenantId;
+    this.policies = policies ?? DEFAULT_ESCALATION_POLICIES;
+    this.userRole = userRole ?? null;
+
+    if (!this.unsubscribe) {
+      this.unsubscribe = useAlertStore.subscribe(state => state.alerts, alerts => this.sync(alerts));
+    }
+    this.sync(useAlertStore.getState().alerts);
+  }
+
+  public getPolicies(): EscalationPolicy[] {
+    return this.policies;
+  }
+
+  /**
+   * Policy that applies to an alert, if any
+   */
+  public getPolicy(alert: Alert): EscalationPolicy | undefined {
+    return findEscalationPolicy(alert, this.policies);
+  }
+
+  /**
+   * Cancel every pending escalation, e.g. on tenant switch
+   */
+  public reset(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Schedule the next step for unacknowledged alerts and drop timers for everything else
+   */
+  private sync(alerts: Alert[]): void {
+    const pending = new Set<string>();
+
+    alerts.forEach(alert => {
+      const policy = this.getPolicy(alert);
+      if (!policy || isAlertAcknowledged(alert) || getAlertEscalations(alert).length >= policy.maxEscalations) {
+        return;
+      }
+
+      // Repeats ride on the escalation of the first occurrence
+      const original = findDuplicateAlert(alert, alerts);
+      if (original && new Date(original.createdAt).getTime() < new Date(alert.createdAt).getTime()) return;
+
+      pending.add(alert.id);
+      if (!this.timers.has(alert.id) && !this.escalating.has(alert.id)) {
+        this.schedule(alert, policy);
+      }
+    });
+
+    this.timers.forEach((timer, alertId) => {
+      if (!pending.has(alertId)) {
+        clearTimeout(timer);
+        this.timers.delete(alertId);
+      }
+    });
+  }
+
+  private schedule(alert: Alert, policy: EscalationPolicy): void {
+    const escalations = getAlertEscalations(alert);
+    const lastStep = escalations[escalations.length - 1];
+    const since = new Date(lastStep ? lastStep.at : alert.createdAt).getTime();
+    const delay = Math.max(0, since + policy.acknowledgeMinutes * 60000 - Date.now());
+
+    this.timers.set(alert.id, setTimeout(() => {
+      this.timers.delete(alert.id);
+      this.escalate(alert.id, policy);
+    }, delay));
+  }
+
+  private async escalate(alertId: string, policy: EscalationPolicy): Promise<void> {
+    const alertStore = useAlertStore.getState();
+    this.escalating.add(alertId);
+
+    try {
+      // Re-read the alert: another dispatcher may have acknowledged it or another console escalated it
+      const response = await api.alerts.getAlertById(alertId);
+      const alert = response.success && response.data
+        ? response.data
+        : alertStore.alerts.find(item => item.id === alertId);
+      if (!alert) return;
+
+      const escalations = getAlertEscalations(alert);
+      const lastStep = escalations[escalations.length - 1];
+      const stepDue = !lastStep || Date.now() - new Date(lastStep.at).getTime() >= policy.acknowledgeMinutes * 60000;
+
+      if (isAlertAcknowledged(alert) || escalations.length >= policy.maxEscalations || !stepDue) {
+        // Sync only what escalation depends on; read state stays with the dispatcher's own updates
+        useAlertStore.getState().updateAlert(alertId, {
+          isResolved: alert.isResolved,
+          acknowledgedAt: alert.acknowledgedAt,
+          acknowledgedBy: alert.acknowledgedBy,
+          assignedTo: alert.assignedTo,
+          assignedToName: alert.assignedToName,
+          metadata: alert.metadata
+        });
+        return;
+      }
+
+      const level = escalations.length + 1;
+      const escalation: AlertEscalation = {
+        level,
+        action: level === 1 ? 'renotified' : 'escalated',
+        notifiedRoles: level === 1 ? [UserRole.DISPATCHER] : policy.escalateToRoles,
+        policyId: policy.id,
+        at: new Date()
+      };
+
+      const result = await api.alerts.escalateAlert(alertId, escalation);
+      if (!result.success) {
+        throw new Error(result.error?.message || 'Escalation failed');
+      }
+
+      useAlertStore.getState().updateAlert(alertId, {
+        metadata: result.data?.metadata ?? { ...alert.metadata, escalations: [...escalations, escalation] }
+      });
+      this.notify(alert, escalation);
+    } catch (error) {
+      console.error('Failed to escalate alert:', error);
+      this.timers.set(alertId, setTimeout(() => {
+        this.timers.delete(alertId);
+        this.sync(useAlertStore.getState().alerts);
+      }, RETRY_DELAY_MS));
+    } finally {
+      this.escalating.delete(alertId);
+      this.sync(useAlertStore.getState().alerts);
+    }
+  }
+
+  private notify(alert: Alert, escalation: AlertEscalation): void {
+    const minutes = Math.max(1, Math.round((Date.now() - new Date(alert.createdAt).getTime()) / 60000));
+    const escalatedToMe = escalation.action === 'escalated' &&
+      !!this.userRole && escalation.notifiedRoles.includes(this.userRole);
+
+    useUIStore.getState().addNotification({
+      type: 'error',
+      title: escalation.action === 'renotified'
+        ? 'Alert Still Unacknowledged'
+        : escalatedToMe ? 'Alert Escalated to You' : 'Alert Escalated',
+      message: escalation.action === 'renotified'
+        ? `${alert.title} has not been acknowledged for ${minutes} min`
+        : `${alert.title} unacknowledged for ${minutes} min; escalated to ${escalation.notifiedRoles.join(', ')}`,
+      duration: 0, // stays until dismissed
+      messageType: MessageType.ALERT_UPDATED,
+      severity: alert.severity
+    });
+  }
+}
+
+export const alertEscalationMonitor = new AlertEscalationMonitor();
+
+export default alertEscalationMonitor;
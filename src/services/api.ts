@@ -8,6 +8,8 @@ import {
   Driver,
   Rider,
   Alert,
+  AlertEscalation,
+  AlertFilters,
   DashboardMetrics,
   TripCreateRequest,
   DriverAssignmentRequest,
@@ -19,7 +21,12 @@ import {
   PerformanceMetrics,
   AuditLog,
   Tenant,
-  TripStatus
+  TripStatus,
+  RecurringTripSeries,
+  Shift,
+  TripAnalytics,
+  DriverAnalytics,
+  RevenueAnalytics
 } from '@/types';
 
 // API Configuration
@@ -176,6 +183,10 @@ export const tripService = {
     return httpClient.post<Trip>('/trips', tripData);
   },
 
+  async createTrips(tripsData: TripCreateRequest[]) {
+    return httpClient.post<Trip[]>('/trips/bulk', { trips: tripsData });
+  },
+
   async updateTrip(tripId: string, updates: Partial<Trip>) {
     return httpClient.patch<Trip>(`/trips/${tripId}`, updates);
   },
@@ -207,6 +218,33 @@ export const tripService = {
   }
 };
 
+// Recurring Trip API Service
+export const recurringTripService = {
+  async getSeries() {
+    return httpClient.get<RecurringTripSeries[]>('/trips/recurring');
+  },
+
+  async getSeriesById(seriesId: string) {
+    return httpClient.get<RecurringTripSeries>(`/trips/recurring/${seriesId}`);
+  },
+
+  async createSeries(seriesData: Omit<RecurringTripSeries, 'id' | 'tenantId' | 'createdAt' | 'updatedAt'>) {
+    return httpClient.post<RecurringTripSeries>('/trips/recurring', seriesData);
+  },
+
+  async updateSeries(seriesId: string, updates: Partial<RecurringTripSeries>) {
+    return httpClient.patch<RecurringTripSeries>(`/trips/recurring/${seriesId}`, updates);
+  },
+
+  async deleteSeries(seriesId: string) {
+    return httpClient.delete<void>(`/trips/recurring/${seriesId}`);
+  },
+
+  async getSeriesTrips(seriesId: string) {
+    return httpClient.get<Trip[]>(`/trips/recurring/${seriesId}/trips`);
+  }
+};
+
 // Driver API Service
 export const driverService = {
   async getDrivers(filters?: DriverFilters, pagination?: { page: number; limit: number }) {
@@ -240,12 +278,23 @@ export const driverService = {
     return httpClient.get<{ location: { latitude: number; longitude: number }; timestamp: string }>(`/drivers/${driverId}/location`);
   },
 
-  async getDriverTrips(driverId: string, timeRange?: TimeRange) {
+  async getDriverTrips(driverId: string, timeRange?: TimeRange, pagination?: { page: number; limit: number }) {
+    const params = timeRange ? {
+      startDate: timeRange.start.toISOString(),
+      endDate: timeRange.end.toISOString()
+    } : {};
+    return httpClient.get<{
+      trips: Trip[];
+      pagination: PaginationInfo;
+    }>(`/drivers/${driverId}/trips`, { ...params, ...pagination });
+  },
+
+  async getDriverShifts(driverId: string, timeRange?: TimeRange) {
     const params = timeRange ? {
       startDate: timeRange.start.toISOString(),
       endDate: timeRange.end.toISOString()
     } : {};
-    return httpClient.get<Trip[]>(`/drivers/${driverId}/trips`, params);
+    return httpClient.get<Shift[]>(`/drivers/${driverId}/shifts`, params);
   },
 
   async getDriverPerformance(driverId: string, timeRange: TimeRange) {
@@ -266,6 +315,13 @@ export const driverService = {
 
 // Rider API Service
 export const riderService = {
+  async getRiders(pagination?: { page: number; limit: number }, search?: string) {
+    return httpClient.get<{
+      riders: Rider[];
+      pagination: PaginationInfo;
+    }>('/riders', { ...pagination, search });
+  },
+
   async searchRiders(query: string) {
     return httpClient.get<Rider[]>('/riders/search', { q: query });
   },
@@ -293,11 +349,11 @@ export const riderService = {
 
 // Alert API Service
 export const alertService = {
-  async getAlerts(pagination?: { page: number; limit: number }) {
+  async getAlerts(pagination?: { page: number; limit: number }, filters?: AlertFilters) {
     return httpClient.get<{
       alerts: Alert[];
       pagination: PaginationInfo;
-    }>('/alerts', pagination);
+    }>('/alerts', { ...filters, ...pagination });
   },
 
   async getAlertById(alertId: string) {
@@ -316,6 +372,26 @@ export const alertService = {
     return httpClient.patch<Alert>(`/alerts/${alertId}/resolve`, { resolution });
   },
 
+  async acknowledgeAlert(alertId: string) {
+    return httpClient.patch<Alert>(`/alerts/${alertId}/acknowledge`);
+  },
+
+  async escalateAlert(alertId: string, escalation: AlertEscalation) {
+    return httpClient.post<Alert>(`/alerts/${alertId}/escalate`, escalation);
+  },
+
+  async assignAlert(alertId: string, userId: string | null) {
+    return httpClient.patch<Alert>(`/alerts/${alertId}/assign`, { userId });
+  },
+
+  async markAlertsAsRead(alertIds: string[]) {
+    return httpClient.patch<Alert[]>('/alerts/bulk', { alertIds, isRead: true });
+  },
+
+  async resolveAlerts(alertIds: string[], resolution?: string) {
+    return httpClient.patch<Alert[]>('/alerts/bulk/resolve', { alertIds, resolution });
+  },
+
   async createAlert(alertData: Omit<Alert, 'id' | 'createdAt'>) {
     return httpClient.post<Alert>('/alerts', alertData);
   }
@@ -332,40 +408,26 @@ export const analyticsService = {
   },
 
   async getTripAnalytics(timeRange: TimeRange) {
-    return httpClient.get<{
-      completionRate: number;
-      cancellationRate: number;
-      averageWaitTime: number;
-      averageRating: number;
-      tripsByStatus: Array<{ status: string; count: number }>;
-      tripsByHour: Array<{ hour: number; count: number }>;
-    }>('/analytics/trips', {
+    return httpClient.get<TripAnalytics>('/analytics/trips', {
       startDate: timeRange.start.toISOString(),
-      endDate: timeRange.end.toISOString()
+      endDate: timeRange.end.toISOString(),
+      period: timeRange.period
     });
   },
 
   async getDriverAnalytics(timeRange: TimeRange) {
-    return httpClient.get<{
-      totalDrivers: number;
-      activeDrivers: number;
-      averageUtilization: number;
-      topPerformers: Array<{ driverId: string; name: string; rating: number; trips: number }>;
-    }>('/analytics/drivers', {
+    return httpClient.get<DriverAnalytics>('/analytics/drivers', {
       startDate: timeRange.start.toISOString(),
-      endDate: timeRange.end.toISOString()
+      endDate: timeRange.end.toISOString(),
+      period: timeRange.period
     });
   },
 
   async getRevenueAnalytics(timeRange: TimeRange) {
-    return httpClient.get<{
-      totalRevenue: number;
-      averageFare: number;
-      revenueByDay: Array<{ date: string; revenue: number }>;
-      revenueByServiceType: Array<{ serviceType: string; revenue: number }>;
-    }>('/analytics/revenue', {
+    return httpClient.get<RevenueAnalytics>('/analytics/revenue', {
       startDate: timeRange.start.toISOString(),
-      endDate: timeRange.end.toISOString()
+      endDate: timeRange.end.toISOString(),
+      period: timeRange.period
     });
   }
 };
@@ -399,6 +461,7 @@ export const auditService = {
     userId?: string;
     action?: string;
     resourceType?: string;
+    resourceId?: string;
     startDate?: Date;
     endDate?: Date;
   }) {
@@ -517,6 +580,7 @@ export const uploadService = {
 // Export all services
 export const api = {
   trips: tripService,
+  recurring: recurringTripService,
   drivers: driverService,
   riders: riderService,
   alerts: alertService,
@@ -0,0 +1,369 @@
+/**
+ * Auto-dispatch queue for the Hermes Dispatcher Console
+ * Proposes the best driver for new trip requests, assigns after a veto countdown and escalates when nobody is available
+ */
+
+import {
+  Alert,
+  AlertSeverity,
+  AlertType,
+  AutoDispatchEntry,
+  AutoDispatchEvent,
+  AutoDispatchSettings,
+  AutoDispatchStatus,
+  DriverStatus,
+  Trip,
+  TripStatus
+} from '@/types';
+import { api } from '@/services/api';
+import { useAlertStore, useAutoDispatchStore, useDriverStore, useTripStore, useUIStore } from '@/store';
+import { rankDrivers } from '@/lib/driver-scoring';
+import { generateUUID } from '@/lib/utils';
+
+export const DEFAULT_AUTO_DISPATCH_SETTINGS: AutoDispatchSettings = {
+  vetoSeconds: 15,
+  maxRetries: 3,
+  retryIntervalSeconds: 30,
+  minScore: 40
+};
+
+const ACTIVE_STATUSES = [
+  AutoDispatchStatus.SEARCHING,
+  AutoDispatchStatus.PROPOSED,
+  AutoDispatchStatus.ASSIGNING,
+  AutoDispatchStatus.WAITING_RETRY
+];
+
+class AutoDispatcher {
+  private tenantId = '';
+  private settings: AutoDispatchSettings = DEFAULT_AUTO_DISPATCH_SETTINGS;
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Apply the current tenant's auto-dispatch switch and tuning
+   */
+  public configure(tenantId: string, enabled: boolean, settings?: Partial<AutoDispatchSettings>): void {
+    const store = useAutoDispatchStore.getState();
+    const wasEnabled = store.enabled;
+
+    if (tenantId !== this.tenantId || (wasEnabled && !enabled)) {
+      this.cancelAll(enabled ? 'Tenant changed' : 'Auto-dispatch was turned off');
+    }
+
+    this.tenantId = tenantId;
+    this.settings = { ...DEFAULT_AUTO_DISPATCH_SETTINGS, ...settings };
+    store.setEnabled(enabled);
+  }
+
+  public getSettings(): AutoDispatchSettings {
+    return this.settings;
+  }
+
+  /**
+   * Queue a newly requested trip for automatic assignment
+   */
+  public enqueue(trip: Trip): void {
+    const store = useAutoDispatchStore.getState();
+    if (!store.enabled || trip.status !== TripStatus.PENDING || trip.driver) return;
+    if (store.entries.some(entry => entry.tripId === trip.id && ACTIVE_STATUSES.includes(entry.status))) return;
+
+    const now = new Date();
+    store.upsertEntry({
+      tripId: trip.id,
+      trip,
+      status: AutoDispatchStatus.SEARCHING,
+      attempts: 0,
+      vetoes: 0,
+      excludedDriverIds: [],
+      reason: 'Looking for the best available driver',
+      enqueuedAt: now,
+      updatedAt: now
+    });
+    this.log(trip.id, 'info', `Queued trip ${this.label(trip)} for auto-dispatch`);
+
+    this.attempt(trip.id);
+  }
+
+  /**
+   * Reject the proposed driver and search again without them
+   */
+  public veto(tripId: string): void {
+    const entry = this.getEntry(tripId);
+    if (!entry || entry.status !== AutoDispatchStatus.PROPOSED || !entry.candidate) return;
+
+    this.clearTimer(tripId);
+    this.log(tripId, 'warning', `Dispatcher vetoed ${entry.candidate.driverName}`);
+    useAutoDispatchStore.getState().updateEntry(tripId, {
+      excludedDriverIds: [...entry.excludedDriverIds, entry.candidate.driverId],
+      vetoes: entry.vetoes + 1,
+      candidate: undefined,
+      countdownEndsAt: undefined
+    });
+
+    // A veto is not a failed search, so the next search does not use up a retry
+    this.attempt(tripId);
+  }
+
+  /**
+   * Skip the remaining countdown and assign the proposed driver now
+   */
+  public confirm(tripId: string): void {
+    const entry = this.getEntry(tripId);
+    if (!entry || entry.status !== AutoDispatchStatus.PROPOSED) return;
+
+    this.clearTimer(tripId);
+    this.assign(tripId);
+  }
+
+  /**
+   * Take a trip out of the queue so the dispatcher can handle it manually
+   */
+  public release(tripId: string): void {
+    const entry = this.getEntry(tripId);
+    if (!entry || !ACTIVE_STATUSES.includes(entry.status)) return;
+
+    this.clearTimer(tripId);
+    this.finish(tripId, AutoDispatchStatus.CANCELLED, 'Taken over by dispatcher');
+  }
+
+  private attempt(tripId: string): void {
+    const entry = this.getEntry(tripId);
+    if (!entry || !this.isStillPending(tripId)) return;
+
+    const trip = this.getTrip(tripId) || entry.trip;
+    const { trips } = useTripStore.getState();
+
+    // Drivers already proposed for other queued trips are held back to avoid double booking
+    const reservedDriverIds = useAutoDispatchStore.getState().entries
+      .filter(e => e.tripId !== tripId && e.candidate &&
+        [AutoDispatchStatus.PROPOSED, AutoDispatchStatus.ASSIGNING].includes(e.status))
+      .map(e => e.candidate!.driverId);
+
+    const candidates = useDriverStore.getState().drivers.filter(driver =>
+      driver.isOnline &&
+      driver.status === DriverStatus.AVAILABLE &&
+      !entry.excludedDriverIds.includes(driver.id) &&
+      !reservedDriverIds.includes(driver.id)
+    );
+
+    const ranked = rankDrivers(candidates, {
+      pickup: trip.pickup.coordinates,
+      serviceType: trip.serviceType,
+      rider: trip.rider,
+      tripDurationMinutes: trip.estimatedDuration,
+      activeTrips: trips
+    });
+    const best = ranked.find(rec => rec.isCompatible && rec.score >= this.settings.minScore);
+
+    if (best) {
+      const driverName = `${best.driver.firstName} ${best.driver.lastName}`;
+      const eta = best.etaMinutes !== null ? `, ETA ${Math.round(best.etaMinutes)} min` : '';
+      const reason = `${driverName} scored ${best.score} (best of ${ranked.length} available${eta})`;
+
+      useAutoDispatchStore.getState().updateEntry(tripId, {
+        status: AutoDispatchStatus.PROPOSED,
+        candidate: {
+          driverId: best.driver.id,
+          driverName,
+          score: best.score,
+          etaMinutes: best.etaMinutes
+        },
+        reason,
+        countdownEndsAt: new Date(Date.now() + this.settings.vetoSeconds * 1000),
+        nextRetryAt: undefined
+      });
+      this.log(tripId, 'info', `Proposed ${reason}`);
+      this.setTimer(tripId, () => this.assign(tripId), this.settings.vetoSeconds * 1000);
+      return;
+    }
+
+    // Only searches that come up empty count toward the retry limit
+    const attempts = entry.attempts + 1;
+    const vetoNote = entry.vetoes > 0
+      ? ` after ${entry.vetoes} proposed driver${entry.vetoes === 1 ? ' was' : 's were'} vetoed`
+      : '';
+    const reason = candidates.length === 0
+      ? `No available drivers online${vetoNote}`
+      : `No compatible driver scored ${this.settings.minScore} or more (${candidates.length} checked)${vetoNote}`;
+
+    if (attempts >= this.settings.maxRetries) {
+      useAutoDispatchStore.getState().updateEntry(tripId, { attempts });
+      this.escalate(tripId, reason);
+      return;
+    }
+
+    useAutoDispatchStore.getState().updateEntry(tripId, {
+      status: AutoDispatchStatus.WAITING_RETRY,
+      attempts,
+      candidate: undefined,
+      countdownEndsAt: undefined,
+      reason: `${reason}, retrying (${attempts}/${this.settings.maxRetries})`,
+      nextRetryAt: new Date(Date.now() + this.settings.retryIntervalSeconds * 1000)
+    });
+    this.log(tripId, 'warning', `${reason}; attempt ${attempts} of ${this.settings.maxRetries}`);
+    this.setTimer(tripId, () => this.attempt(tripId), this.settings.retryIntervalSeconds * 1000);
+  }
+
+  private async assign(tripId: string): Promise<void> {
+    this.timers.delete(tripId);
+    const entry = this.getEntry(tripId);
+    if (!entry?.candidate || !this.isStillPending(tripId)) return;
+
+    const { candidate } = entry;
+    useAutoDispatchStore.getState().updateEntry(tripId, {
+      status: AutoDispatchStatus.ASSIGNING,
+      countdownEndsAt: undefined,
+      reason: `Assigning ${candidate.driverName}`
+    });
+
+    try {
+      const response = await api.trips.assignDriver(tripId, {
+        tripId,
+        driverId: candidate.driverId,
+        notes: `Auto-dispatched (score ${candidate.score})`
+      });
+
+      if (response.success && response.data) {
+        useTripStore.getState().updateTrip(tripId, response.data);
+        this.finish(tripId, AutoDispatchStatus.ASSIGNED, `Assigned to ${candidate.driverName}`);
+        return;
+      }
+
+      this.log(tripId, 'error', `Assignment to ${candidate.driverName} failed: ${response.error?.message || 'unknown error'}`);
+    } catch (error) {
+      console.error('Auto-dispatch assignment failed:', error);
+      this.log(tripId, 'error', `Assignment to ${candidate.driverName} failed`);
+    }
+
+    // The driver may have been taken in the meantime; try the next best
+    useAutoDispatchStore.getState().updateEntry(tripId, {
+      excludedDriverIds: [...entry.excludedDriverIds, candidate.driverId],
+      candidate: undefined
+    });
+    this.attempt(tripId);
+  }
+
+  private async escalate(tripId: string, reason: string): Promise<void> {
+    const entry = this.getEntry(tripId);
+    if (!entry) return;
+
+    const trip = this.getTrip(tripId) || entry.trip;
+    this.finish(
+      tripId,
+      AutoDispatchStatus.ESCALATED,
+      `${reason}; ${this.settings.maxRetries} searches found no driver, escalated to dispatchers`
+    );
+
+    const alertData: Omit<Alert, 'id' | 'createdAt'> = {
+      tenantId: this.tenantId || trip.tenantId,
+      type: AlertType.NO_DRIVERS_AVAILABLE,
+      severity: AlertSeverity.HIGH,
+      title: 'No Drivers Available',
+      message: `Auto-dispatch could not assign trip ${this.label(trip)}: ${reason.toLowerCase()}`,
+      tripId,
+      riderId: trip.rider.id,
+      isRead: false,
+      isResolved: false,
+      actionRequired: true,
+      metadata: {
+        source: 'auto_dispatch',
+        attempts: this.settings.maxRetries,
+        vetoes: entry.vetoes,
+        excludedDriverIds: entry.excludedDriverIds
+      }
+    };
+
+    try {
+      const response = await api.alerts.createAlert(alertData);
+      if (response.success && response.data) {
+        const alertStore = useAlertStore.getState();
+        if (!alertStore.alerts.some(alert => alert.id === response.data!.id)) {
+          alertStore.addAlert(response.data);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to create no-drivers alert:', error);
+    }
+
+    useUIStore.getState().addNotification({
+      type: 'warning',
+      title: 'Manual Dispatch Needed',
+      message: `No driver found for trip ${this.label(trip)}`,
+      duration: 8000
+    });
+  }
+
+  private finish(tripId: string, status: AutoDispatchStatus, reason: string): void {
+    useAutoDispatchStore.getState().updateEntry(tripId, {
+      status,
+      reason,
+      countdownEndsAt: undefined,
+      nextRetryAt: undefined
+    });
+    this.log(
+      tripId,
+      status === AutoDispatchStatus.ESCALATED ? 'error' : 'info',
+      reason
+    );
+  }
+
+  /**
+   * Trips assigned, cancelled or otherwise handled elsewhere leave the queue
+   */
+  private isStillPending(tripId: string): boolean {
+    const trip = this.getTrip(tripId);
+    if (!trip || (trip.status === TripStatus.PENDING && !trip.driver)) return true;
+
+    this.clearTimer(tripId);
+    this.finish(tripId, AutoDispatchStatus.CANCELLED, `Trip is now ${trip.status.replace(/_/g, ' ')}, no longer auto-dispatching`);
+    return false;
+  }
+
+  private cancelAll(reason: string): void {
+    useAutoDispatchStore.getState().entries
+      .filter(entry => ACTIVE_STATUSES.includes(entry.status))
+      .forEach(entry => {
+        this.clearTimer(entry.tripId);
+        this.finish(entry.tripId, AutoDispatchStatus.CANCELLED, reason);
+      });
+  }
+
+  private getEntry(tripId: string): AutoDispatchEntry | undefined {
+    return useAutoDispatchStore.getState().entries.find(entry => entry.tripId === tripId);
+  }
+
+  private getTrip(tripId: string): Trip | undefined {
+    return useTripStore.getState().trips.find(trip => trip.id === tripId);
+  }
+
+  private setTimer(tripId: string, callback: () => void, delay: number): void {
+    this.clearTimer(tripId);
+    this.timers.set(tripId, setTimeout(callback, delay));
+  }
+
+  private clearTimer(tripId: string): void {
+    const timer = this.timers.get(tripId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(tripId);
+    }
+  }
+
+  private log(tripId: string, level: AutoDispatchEvent['level'], message: string): void {
+    useAutoDispatchStore.getState().logEvent({
+      id: generateUUID(),
+      tripId,
+      level,
+      message,
+      timestamp: new Date()
+    });
+  }
+
+  private label(trip: Trip): string {
+    return `#${trip.id.slice(-6).toUpperCase()}`;
+  }
+}
+
+export const autoDispatcher = new AutoDispatcher();
+
+export default autoDispatcher;
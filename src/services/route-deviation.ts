@@ -0,0 +1,192 @@
+/**
+ * Client-side route deviation monitoring for the Hermes Dispatcher Console
+ * Compares live driver positions against the planned route of their active trip and raises ROUTE_DEVIATION alerts
+ */
+
+import {
+  Alert,
+  AlertSeverity,
+  AlertType,
+  Coordinates,
+  RouteDeviationSettings,
+  Trip,
+  TripStatus
+} from '@/types';
+import { api } from '@/services/api';
+import { useAlertStore, useTripStore } from '@/store';
+import { distanceToPolylineMeters } from '@/lib/geo';
+import { isValidCoordinates } from '@/lib/map';
+
+export const DEFAULT_ROUTE_DEVIATION_SETTINGS: RouteDeviationSettings = {
+  enabled: true,
+  corridorMeters: 150,
+  dwellSeconds: 60
+};
+
+// Deviations this many corridor widths off route are escalated to HIGH severity
+const HIGH_SEVERITY_MULTIPLIER = 3;
+
+// Trip phases that follow the planned pickup → destination route
+const MONITORED_STATUSES = [
+  TripStatus.RIDER_ON_BOARD,
+  TripStatus.EN_ROUTE_TO_DESTINATION
+];
+
+interface DeviationState {
+  tripId: string;
+  breachStartedAt: number | null;
+  maxDistance: number;
+  alerted: boolean;
+}
+
+class RouteDeviationMonitor {
+  private tenantId = '';
+  private settings: RouteDeviationSettings = DEFAULT_ROUTE_DEVIATION_SETTINGS;
+  private plannedRoutes: Map<string, Promise<Coordinates[]>> = new Map();
+  private driverStates: Map<string, DeviationState> = new Map();
+
+  /**
+   * Apply the current tenant's deviation settings
+   */
+  public configure(tenantId: string, settings?: Partial<RouteDeviationSettings>): void {
+    if (tenantId !== this.tenantId) {
+      this.reset();
+    }
+
+    this.tenantId = tenantId;
+    this.settings = { ...DEFAULT_ROUTE_DEVIATION_SETTINGS, ...settings };
+  }
+
+  public getSettings(): RouteDeviationSettings {
+    return this.settings;
+  }
+
+  /**
+   * Evaluate a driver location update against the driver's active trip
+   */
+  public async handleLocationUpdate(driverId: string, location: Coordinates, timestamp = new Date()): Promise<void> {
+    if (!this.settings.enabled || !isValidCoordinates(location)) return;
+
+    const trip = this.findActiveTrip(driverId);
+    if (!trip) {
+      this.driverStates.delete(driverId);
+      return;
+    }
+
+    let state = this.driverStates.get(driverId);
+    if (!state || state.tripId !== trip.id) {
+      state = { tripId: trip.id, breachStartedAt: null, maxDistance: 0, alerted: false };
+      this.driverStates.set(driverId, state);
+    }
+
+    const plannedRoute = await this.getPlannedRoute(trip);
+    if (plannedRoute.length < 2) return;
+
+    const distance = distanceToPolylineMeters(location, plannedRoute);
+
+    // Back inside the corridor clears the breach so a later deviation alerts again
+    if (distance <= this.settings.corridorMeters) {
+      state.breachStartedAt = null;
+      state.maxDistance = 0;
+      state.alerted = false;
+      return;
+    }
+
+    // Message timestamps arrive as serialized strings and may be missing
+    const now = Number.isNaN(timestamp.getTime()) ? Date.now() : timestamp.getTime();
+    state.breachStartedAt = state.breachStartedAt ?? now;
+    state.maxDistance = Math.max(state.maxDistance, distance);
+
+    const dwellMs = now - state.breachStartedAt;
+    if (!state.alerted && dwellMs >= this.settings.dwellSeconds * 1000) {
+      state.alerted = true;
+      await this.raiseAlert(trip, driverId, location, state.maxDistance, dwellMs);
+    }
+  }
+
+  /**
+   * Drop cached routes and breach tracking, e.g. on tenant switch
+   */
+  public reset(): void {
+    this.plannedRoutes.clear();
+    this.driverStates.clear();
+  }
+
+  private findActiveTrip(driverId: string): Trip | undefined {
+    return useTripStore.getState().trips.find(trip =>
+      trip.driver?.id === driverId && MONITORED_STATUSES.includes(trip.status)
+    );
+  }
+
+  private getPlannedRoute(trip: Trip): Promise<Coordinates[]> {
+    const cached = this.plannedRoutes.get(trip.id);
+    if (cached) return cached;
+
+    const request = api.geo.calculateRoute(
+      trip.pickup.coordinates,
+      trip.destination.coordinates,
+      trip.waypoints?.map(waypoint => waypoint.coordinates)
+    )
+      .then(response => (response.success && response.data ? response.data.route : []))
+      .catch(error => {
+        console.error('Failed to load planned route for deviation check:', error);
+        // Allow a retry on the next location update
+        this.plannedRoutes.delete(trip.id);
+        return [];
+      });
+
+    this.plannedRoutes.set(trip.id, request);
+    return request;
+  }
+
+  private async raiseAlert(
+    trip: Trip,
+    driverId: string,
+    location: Coordinates,
+    distance: number,
+    dwellMs: number
+  ): Promise<void> {
+    const severity = distance >= this.settings.corridorMeters * HIGH_SEVERITY_MULTIPLIER
+      ? AlertSeverity.HIGH
+      : AlertSeverity.MEDIUM;
+
+    const driverName = trip.driver ? `${trip.driver.firstName} ${trip.driver.lastName}` : 'Driver';
+    const alertData: Omit<Alert, 'id' | 'createdAt'> = {
+      tenantId: this.tenantId || trip.tenantId,
+      type: AlertType.ROUTE_DEVIATION,
+      severity,
+      title: 'Route Deviation',
+      message: `${driverName} is ${Math.round(distance)}m off the planned route for trip #${trip.id.slice(-6).toUpperCase()}`,
+      tripId: trip.id,
+      driverId,
+      riderId: trip.rider.id,
+      isRead: false,
+      isResolved: false,
+      actionRequired: true,
+      metadata: {
+        source: 'client_route_monitor',
+        distanceMeters: Math.round(distance),
+        corridorMeters: this.settings.corridorMeters,
+        dwellSeconds: Math.round(dwellMs / 1000),
+        location
+      }
+    };
+
+    try {
+      const response = await api.alerts.createAlert(alertData);
+      if (response.success && response.data) {
+        const alertStore = useAlertStore.getState();
+        // The server may already have broadcast this alert over the websocket
+        if (!alertStore.alerts.some(alert => alert.id === response.data!.id)) {
+          alertStore.addAlert(response.data);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to create route deviation alert:', error);
+    }
+  }
+}
+
+export const routeDeviationMonitor = new RouteDeviationMonitor();
+
+export default routeDeviationMonitor;
@@ -0,0 +1,329 @@
+/**
+ * Client-side trip delay monitoring for the Hermes Dispatcher Console
+ * Watches active trips against driver ETAs and raises TRIP_DELAY, DRIVER_NO_SHOW and RIDER_NO_SHOW alerts
+ */
+
+import {
+  Alert,
+  AlertSeverity,
+  AlertType,
+  Coordinates,
+  Trip,
+  TripDelaySettings,
+  TripStatus
+} from '@/types';
+import { api } from '@/services/api';
+import { useAlertStore, useDriverStore, useTripStore } from '@/store';
+import { distanceMeters } from '@/lib/geo';
+import { isValidCoordinates } from '@/lib/map';
+
+export const DEFAULT_TRIP_DELAY_SETTINGS: TripDelaySettings = {
+  enabled: true,
+  delayThresholdMinutes: 10,
+  driverNoShowMinutes: 10,
+  driverProgressMeters: 200,
+  riderWaitMinutes: 5,
+  checkIntervalSeconds: 30
+};
+
+// How long a driver → pickup ETA is reused before asking for a fresh one
+const ETA_REFRESH_MS = 60000;
+
+// Scheduled trips further out than this are not watched yet
+const SCHEDULED_LOOKAHEAD_MS = 60 * 60000;
+
+// Slack before a scheduled pickup's ETA at which the driver is expected to set off
+const DEPARTURE_LEAD_MS = 5 * 60000;
+
+// Delays this many thresholds long are raised at HIGH severity
+const HIGH_SEVERITY_MULTIPLIER = 2;
+
+// Trip phases where the driver is still heading to the pickup
+const PICKUP_STATUSES = [TripStatus.ASSIGNED, TripStatus.EN_ROUTE_TO_PICKUP];
+
+interface TripWatch {
+  status: TripStatus;
+  statusSince: number;
+  startDistance: number | null;
+  startDistanceAt: number;
+  closestDistance: number | null;
+  travelMs: number | null;
+  targetPickupAt: number | null;
+  projectedPickupAt: number | null;
+  etaFetchedAt: number;
+  etaPending: boolean;
+  alerted: Set<AlertType>;
+}
+
+const toTime = (value?: Date | string) => (value ? new Date(value).getTime() : NaN);
+
+class TripDelayMonitor {
+  private tenantId = '';
+  private settings: TripDelaySettings = DEFAULT_TRIP_DELAY_SETTINGS;
+  private watches: Map<string, TripWatch> = new Map();
+  private interval: NodeJS.Timeout | null = null;
+
+  /**
+   * Apply the current tenant's delay settings and start or stop the periodic check
+   */
+  public configure(tenantId: string, settings?: Partial<TripDelaySettings>): void {
+    if (tenantId !== this.tenantId) {
+      this.reset();
+    }
+
+    this.tenantId = tenantId;
+    this.settings = { ...DEFAULT_TRIP_DELAY_SETTINGS, ...settings };
+
+    this.stop();
+    if (this.settings.enabled) {
+      this.interval = setInterval(() => this.check(), this.settings.checkIntervalSeconds * 1000);
+    }
+  }
+
+  /**
+   * Stop the periodic check, e.g. when the console layout unmounts
+   */
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  public getSettings(): TripDelaySettings {
+    return this.settings;
+  }
+
+  /**
+   * Drop per-trip tracking, e.g. on tenant switch
+   */
+  public reset(): void {
+    this.watches.clear();
+  }
+
+  /**
+   * Evaluate every active trip once
+   */
+  public check(now = Date.now()): void {
+    if (!this.settings.enabled) return;
+
+    const active = new Set<string>();
+    useTripStore.getState().trips.forEach(trip => {
+      if (!PICKUP_STATUSES.includes(trip.status) && trip.status !== TripStatus.ARRIVED_AT_PICKUP) return;
+
+      active.add(trip.id);
+      const watch = this.getWatch(trip, now);
+
+      if (trip.status === TripStatus.ARRIVED_AT_PICKUP) {
+        this.checkRiderWait(trip, watch, now);
+      } else {
+        this.checkPickupProgress(trip, watch, now);
+      }
+    });
+
+    // Trips that reached the rider, ended or left the store no longer need watching
+    Array.from(this.watches.keys()).forEach(tripId => {
+      if (!active.has(tripId)) this.watches.delete(tripId);
+    });
+  }
+
+  private getWatch(trip: Trip, now: number): TripWatch {
+    let watch = this.watches.get(trip.id);
+    if (!watch) {
+      watch = {
+        status: trip.status,
+        statusSince: now,
+        startDistance: null,
+        startDistanceAt: 0,
+        closestDistance: null,
+        travelMs: null,
+        // Scheduled trips have a promised pickup; on-demand trips are held to their first ETA
+        targetPickupAt: trip.scheduledAt ? toTime(trip.scheduledAt) : null,
+        projectedPickupAt: null,
+        etaFetchedAt: 0,
+        etaPending: false,
+        alerted: new Set()
+      };
+      this.watches.set(trip.id, watch);
+    } else if (watch.status !== trip.status) {
+      watch.status = trip.status;
+      watch.statusSince = now;
+    }
+    return watch;
+  }
+
+  private checkPickupProgress(trip: Trip, watch: TripWatch, now: number): void {
+    const location = this.getDriverLocation(trip);
+    if (!location) return;
+
+    const scheduledAt = toTime(trip.scheduledAt);
+    const isScheduled = !Number.isNaN(scheduledAt);
+    if (isScheduled && scheduledAt - now > SCHEDULED_LOOKAHEAD_MS) return;
+
+    if (now - watch.etaFetchedAt >= ETA_REFRESH_MS && !watch.etaPending) {
+      this.refreshEta(trip, watch, location);
+    }
+
+    // A scheduled trip's driver has no reason to move until it is time to set off for the pickup
+    const departBy = isScheduled && watch.travelMs !== null
+      ? scheduledAt - watch.travelMs - DEPARTURE_LEAD_MS
+      : null;
+    const expectMovement = !isScheduled || (departBy !== null && now >= departBy);
+
+    if (!expectMovement) {
+      watch.startDistance = null;
+      watch.closestDistance = null;
+    } else {
+      const distance = distanceMeters(location, trip.pickup.coordinates);
+      if (watch.startDistance === null) {
+        watch.startDistance = distance;
+        watch.startDistanceAt = now;
+      }
+      watch.closestDistance = Math.min(watch.closestDistance ?? distance, distance);
+
+      // Progress can only be judged from the first distance this console measured, which may be well after
+      // assignment if the page was loaded later
+      const assignedAt = toTime(trip.assignedAt);
+      const waitingSince = Number.isNaN(assignedAt)
+        ? watch.startDistanceAt
+        : Math.max(assignedAt, watch.startDistanceAt);
+      const progress = watch.startDistance - watch.closestDistance;
+      if (
+        !watch.alerted.has(AlertType.DRIVER_NO_SHOW) &&
+        progress < this.settings.driverProgressMeters &&
+        now - waitingSince >= this.settings.driverNoShowMinutes * 60000
+      ) {
+        watch.alerted.add(AlertType.DRIVER_NO_SHOW);
+        const minutes = Math.round((now - waitingSince) / 60000);
+        this.raiseAlert(trip, AlertType.DRIVER_NO_SHOW, AlertSeverity.HIGH, 'Driver Not Moving',
+          `${this.getDriverName(trip)} has not moved toward the pickup for trip #${this.shortId(trip)} in ${minutes} min`, {
+            minutesWithoutProgress: minutes,
+            distanceMeters: Math.round(distance),
+            location
+          });
+      }
+    }
+
+    if (watch.projectedPickupAt === null || watch.targetPickupAt === null) return;
+
+    const delayMinutes = (watch.projectedPickupAt - watch.targetPickupAt) / 60000;
+    if (!watch.alerted.has(AlertType.TRIP_DELAY) && delayMinutes >= this.settings.delayThresholdMinutes) {
+      watch.alerted.add(AlertType.TRIP_DELAY);
+      const severity = delayMinutes >= this.settings.delayThresholdMinutes * HIGH_SEVERITY_MULTIPLIER
+        ? AlertSeverity.HIGH
+        : AlertSeverity.MEDIUM;
+      this.raiseAlert(trip, AlertType.TRIP_DELAY, severity, 'Pickup Delayed',
+        `Pickup for trip #${this.shortId(trip)} is projected ${Math.round(delayMinutes)} min late`, {
+          delayMinutes: Math.round(delayMinutes),
+          projectedPickupAt: new Date(watch.projectedPickupAt),
+          targetPickupAt: new Date(watch.targetPickupAt)
+        });
+    }
+  }
+
+  private checkRiderWait(trip: Trip, watch: TripWatch, now: number): void {
+    if (watch.alerted.has(AlertType.RIDER_NO_SHOW)) return;
+
+    // The wait starts at arrival, or at the scheduled time when the driver arrives early
+    const reportedArrival = toTime(trip.metadata?.arrivedAtPickupAt);
+    const arrivedAt = Number.isNaN(reportedArrival) ? watch.statusSince : reportedArrival;
+    const scheduledAt = toTime(trip.scheduledAt);
+    const waitingSince = Number.isNaN(scheduledAt) ? arrivedAt : Math.max(arrivedAt, scheduledAt);
+
+    const waitMinutes = (now - waitingSince) / 60000;
+    if (waitMinutes < this.settings.riderWaitMinutes) return;
+
+    watch.alerted.add(AlertType.RIDER_NO_SHOW);
+    const riderName = `${trip.rider.firstName} ${trip.rider.lastName}`;
+    this.raiseAlert(trip, AlertType.RIDER_NO_SHOW, AlertSeverity.MEDIUM, 'Rider Not at Pickup',
+      `${this.getDriverName(trip)} has waited ${Math.round(waitMinutes)} min for ${riderName} on trip #${this.shortId(trip)}`, {
+        waitMinutes: Math.round(waitMinutes)
+      });
+  }
+
+  private async refreshEta(trip: Trip, watch: TripWatch, location: Coordinates): Promise<void> {
+    watch.etaPending = true;
+
+    try {
+      const response = await api.geo.calculateRoute(location, trip.pickup.coordinates);
+      if (response.success && response.data) {
+        const fetchedAt = Date.now();
+        watch.travelMs = response.data.duration * 60000;
+        watch.projectedPickupAt = fetchedAt + watch.travelMs;
+        watch.targetPickupAt = watch.targetPickupAt ?? watch.projectedPickupAt;
+        watch.etaFetchedAt = fetchedAt;
+      }
+    } catch (error) {
+      console.error('Failed to calculate pickup ETA for delay check:', error);
+    } finally {
+      watch.etaPending = false;
+    }
+  }
+
+  private getDriverLocation(trip: Trip): Coordinates | undefined {
+    if (!trip.driver) return undefined;
+
+    // Live positions land in the driver store; the trip's copy of the driver may be stale
+    const driver = useDriverStore.getState().drivers.find(item => item.id === trip.driver!.id) ?? trip.driver;
+    const coordinates = driver.currentLocation?.coordinates;
+    return coordinates && isValidCoordinates(coordinates) ? coordinates : undefined;
+  }
+
+  private getDriverName(trip: Trip): string {
+    return trip.driver ? `${trip.driver.firstName} ${trip.driver.lastName}` : 'Driver';
+  }
+
+  private shortId(trip: Trip): string {
+    return trip.id.slice(-6).toUpperCase();
+  }
+
+  private async raiseAlert(
+    trip: Trip,
+    type: AlertType,
+    severity: AlertSeverity,
+    title: string,
+    message: string,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    const alertStore = useAlertStore.getState();
+    // Another console may already have raised it
+    if (alertStore.alerts.some(alert => !alert.isResolved && alert.type === type && alert.tripId === trip.id)) {
+      return;
+    }
+
+    const alertData: Omit<Alert, 'id' | 'createdAt'> = {
+      tenantId: this.tenantId || trip.tenantId,
+      type,
+      severity,
+      title,
+      message,
+      tripId: trip.id,
+      driverId: trip.driver?.id,
+      riderId: trip.rider.id,
+      isRead: false,
+      isResolved: false,
+      actionRequired: true,
+      metadata: {
+        source: 'client_trip_delay_monitor',
+        ...metadata
+      }
+    };
+
+    try {
+      const response = await api.alerts.createAlert(alertData);
+      if (response.success && response.data) {
+        const alerts = useAlertStore.getState().alerts;
+        // The server may already have broadcast this alert over the websocket
+        if (!alerts.some(alert => alert.id === response.data!.id)) {
+          useAlertStore.getState().addAlert(response.data);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to create trip delay alert:', error);
+    }
+  }
+}
+
+export const tripDelayMonitor = new TripDelayMonitor();
+
+export default tripDelayMonitor;
@@ -9,6 +9,10 @@ import {
   Trip,
   Driver,
   Alert,
+  AlertMuteRule,
+  MessageType,
+  NotificationPreferences,
+  AlertType,
   DashboardMetrics,
   UIState,
   Notification,
@@ -17,8 +21,18 @@ import {
   SortOptions,
   Coordinates,
   WebSocketMessage,
-  AuditLog
+  AuditLog,
+  AutoDispatchEntry,
+  AutoDispatchEvent,
+  AutoDispatchStatus
 } from '@/types';
+import { routeDeviationMonitor } from '@/services/route-deviation';
+import { autoDispatcher } from '@/services/auto-dispatch';
+import { alertEscalationMonitor } from '@/services/alert-escalation';
+import { alertAutoResolver } from '@/services/alert-auto-resolve';
+import { findDuplicateAlert, getActiveMuteRule } from '@/lib/alerts';
+import { DEFAULT_NOTIFICATION_PREFERENCES, deliverNotification } from '@/lib/notifications';
+import { canTransition, getStatusTimestamps } from '@/lib/trip-status';
 
 // Trip Store
 interface TripState {
@@ -30,10 +44,16 @@ interface TripState {
   lastUpdated: Date | null;
 }
 
+interface TripUpdateOptions {
+  // Server-originated updates are applied even when out of order, but flagged
+  authoritative?: boolean;
+}
+
 interface TripActions {
   setTrips: (trips: Trip[]) => void;
+  mergeTrips: (trips: Trip[]) => void;
   addTrip: (trip: Trip) => void;
-  updateTrip: (tripId: string, updates: Partial<Trip>) => void;
+  updateTrip: (tripId: string, updates: Partial<Trip>, options?: TripUpdateOptions) => boolean;
   removeTrip: (tripId: string) => void;
   selectTrip: (trip: Trip | null) => void;
   setFilters: (filters: Partial<TripFilters>) => void;
@@ -63,6 +83,19 @@ export const useTripStore = create<TripState & TripActions>()(
           });
         },
 
+        // Upsert by id, keeping trips other screens loaded outside this result
+        mergeTrips: (trips) => {
+          set((state) => {
+            const fetched = new Map(trips.map(trip => [trip.id, trip]));
+            const currentIds = new Set(state.trips.map(trip => trip.id));
+            state.trips = [
+              ...state.trips.map(trip => fetched.get(trip.id) ?? trip),
+              ...trips.filter(trip => !currentIds.has(trip.id))
+            ];
+            state.lastUpdated = new Date();
+          });
+        },
+
         addTrip: (trip) => {
           set((state) => {
             state.trips.unshift(trip);
@@ -70,19 +103,54 @@ export const useTripStore = create<TripState & TripActions>()(
           });
         },
 
-        updateTrip: (tripId, updates) => {
+        updateTrip: (tripId, updates, options = {}) => {
+          const current = get().trips.find(t => t.id === tripId);
+          let changes = updates;
+
+          // Enforce the status state machine and record transition timestamps
+          if (current && updates.status && updates.status !== current.status) {
+            const from = current.status;
+            const to = updates.status;
+
+            if (!canTransition(from, to)) {
+              if (!options.authoritative) {
+                console.warn(`Rejected illegal trip status transition for ${tripId}: ${from} → ${to}`);
+                return false;
+              }
+
+              console.warn(`Out-of-order trip status transition for ${tripId}: ${from} → ${to}`);
+              changes = {
+                ...changes,
+                metadata: {
+                  ...current.metadata,
+                  ...updates.metadata,
+                  statusTransitionWarning: { from, to, at: new Date().toISOString() }
+                }
+              };
+            }
+
+            const timestamps = getStatusTimestamps(to);
+            (Object.keys(timestamps) as (keyof Trip)[]).forEach(field => {
+              if (changes[field] === undefined) {
+                changes = { ...changes, [field]: timestamps[field] };
+              }
+            });
+          }
+
           set((state) => {
             const index = state.trips.findIndex(t => t.id === tripId);
             if (index !== -1) {
-              state.trips[index] = { ...state.trips[index], ...updates };
+              state.trips[index] = { ...state.trips[index], ...changes };
               state.lastUpdated = new Date();
 
               // Update selected trip if it's the one being updated
               if (state.selectedTrip?.id === tripId) {
-                state.selectedTrip = { ...state.selectedTrip, ...updates };
+                state.selectedTrip = { ...state.selectedTrip, ...changes };
               }
             }
           });
+
+          return true;
         },
 
         removeTrip: (tripId) => {
@@ -271,6 +339,7 @@ interface AlertState {
   unreadCount: number;
   selectedAlert: Alert | null;
   isLoading: boolean;
+  muteRules: AlertMuteRule[];
 }
 
 interface AlertActions {
@@ -283,8 +352,31 @@ interface AlertActions {
   selectAlert: (alert: Alert | null) => void;
   setLoading: (isLoading: boolean) => void;
   clearAlerts: () => void;
+  muteAlertType: (type: AlertType, until?: Date) => void;
+  unmuteAlertType: (type: AlertType) => void;
 }
 
+// Mute rules are a per-browser preference, kept across reloads
+const MUTE_RULES_STORAGE_KEY = 'alertMuteRules';
+
+const loadMuteRules = (): AlertMuteRule[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const rules: AlertMuteRule[] = JSON.parse(localStorage.getItem(MUTE_RULES_STORAGE_KEY) || '[]');
+    // Drop snoozes that ran out while the console was closed
+    return rules.filter(rule => !rule.until || new Date(rule.until).getTime() > Date.now());
+  } catch {
+    return [];
+  }
+};
+
+const saveMuteRules = (rules: AlertMuteRule[]) => {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(MUTE_RULES_STORAGE_KEY, JSON.stringify(rules));
+  }
+};
+
 export const useAlertStore = create<AlertState & AlertActions>()(
   devtools(
     subscribeWithSelector(
@@ -294,6 +386,7 @@ export const useAlertStore = create<AlertState & AlertActions>()(
         unreadCount: 0,
         selectedAlert: null,
         isLoading: false,
+        muteRules: loadMuteRules(),
 
         // Actions
         setAlerts: (alerts) => {
@@ -319,8 +412,8 @@ export const useAlertStore = create<AlertState & AlertActions>()(
               const oldAlert = state.alerts[index];
               state.alerts[index] = { ...oldAlert, ...updates };
 
-              // Update unread count
-              if (oldAlert.isRead !== updates.isRead) {
+              // Update unread count; partial updates without isRead leave it alone
+              if (updates.isRead !== undefined && updates.isRead !== oldAlert.isRead) {
                 if (updates.isRead) {
                   state.unreadCount = Math.max(0, state.unreadCount - 1);
                 } else {
@@ -382,6 +475,23 @@ export const useAlertStore = create<AlertState & AlertActions>()(
             state.unreadCount = 0;
             state.selectedAlert = null;
           });
+        },
+
+        muteAlertType: (type, until) => {
+          set((state) => {
+            state.muteRules = [
+              ...state.muteRules.filter(rule => rule.type !== type),
+              { type, until, createdAt: new Date() }
+            ];
+          });
+          saveMuteRules(get().muteRules);
+        },
+
+        unmuteAlertType: (type) => {
+          set((state) => {
+            state.muteRules = state.muteRules.filter(rule => rule.type !== type);
+          });
+          saveMuteRules(get().muteRules);
         }
       }))
     ),
@@ -459,17 +569,49 @@ export const useMetricsStore = create<MetricsState & MetricsActions>()(
   )
 );
 
+// Notification preferences belong to the signed-in user, kept per browser
+const NOTIFICATION_PREFERENCES_STORAGE_KEY = 'notificationPreferences';
+
+let notificationPreferencesUserId: string | null = null;
+
+const loadNotificationPreferences = (userId: string): NotificationPreferences => {
+  if (typeof window === 'undefined') return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  try {
+    const stored = localStorage.getItem(`${NOTIFICATION_PREFERENCES_STORAGE_KEY}:${userId}`);
+    if (!stored) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+    const preferences = JSON.parse(stored) as Partial<NotificationPreferences>;
+    return {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      ...preferences,
+      quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...preferences.quietHours }
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+};
+
+const saveNotificationPreferences = (userId: string, preferences: NotificationPreferences) => {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(`${NOTIFICATION_PREFERENCES_STORAGE_KEY}:${userId}`, JSON.stringify(preferences));
+  }
+};
+
 // UI State Store
 interface UIStateStore extends UIState {
   toggleSidebar: () => void;
   setActiveTab: (tab: string) => void;
   setSelectedTrip: (tripId: string | undefined) => void;
   setSelectedDriver: (driverId: string | undefined) => void;
+  setDraggedTrip: (tripId: string | undefined) => void;
   setMapCenter: (center: Coordinates) => void;
   setMapZoom: (zoom: number) => void;
   addNotification: (notification: Omit<Notification, 'id' | 'createdAt'>) => void;
   removeNotification: (id: string) => void;
   clearNotifications: () => void;
+  loadNotificationPreferences: (userId: string) => void;
+  setNotificationPreferences: (updates: Partial<NotificationPreferences>) => void;
 }
 
 export const useUIStore = create<UIStateStore>()(
@@ -480,9 +622,11 @@ export const useUIStore = create<UIStateStore>()(
       activeTab: 'dashboard',
       selectedTrip: undefined,
       selectedDriver: undefined,
+      draggedTripId: undefined,
       mapCenter: { latitude: 37.7749, longitude: -122.4194 }, // San Francisco default
       mapZoom: 12,
       notifications: [],
+      notificationPreferences: DEFAULT_NOTIFICATION_PREFERENCES,
 
       // Actions
       toggleSidebar: () => {
@@ -509,6 +653,12 @@ export const useUIStore = create<UIStateStore>()(
         });
       },
 
+      setDraggedTrip: (tripId) => {
+        set((state) => {
+          state.draggedTripId = tripId;
+        });
+      },
+
       setMapCenter: (center) => {
         set((state) => {
           state.mapCenter = center;
@@ -522,12 +672,13 @@ export const useUIStore = create<UIStateStore>()(
       },
 
       addNotification: (notification) => {
+        const newNotification: Notification = {
+          ...notification,
+          id: Date.now().toString(),
+          createdAt: new Date()
+        };
+
         set((state) => {
-          const newNotification: Notification = {
-            ...notification,
-            id: Date.now().toString(),
-            createdAt: new Date()
-          };
           state.notifications.push(newNotification);
 
           // Auto-remove after duration
@@ -537,6 +688,9 @@ export const useUIStore = create<UIStateStore>()(
             }, notification.duration);
           }
         });
+
+        // Sound and desktop notifications for real-time events the user opted into
+        deliverNotification(newNotification, get().notificationPreferences);
       },
 
       removeNotification: (id) => {
@@ -549,6 +703,22 @@ export const useUIStore = create<UIStateStore>()(
         set((state) => {
           state.notifications = [];
         });
+      },
+
+      loadNotificationPreferences: (userId) => {
+        notificationPreferencesUserId = userId;
+        set((state) => {
+          state.notificationPreferences = loadNotificationPreferences(userId);
+        });
+      },
+
+      setNotificationPreferences: (updates) => {
+        set((state) => {
+          state.notificationPreferences = { ...state.notificationPreferences, ...updates };
+        });
+        if (notificationPreferencesUserId) {
+          saveNotificationPreferences(notificationPreferencesUserId, get().notificationPreferences);
+        }
       }
     })),
     { name: 'ui-store' }
@@ -610,7 +780,8 @@ export const useWebSocketStore = create<WebSocketState & WebSocketActions>()(
 
         switch (type) {
           case 'trip_update':
-            useTripStore.getState().updateTrip(payload.id, payload);
+            useTripStore.getState().updateTrip(payload.id, payload, { authoritative: true });
+            alertAutoResolver.handleTripUpdate(payload);
             break;
 
           case 'driver_location_update':
@@ -618,6 +789,11 @@ export const useWebSocketStore = create<WebSocketState & WebSocketActions>()(
               currentLocation: payload.location,
               lastActive: new Date()
             });
+            routeDeviationMonitor.handleLocationUpdate(
+              payload.driverId,
+              payload.location?.coordinates,
+              new Date(message.timestamp)
+            );
             break;
 
           case 'driver_status_update':
@@ -625,27 +801,45 @@ export const useWebSocketStore = create<WebSocketState & WebSocketActions>()(
               status: payload.status,
               availability: payload.availability
             });
+            alertAutoResolver.handleDriverStatus(payload.driverId, payload.status, payload.isOnline);
             break;
 
           case 'new_trip_request':
             useTripStore.getState().addTrip(payload);
+            autoDispatcher.enqueue(payload);
             useUIStore.getState().addNotification({
               type: 'info',
               title: 'New Trip Request',
               message: `Trip ${payload.id} has been requested`,
-              duration: 5000
+              duration: 5000,
+              messageType: MessageType.NEW_TRIP_REQUEST
             });
             break;
 
-          case 'alert_created':
-            useAlertStore.getState().addAlert(payload);
+          case 'alert_created': {
+            const alertStore = useAlertStore.getState();
+            // Repeats of an open alert and muted types are listed but don't pop up again
+            const isRepeat = !!findDuplicateAlert(payload, alertStore.alerts);
+            const isMuted = !!getActiveMuteRule(payload.type, alertStore.muteRules);
+
+            alertStore.addAlert(payload);
+            if (isRepeat || isMuted) break;
+
             useUIStore.getState().addNotification({
               type: payload.severity === 'critical' ? 'error' : 'warning',
               title: 'New Alert',
               message: payload.title,
-              duration: 10000
+              // Alerts covered by an escalation policy stay on screen until dismissed
+              duration: alertEscalationMonitor.getPolicy(payload) ? 0 : 10000,
+              messageType: MessageType.ALERT_CREATED,
+              severity: payload.severity
             });
             break;
+          }
+
+          case 'alert_updated':
+            useAlertStore.getState().updateAlert(payload.id, payload);
+            break;
 
           case 'metrics_update':
             useMetricsStore.getState().setMetrics(payload);
@@ -660,6 +854,89 @@ export const useWebSocketStore = create<WebSocketState & WebSocketActions>()(
   )
 );
 
+// Auto-Dispatch Store
+interface AutoDispatchState {
+  enabled: boolean;
+  entries: AutoDispatchEntry[];
+  events: AutoDispatchEvent[];
+}
+
+interface AutoDispatchActions {
+  setEnabled: (enabled: boolean) => void;
+  upsertEntry: (entry: AutoDispatchEntry) => void;
+  updateEntry: (tripId: string, updates: Partial<AutoDispatchEntry>) => void;
+  removeEntry: (tripId: string) => void;
+  logEvent: (event: AutoDispatchEvent) => void;
+  clearFinished: () => void;
+}
+
+const MAX_AUTO_DISPATCH_EVENTS = 100;
+const FINISHED_AUTO_DISPATCH_STATUSES = [
+  AutoDispatchStatus.ASSIGNED,
+  AutoDispatchStatus.ESCALATED,
+  AutoDispatchStatus.CANCELLED
+];
+
+export const useAutoDispatchStore = create<AutoDispatchState & AutoDispatchActions>()(
+  devtools(
+    immer((set) => ({
+      // Initial state
+      enabled: false,
+      entries: [],
+      events: [],
+
+      // Actions
+      setEnabled: (enabled) => {
+        set((state) => {
+          state.enabled = enabled;
+        });
+      },
+
+      upsertEntry: (entry) => {
+        set((state) => {
+          const index = state.entries.findIndex(e => e.tripId === entry.tripId);
+          if (index !== -1) {
+            state.entries[index] = entry;
+          } else {
+            state.entries.unshift(entry);
+          }
+        });
+      },
+
+      updateEntry: (tripId, updates) => {
+        set((state) => {
+          const index = state.entries.findIndex(e => e.tripId === tripId);
+          if (index !== -1) {
+            state.entries[index] = { ...state.entries[index], ...updates, updatedAt: new Date() };
+          }
+        });
+      },
+
+      removeEntry: (tripId) => {
+        set((state) => {
+          state.entries = state.entries.filter(e => e.tripId !== tripId);
+        });
+      },
+
+      logEvent: (event) => {
+        set((state) => {
+          state.events.unshift(event);
+          if (state.events.length > MAX_AUTO_DISPATCH_EVENTS) {
+            state.events = state.events.slice(0, MAX_AUTO_DISPATCH_EVENTS);
+          }
+        });
+      },
+
+      clearFinished: () => {
+        set((state) => {
+          state.entries = state.entries.filter(e => !FINISHED_AUTO_DISPATCH_STATUSES.includes(e.status));
+        });
+      }
+    })),
+    { name: 'auto-dispatch-store' }
+  )
+);
+
 // Audit Log Store
 interface AuditState {
   logs: AuditLog[];
@@ -60,6 +60,72 @@ export interface TenantSettings {
   enableTips: boolean;
   currency: string;
   distanceUnit: 'miles' | 'kilometers';
+  routeDeviation?: RouteDeviationSettings;
+  tripDelay?: TripDelaySettings;
+  autoDispatchSettings?: AutoDispatchSettings;
+  pooling?: PoolingSettings;
+  rateCards?: Partial<Record<ServiceType, RateCard>>;
+  promoCodes?: PromoCode[];
+  escalationPolicies?: EscalationPolicy[];
+}
+
+export interface RouteDeviationSettings {
+  enabled: boolean;
+  corridorMeters: number; // allowed distance either side of the planned route
+  dwellSeconds: number; // time outside the corridor before alerting
+}
+
+export interface TripDelaySettings {
+  enabled: boolean;
+  delayThresholdMinutes: number; // projected pickup slip before raising TRIP_DELAY
+  driverNoShowMinutes: number; // time an assigned driver may make no progress toward pickup
+  driverProgressMeters: number; // movement toward pickup that counts as progress
+  riderWaitMinutes: number; // wait at pickup before raising RIDER_NO_SHOW
+  checkIntervalSeconds: number;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  alertTypes?: AlertType[]; // empty matches every type
+  severities?: AlertSeverity[]; // empty matches every severity
+  acknowledgeMinutes: number; // time allowed before each escalation step
+  maxEscalations: number; // steps before the policy stops; the first re-notifies, later ones escalate
+  escalateToRoles: UserRole[];
+}
+
+export interface AutoDispatchSettings {
+  vetoSeconds: number; // countdown before a proposed assignment is sent
+  maxRetries: number; // driver searches before escalating
+  retryIntervalSeconds: number;
+  minScore: number; // lowest recommendation score accepted without a dispatcher
+}
+
+export interface PoolingSettings {
+  pickupRadiusMeters: number; // how far apart pooled pickups may be
+  dropoffRadiusMeters: number; // how far apart pooled drop-offs may be
+  maxDetourMinutes: number; // extra ride time any one rider will accept
+  maxPickupGapMinutes: number; // spread of requested pickup times within a run
+  maxTripsPerRun: number;
+}
+
+export interface RateCard {
+  baseFare: number;
+  perDistance: number; // per mile or kilometer, following distanceUnit
+  perMinute: number;
+  minimumFare: number;
+  wheelchairSurcharge: number;
+  afterHoursSurcharge: number; // outside operating hours or on holidays
+}
+
+export interface PromoCode {
+  code: string;
+  type: 'percent' | 'fixed';
+  value: number; // percent off, or a fixed amount in the tenant currency
+  maxDiscount?: number; // cap for percent promos
+  serviceTypes?: ServiceType[]; // all service types when omitted
+  expiresAt?: Date;
+  isActive: boolean;
 }
 
 export interface OperatingHours {
@@ -70,6 +136,7 @@ export interface OperatingHours {
   friday: DaySchedule;
   saturday: DaySchedule;
   sunday: DaySchedule;
+  holidays?: string[]; // yyyy-MM-dd dates the service is closed
 }
 
 export interface DaySchedule {
@@ -104,6 +171,7 @@ export interface Trip {
   rating?: Rating;
   route?: RoutePoint[];
   waypoints?: Location[];
+  passengerCount?: number; // riders travelling together on this booking, defaults to 1
   paymentMethod: PaymentMethod;
   promoCode?: string;
   discount?: number;
@@ -237,11 +305,13 @@ export interface Rider {
   email?: string;
   phone: string;
   defaultPaymentMethod?: PaymentMethod;
+  paymentMethods?: PaymentMethod[];
   rating?: number;
   totalTrips: number;
   isVip: boolean;
   accessibilityNeeds?: AccessibilityNeed[];
   emergencyContact?: EmergencyContact;
+  savedPlaces?: Location[]; // named, already geocoded addresses the rider travels to often
   notes?: string;
   createdAt: Date;
 }
@@ -375,10 +445,30 @@ export interface Alert {
   createdAt: Date;
   resolvedAt?: Date;
   resolvedBy?: string;
+  resolution?: string; // dispatcher's resolution notes
+  assignedTo?: string; // user id of the dispatcher who claimed the alert
+  assignedToName?: string;
+  assignedAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
   actionRequired: boolean;
   metadata: Record<string, any>;
 }
 
+export interface AlertMuteRule {
+  type: AlertType;
+  until?: Date; // snoozed until this time; without it the type stays muted until unmuted
+  createdAt: Date;
+}
+
+export interface AlertEscalation {
+  level: number; // 1 for the first missed acknowledgement
+  action: 'renotified' | 'escalated';
+  notifiedRoles: UserRole[];
+  policyId: string;
+  at: Date;
+}
+
 export enum AlertType {
   TRIP_DELAY = 'trip_delay',
   DRIVER_OFFLINE = 'driver_offline',
@@ -455,6 +545,32 @@ export interface PerformanceMetrics {
   fuelEfficiency?: number;
 }
 
+export interface TripAnalytics {
+  completionRate: number;
+  cancellationRate: number;
+  averageWaitTime: number;
+  averageRating: number;
+  tripsByStatus: Array<{ status: string; count: number }>;
+  tripsByHour: Array<{ hour: number; count: number }>;
+  tripVolume: ChartDataPoint[]; // trips requested per bucket of the requested period
+}
+
+export interface DriverAnalytics {
+  totalDrivers: number;
+  activeDrivers: number;
+  averageUtilization: number;
+  topPerformers: Array<{ driverId: string; name: string; rating: number; trips: number }>;
+  activeDriversOverTime: ChartDataPoint[];
+}
+
+export interface RevenueAnalytics {
+  totalRevenue: number;
+  averageFare: number;
+  revenueByDay: Array<{ date: string; revenue: number }>;
+  revenueByServiceType: Array<{ serviceType: string; revenue: number }>;
+  revenueOverTime: ChartDataPoint[];
+}
+
 // Audit and Logging types
 export interface AuditLog {
   id: string;
@@ -499,11 +615,92 @@ export enum MessageType {
   DRIVER_STATUS_UPDATE = 'driver_status_update',
   NEW_TRIP_REQUEST = 'new_trip_request',
   ALERT_CREATED = 'alert_created',
+  ALERT_UPDATED = 'alert_updated',
   METRICS_UPDATE = 'metrics_update',
   USER_JOINED = 'user_joined',
   USER_LEFT = 'user_left'
 }
 
+// Recurring trip types
+export type Weekday = Exclude<keyof OperatingHours, 'holidays'>;
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly'
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days, weeks or months
+  byWeekday?: Weekday[]; // weekly rules only
+  startDate: Date;
+  until?: Date;
+  count?: number;
+  pickupTime: string; // HH:mm format
+}
+
+export interface RecurrenceException {
+  date: string; // yyyy-MM-dd occurrence date
+  type: 'skip' | 'modify';
+  reason?: string;
+  overrides?: Partial<Omit<TripCreateRequest, 'metadata'>>;
+}
+
+export interface RecurringTripSeries {
+  id: string;
+  tenantId: string;
+  name: string;
+  template: Omit<TripCreateRequest, 'scheduledAt' | 'metadata'>;
+  recurrence: RecurrenceRule;
+  exceptions: RecurrenceException[];
+  isActive: boolean;
+  generatedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Auto-dispatch types
+export interface AutoDispatchEntry {
+  tripId: string;
+  trip: Trip;
+  status: AutoDispatchStatus;
+  attempts: number; // searches that found no suitable driver, counted against maxRetries
+  vetoes: number; // proposed drivers the dispatcher rejected; these do not use up retries
+  candidate?: AutoDispatchCandidate;
+  excludedDriverIds: string[];
+  reason: string; // latest explanation shown to dispatchers
+  countdownEndsAt?: Date;
+  nextRetryAt?: Date;
+  enqueuedAt: Date;
+  updatedAt: Date;
+}
+
+export interface AutoDispatchCandidate {
+  driverId: string;
+  driverName: string;
+  score: number;
+  etaMinutes: number | null;
+}
+
+export enum AutoDispatchStatus {
+  SEARCHING = 'searching',
+  PROPOSED = 'proposed',
+  ASSIGNING = 'assigning',
+  WAITING_RETRY = 'waiting_retry',
+  ASSIGNED = 'assigned',
+  ESCALATED = 'escalated',
+  CANCELLED = 'cancelled'
+}
+
+export interface AutoDispatchEvent {
+  id: string;
+  tripId: string;
+  level: 'info' | 'warning' | 'error';
+  message: string;
+  timestamp: Date;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -539,6 +736,14 @@ export interface TripFilters {
   search?: string;
 }
 
+export interface AlertFilters {
+  type?: AlertType[];
+  severity?: AlertSeverity[];
+  isResolved?: boolean;
+  assignedTo?: string; // user id, or 'unassigned'
+  search?: string;
+}
+
 export interface DriverFilters {
   status?: DriverStatus[];
   availability?: DriverAvailability[];
@@ -569,6 +774,8 @@ export interface TripCreateRequest {
   paymentMethod: PaymentMethod;
   priority: TripPriority;
   waypoints?: Location[];
+  promoCode?: string;
+  metadata?: Record<string, any>;
 }
 
 export interface DriverAssignmentRequest {
@@ -584,9 +791,11 @@ export interface UIState {
   activeTab: string;
   selectedTrip?: string;
   selectedDriver?: string;
+  draggedTripId?: string; // pending trip being dragged onto a driver
   mapCenter: Coordinates;
   mapZoom: number;
   notifications: Notification[];
+  notificationPreferences: NotificationPreferences;
 }
 
 export interface Notification {
@@ -595,9 +804,24 @@ export interface Notification {
   title: string;
   message: string;
   duration?: number;
+  messageType?: MessageType; // real-time event behind the toast; only these can sound or go to the desktop
+  severity?: AlertSeverity;
   createdAt: Date;
 }
 
+export interface NotificationPreferences {
+  desktop: boolean;
+  sound: boolean;
+  messageTypes: MessageType[]; // events that sound and notify on the desktop
+  doNotDisturb: boolean;
+  quietHours: {
+    enabled: boolean;
+    start: string; // HH:mm, local time
+    end: string; // HH:mm, may be earlier than start to span midnight
+  };
+  criticalOverridesQuiet: boolean; // critical alerts still sound during quiet hours and do not disturb
+}
+
 // Map types
 export interface MapMarker {
   id: string;